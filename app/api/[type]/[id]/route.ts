@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { isDocumentType, jsonError, proxyToBackend } from '@/utils/server/backendProxy'
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ type: string; id: string }> }) {
+  const { type, id } = await params
+  if (!isDocumentType(type)) return jsonError(404, 'Unknown document type')
+  return proxyToBackend(req, { path: `/${type}/${encodeURIComponent(id)}` })
+}
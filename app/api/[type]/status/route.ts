@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server'
+import { isDocumentType, jsonError, proxyToBackend } from '@/utils/server/backendProxy'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  const { type } = await params
+  if (!isDocumentType(type)) return jsonError(404, 'Unknown document type')
+  return proxyToBackend(req, { path: `/${type}/status` })
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server'
+import { proxyToBackend } from '@/utils/server/backendProxy'
+
+export const dynamic = 'force-dynamic'
+
+// Answers stream back token by token; the body is piped through unbuffered
+export async function GET(req: NextRequest) {
+  return proxyToBackend(req, { path: '/chat' })
+}
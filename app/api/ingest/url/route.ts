@@ -0,0 +1,42 @@
+import { auth } from '@clerk/nextjs/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { UPLOAD_FIELDS } from '@/utils/api/types'
+import { jsonError, proxyToBackend, validateUpload } from '@/utils/server/backendProxy'
+import { IngestError, fetchUrlDocument } from '@/utils/server/urlIngest'
+
+// Fetch a link on the server and upload what it points to, tagged with its source URL
+export async function POST(req: NextRequest) {
+  // Checked up front so anonymous callers can't make the server fetch anything
+  const { userId } = await auth()
+  if (!userId) return jsonError(401, 'Authentication required')
+
+  let url: unknown
+  try {
+    ({ url } = await req.json())
+  } catch {
+    return jsonError(400, 'Expected a JSON body with a "url" field')
+  }
+  if (typeof url !== 'string' || !url.trim()) return jsonError(400, 'Missing "url" field')
+
+  let fetched
+  try {
+    fetched = await fetchUrlDocument(url, req.signal)
+  } catch (error) {
+    if (error instanceof IngestError) return jsonError(error.status, error.message)
+    if (req.signal.aborted) return new Response(null, { status: 499 })
+    throw error
+  }
+
+  const { type, file, title, finalUrl } = fetched
+  const invalid = validateUpload(type, file)
+  if (invalid) return invalid
+
+  const body = new FormData()
+  body.append(UPLOAD_FIELDS[type], file, file.name)
+  body.append('sourceUrl', url.trim())
+  const upstream = await proxyToBackend(req, { path: `/upload/${type}`, method: 'POST', body })
+  if (!upstream.ok) return upstream
+
+  console.log(`🔗 Imported ${finalUrl} as ${type} "${file.name}"`)
+  return NextResponse.json({ type, filename: file.name, title, sourceUrl: url.trim() })
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server'
+import { proxyToBackend } from '@/utils/server/backendProxy'
+
+export async function POST(req: NextRequest) {
+  return proxyToBackend(req, { path: '/session/migrate' })
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { proxyToBackend } from '@/utils/server/backendProxy'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  return proxyToBackend(req, { path: '/status/stream' })
+}
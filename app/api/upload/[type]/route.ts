@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { UPLOAD_FIELDS } from '@/utils/api/types'
+import {
+  MAX_UPLOAD_BYTES,
+  isDocumentType,
+  jsonError,
+  proxyToBackend,
+  validateUpload,
+} from '@/utils/server/backendProxy'
+
+// Multipart overhead allowed on top of the file size limit
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  const { type } = await params
+  if (!isDocumentType(type)) return jsonError(404, 'Unknown upload type')
+
+  // Reject obviously oversized bodies before reading them
+  const contentLength = Number(req.headers.get('content-length') || 0)
+  if (contentLength > MAX_UPLOAD_BYTES[type] + FORM_OVERHEAD_BYTES) {
+    return jsonError(413, `File is too large. The limit is ${Math.round(MAX_UPLOAD_BYTES[type] / (1024 * 1024))}MB.`)
+  }
+
+  let formData: FormData
+  try {
+    formData = await req.formData()
+  } catch {
+    return jsonError(400, 'Expected a multipart form upload')
+  }
+
+  const file = formData.get(UPLOAD_FIELDS[type])
+  if (!(file instanceof File)) return jsonError(400, `Missing "${UPLOAD_FIELDS[type]}" file field`)
+
+  const invalid = validateUpload(type, file)
+  if (invalid) return invalid
+
+  const body = new FormData()
+  body.append(UPLOAD_FIELDS[type], file, file.name)
+  return proxyToBackend(req, { path: `/upload/${type}`, body })
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { MAX_UPLOAD_CHUNK_BYTES, jsonError, proxyToBackend } from '@/utils/server/backendProxy'
+
+const chunkLimitError = () =>
+  jsonError(413, `Chunk is too large. The limit is ${Math.round(MAX_UPLOAD_CHUNK_BYTES / (1024 * 1024))}MB.`)
+
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ uploadId: string; index: string }> }) {
+  const { uploadId, index } = await params
+  if (!/^\d+$/.test(index)) return jsonError(404, 'Unknown chunk')
+
+  const contentType = req.headers.get('content-type') || ''
+  if (!contentType.startsWith('application/octet-stream')) {
+    return jsonError(415, 'Chunks must be sent as application/octet-stream')
+  }
+
+  // Reject obviously oversized chunks before reading them
+  if (Number(req.headers.get('content-length') || 0) > MAX_UPLOAD_CHUNK_BYTES) return chunkLimitError()
+
+  const chunk = await req.arrayBuffer()
+  if (chunk.byteLength > MAX_UPLOAD_CHUNK_BYTES) return chunkLimitError()
+
+  const body = new Blob([chunk], { type: 'application/octet-stream' })
+  return proxyToBackend(req, { path: `/upload/chunked/${encodeURIComponent(uploadId)}/${index}`, body })
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server'
+import { proxyToBackend } from '@/utils/server/backendProxy'
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+  const { uploadId } = await params
+  return proxyToBackend(req, { path: `/upload/chunked/${encodeURIComponent(uploadId)}/complete` })
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { proxyToBackend } from '@/utils/server/backendProxy'
+
+type Params = { params: Promise<{ uploadId: string }> }
+
+// Which chunks of an interrupted upload the backend already has
+export async function GET(req: NextRequest, { params }: Params) {
+  const { uploadId } = await params
+  return proxyToBackend(req, { path: `/upload/chunked/${encodeURIComponent(uploadId)}` })
+}
+
+// Drop a cancelled upload and the chunks stored so far
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { uploadId } = await params
+  return proxyToBackend(req, { path: `/upload/chunked/${encodeURIComponent(uploadId)}` })
+}
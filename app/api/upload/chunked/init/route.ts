@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import {
+  MAX_UPLOAD_CHUNK_BYTES,
+  isDocumentType,
+  jsonError,
+  proxyToBackend,
+  validateUploadMetadata,
+} from '@/utils/server/backendProxy'
+
+// Start a chunked upload; the declared file is checked against the same limits as a single upload
+export async function POST(req: NextRequest) {
+  let data: Record<string, unknown>
+  try {
+    data = await req.json()
+  } catch {
+    return jsonError(400, 'Expected a JSON body')
+  }
+  if (!data || typeof data !== 'object') return jsonError(400, 'Expected a JSON body')
+
+  const { type, size, mimeType, chunkSize } = data
+  if (typeof type !== 'string' || !isDocumentType(type)) return jsonError(400, 'Unknown upload type')
+  if (typeof size !== 'number' || !Number.isFinite(size) || size <= 0) {
+    return jsonError(400, 'Missing or invalid file size')
+  }
+
+  const invalid = validateUploadMetadata(type, size, typeof mimeType === 'string' ? mimeType : '')
+  if (invalid) return invalid
+
+  if (chunkSize !== undefined && (typeof chunkSize !== 'number' || chunkSize <= 0 || chunkSize > MAX_UPLOAD_CHUNK_BYTES)) {
+    return jsonError(400, `Chunk size must be at most ${Math.round(MAX_UPLOAD_CHUNK_BYTES / (1024 * 1024))}MB.`)
+  }
+
+  const body = new Blob([JSON.stringify(data)], { type: 'application/json' })
+  return proxyToBackend(req, { path: '/upload/chunked/init', body })
+}
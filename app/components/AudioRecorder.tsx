@@ -0,0 +1,159 @@
+'use client'
+import { Mic, Pause, Play, Square, Upload, RotateCcw, X, AlertCircle } from 'lucide-react'
+import * as React from 'react'
+import { motion } from 'framer-motion'
+import { useAudioRecorder } from '@/hooks/useAudioRecorder'
+import { useI18n } from '@/hooks/useI18n'
+
+interface AudioRecorderProps {
+  onSubmit: (file: File) => void
+  onCancel: () => void
+  maxSizeBytes?: number
+}
+
+const LEVEL_BARS = 12
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const mins = Math.floor((totalSeconds % 3600) / 60)
+  const secs = totalSeconds % 60
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
+const buttonClass = 'bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm disabled:opacity-50'
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onSubmit, onCancel, maxSizeBytes }) => {
+  const { state, elapsedMs, level, recording, previewUrl, error, start, pause, resume, stop, reset } = useAudioRecorder()
+  const { t, formatFileSize } = useI18n()
+
+  // Ask for the microphone as soon as recording mode opens
+  React.useEffect(() => {
+    void start()
+  }, [start])
+
+  const isTooLarge = !!recording && !!maxSizeBytes && recording.size > maxSizeBytes
+
+  const handleCancel = () => {
+    reset()
+    onCancel()
+  }
+
+  const handleRecordAgain = () => {
+    reset()
+    void start()
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="flex flex-col justify-center items-center space-y-4 text-center w-full"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {error ? (
+        <>
+          <AlertCircle className="h-12 w-12 text-red-400" />
+          <p className="text-sm text-white/80 max-w-xs">{t(error)}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleRecordAgain} className={buttonClass}>
+              <RotateCcw className="h-4 w-4" /> {t('upload.tryAgain')}
+            </motion.button>
+            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleCancel} className={buttonClass}>
+              <X className="h-4 w-4" /> {t('common.cancel')}
+            </motion.button>
+          </div>
+        </>
+      ) : state === 'stopped' && recording && previewUrl ? (
+        <>
+          <div className="space-y-1">
+            <h3 className="text-lg font-semibold truncate max-w-[200px] sm:max-w-[250px]">{recording.name}</h3>
+            <p className="text-white/70 text-sm">
+              {formatElapsed(elapsedMs)} · {formatFileSize(recording.size)}
+            </p>
+          </div>
+          <audio src={previewUrl} controls className="w-full max-w-xs" />
+          {isTooLarge && (
+            <p className="text-xs text-red-200 max-w-xs">
+              {t('recorder.tooLarge')}
+            </p>
+          )}
+          <div className="flex flex-wrap justify-center gap-2">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => onSubmit(recording)}
+              disabled={isTooLarge}
+              className={buttonClass}
+            >
+              <Upload className="h-4 w-4" /> {t('recorder.upload')}
+            </motion.button>
+            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleRecordAgain} className={buttonClass}>
+              <RotateCcw className="h-4 w-4" /> {t('recorder.rerecord')}
+            </motion.button>
+            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleCancel} className={buttonClass}>
+              <X className="h-4 w-4" /> {t('recorder.discard')}
+            </motion.button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="relative bg-white/20 p-4 rounded-2xl backdrop-blur-sm">
+            <Mic className="h-8 w-8 sm:h-10 sm:w-10 text-white" />
+            {state === 'recording' && (
+              <span className="absolute -top-1 -end-1 w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-2xl font-mono font-semibold tabular-nums">{formatElapsed(elapsedMs)}</p>
+            <p className="text-white/70 text-sm">
+              {t(state === 'paused' ? 'recorder.paused' : state === 'recording' ? 'recorder.recording' : 'recorder.waiting')}
+            </p>
+          </div>
+
+          {/* Live input level */}
+          <div className="flex items-end gap-1 h-6" aria-hidden="true">
+            {Array.from({ length: LEVEL_BARS }, (_, index) => {
+              const isLit = state === 'recording' && level * LEVEL_BARS > index
+              return (
+                <div
+                  key={index}
+                  className={`w-1.5 rounded-full transition-all duration-75 ${isLit ? 'bg-white' : 'bg-white/20'}`}
+                  style={{ height: `${30 + (index / LEVEL_BARS) * 70}%` }}
+                />
+              )
+            })}
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-2">
+            {state === 'recording' && (
+              <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={pause} className={buttonClass}>
+                <Pause className="h-4 w-4" /> {t('recorder.pause')}
+              </motion.button>
+            )}
+            {state === 'paused' && (
+              <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={resume} className={buttonClass}>
+                <Play className="h-4 w-4" /> {t('recorder.resume')}
+              </motion.button>
+            )}
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={stop}
+              disabled={state === 'idle'}
+              className={buttonClass}
+            >
+              <Square className="h-4 w-4" /> {t('recorder.stop')}
+            </motion.button>
+            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleCancel} className={buttonClass}>
+              <X className="h-4 w-4" /> {t('common.cancel')}
+            </motion.button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  )
+}
+
+export default AudioRecorder
@@ -1,22 +1,28 @@
 'use client'
-import { Mic, CheckCircle, XCircle, Loader2, AlertCircle, Volume2 } from 'lucide-react'
+import { Mic, CheckCircle, XCircle, Loader2, AlertCircle, Volume2, RotateCw, FileText, WifiOff } from 'lucide-react'
 import * as React from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
 import { useAuthToast } from '@/hooks/useAuthToast'
-import sessionManager from '@/utils/session';
+import { useI18n } from '@/hooks/useI18n'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import { useTranscriptViewer } from '@/hooks/useTranscriptViewer'
+import api, { ApiError, CancelledError } from '@/utils/api'
+import {
+  DOCUMENT_DELETED_EVENT,
+  QUEUED_UPLOAD_SETTLED_EVENT,
+  UPLOAD_REQUESTED_EVENT,
+  notifyDocumentAdded,
+  type DocumentDeletedDetail,
+  type QueuedUploadSettledDetail,
+  type UploadRequestedDetail,
+} from '@/utils/documentEvents'
+import fileRegistry from '@/utils/fileRegistry'
+import offlineQueue, { isConnectionError } from '@/utils/offlineQueue'
+import AudioRecorder from './AudioRecorder'
 
-interface AudioFileStatus {
-  filename: string
-  status: 'processing' | 'ready' | 'failed'
-  transcript?: string
-  uploadedAt: number
-  updatedAt: number
-}
-
-interface StatusResponse {
-  sessionId: string
-  files: AudioFileStatus[]
-}
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_AUDIO_SIZE_BYTES = 50 * 1024 * 1024;
 
 const AudioUploadComponent: React.FC = () => {
   const [uploadedAudio, setUploadedAudio] = React.useState<File | null>(null)
@@ -26,82 +32,156 @@ const AudioUploadComponent: React.FC = () => {
   const [isFailed, setIsFailed] = React.useState(false)
   const [progress, setProgress] = React.useState(0)
   const [errorMessage, setErrorMessage] = React.useState<string>('')
+  // The failure happened while sending the file, so it can be resumed
+  const [uploadFailed, setUploadFailed] = React.useState(false)
+  // Set while the file waits in the offline queue for the connection to return
+  const [offlineQueueId, setOfflineQueueId] = React.useState<string | null>(null)
+  const [isRecording, setIsRecording] = React.useState(false)
+  const abortControllerRef = React.useRef<AbortController | null>(null)
   const { showAuthToast, isSignedIn } = useAuthToast()
+  const { t, formatFileSize, formatPercent, describeError } = useI18n()
+  const { getStatus } = useProcessingStatus('audio')
+  const { openTranscript } = useTranscriptViewer()
 
-  // Get or create session ID
-  const sessionId = sessionManager.getSessionId();
-
-  // Poll backend for transcription status
-  async function waitUntilProcessed(filename: string) {
-    return new Promise<void>((resolve, reject) => {
-      const interval = setInterval(async () => {
-        try {
-          console.log('🔄 Polling audio status for session:', sessionId);
-          console.log('🔍 Looking for filename:', filename);
-          
-          const res = await fetch(
-            `${process.env.NEXT_PUBLIC_SERVER_URL}/audio/status?sessionId=${encodeURIComponent(sessionId)}`
-          );
-          
-          if (!res.ok) {
-            throw new Error(`HTTP error! status: ${res.status}`);
-          }
-          
-          const data: StatusResponse = await res.json();
-          const files: AudioFileStatus[] = data.files || [];
-          
-          console.log('📊 Full status response:', data);
-          console.log('📁 All files in session:', files);
-
-          const currentFile = files.find(f => f.filename === filename);
-
-          if (!currentFile) {
-            console.log('❌ Audio file not found in status response');
-            return;
-          }
-
-          console.log('✅ Found file:', currentFile);
-          console.log('📋 Current file status:', currentFile.status);
-
-          if (currentFile.status === 'ready') {
-            console.log('🎉 Audio processing completed!');
-            clearInterval(interval);
-            setIsProcessing(false);
-            setIsUploaded(true);
-            setIsFailed(false);
-            resolve();
-          } else if (currentFile.status === 'failed') {
-            console.log('💥 Audio processing failed');
-            clearInterval(interval);
-            setIsProcessing(false);
-            setIsUploaded(false);
-            setIsFailed(true);
-            setErrorMessage('Audio processing failed. Please try again with a different file.');
-            reject(new Error('Audio processing failed'));
-          }
-          // Continue polling if status is 'processing'
-        } catch (err) {
-          console.error('❌ Audio status poll error', err);
-          // Don't clear interval on temporary errors
-        }
-      }, 3000);
-
-      // Timeout after 10 minutes
-      setTimeout(() => {
-        console.log('⏰ Audio processing timeout');
-        clearInterval(interval);
-        setIsProcessing(false);
-        setIsUploaded(false);
-        setIsFailed(true);
-        setErrorMessage('Processing timeout. Please try again.');
-        reject(new Error('Processing timeout'));
-      }, 10 * 60 * 1000);
+  const currentStatus = uploadedAudio ? getStatus('audio', uploadedAudio.name) : undefined
+
+  // Follow transcription status pushed by the shared status subscription
+  React.useEffect(() => {
+    if (!isProcessing || !currentStatus) return
+
+    if (currentStatus.status === 'ready') {
+      console.log('🎉 Audio processing completed!');
+      setIsProcessing(false);
+      setIsUploaded(true);
+      setIsFailed(false);
+    } else if (currentStatus.status === 'failed') {
+      console.log('💥 Audio processing failed');
+      setIsProcessing(false);
+      setIsUploaded(false);
+      setIsFailed(true);
+      setErrorMessage(t('upload.audio.processingFailedDetail'));
+    }
+  }, [isProcessing, currentStatus, t]);
+
+  // Timeout after 10 minutes
+  React.useEffect(() => {
+    if (!isProcessing) return;
+
+    const timer = setTimeout(() => {
+      console.log('⏰ Audio processing timeout');
+      setIsProcessing(false);
+      setIsUploaded(false);
+      setIsFailed(true);
+      setErrorMessage(t('upload.audio.timeout'));
+    }, PROCESSING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [isProcessing, t]);
+
+  // Hand the upload to the offline queue, which sends it once the connection returns
+  const queueOffline = async (file: File) => {
+    console.log('📥 Offline, queueing audio upload:', file.name);
+    const queueId = await offlineQueue.queueUpload('audio', file);
+    setIsUploading(false);
+    setOfflineQueueId(queueId);
+  };
+
+  const startUpload = async (file: File) => {
+    console.log('📤 Starting upload for file:', file.name);
+    console.log('📝 File details:', {
+      name: file.name,
+      size: file.size,
+      type: file.type
     });
-  }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsUploading(true);
+    setProgress(0);
+    setIsUploaded(false);
+    setIsProcessing(false);
+    setIsFailed(false);
+    setUploadFailed(false);
+    setErrorMessage('');
+    setUploadedAudio(file);
+    // Keep the file so the transcript viewer can play it back without a download
+    fileRegistry.register('audio', file);
+
+    if (!navigator.onLine) {
+      await queueOffline(file);
+      return;
+    }
+
+    try {
+      const result = await api.uploadAudio(file, {
+        signal: controller.signal,
+        onProgress: ({ percent }) => setProgress(percent),
+      });
+      setProgress(100);
+
+      console.log('✅ Upload successful, server response:', result);
+      
+      setIsUploading(false);
+      setIsProcessing(true);
+      notifyDocumentAdded({ type: 'audio', filename: result.filename ?? file.name });
+      
+      console.log('Audio uploaded, waiting for processing ⏳');
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        console.log('🛑 Audio upload cancelled');
+        return;
+      }
+      if (isConnectionError(err)) {
+        await queueOffline(file);
+        return;
+      }
+      console.error('❌ Error uploading audio:', err);
+      setIsUploading(false);
+      setIsFailed(true);
+      setUploadFailed(true);
+      setErrorMessage(err instanceof ApiError ? t('upload.failedWithReason', { reason: describeError(err, 'upload.failed') }) : t('upload.failedTryAgain'));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const handleCancelQueuedUpload = () => {
+    if (offlineQueueId) void offlineQueue.remove(offlineQueueId);
+    handleRemoveAudio();
+  };
+
+  const handleCancelUpload = () => {
+    abortControllerRef.current?.abort();
+    handleRemoveAudio();
+  };
+
+  // Abort an in-flight upload when the card unmounts
+  React.useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Basic file validation before anything is sent
+  const handlePickedFile = (file: File) => {
+    if (file.size > MAX_AUDIO_SIZE_BYTES) {
+      toast.error(t('upload.tooLarge', { filename: file.name }), {
+        description: t('upload.audio.tooLargeHint', { size: formatFileSize(MAX_AUDIO_SIZE_BYTES) }),
+      });
+      return;
+    }
+
+    if (!file.type.startsWith('audio/')) {
+      toast.error(t('upload.audio.notAudio', { filename: file.name }), { description: t('upload.audio.notAudioHint') });
+      return;
+    }
+
+    void startUpload(file);
+  };
 
   const handleFileUploadButtonClick = () => {
     if (!isSignedIn) {
-      showAuthToast('upload audio files')
+      showAuthToast('uploadAudio')
       return
     }
     
@@ -109,115 +189,111 @@ const AudioUploadComponent: React.FC = () => {
     el.type = 'file';
     el.accept = 'audio/*';
 
-    el.addEventListener('change', async () => {
+    el.addEventListener('change', () => {
       if (el.files && el.files.length > 0) {
-        const file = el.files[0];
-        
-        // Basic file validation
-        if (file.size > 50 * 1024 * 1024) {
-          alert('File too large. Please select a file smaller than 50MB.');
-          return;
-        }
-
-        if (!file.type.startsWith('audio/')) {
-          alert('Please select an audio file.');
-          return;
-        }
-
-        console.log('📤 Starting upload for file:', file.name);
-        console.log('📝 File details:', {
-          name: file.name,
-          size: file.size,
-          type: file.type
-        });
-
-        setIsUploading(true);
-        setProgress(0);
-        setIsUploaded(false);
-        setIsProcessing(false);
-        setIsFailed(false);
-        setErrorMessage('');
-        setUploadedAudio(file);
-
-        try {
-          const formData = new FormData();
-          formData.append('audio', file);
-
-          // Simulate upload progress
-          const progressInterval = setInterval(() => {
-            setProgress(prev => {
-              if (prev >= 90) {
-                clearInterval(progressInterval);
-                return 90;
-              }
-              return prev + 10;
-            });
-          }, 200);
-
-          const res = await fetch(`${process.env.NEXT_PUBLIC_SERVER_URL}/upload/audio`, {
-            method: 'POST',
-            body: formData,
-            headers: {
-              'x-session-id': sessionId
-            }
-          });
-
-          clearInterval(progressInterval);
-          setProgress(100);
-
-          if (res.ok) {
-            const result = await res.json();
-            console.log('✅ Upload successful, server response:', result);
-            
-            setIsUploading(false);
-            setIsProcessing(true);
-            
-            console.log('Audio uploaded, waiting for processing ⏳');
-            
-            await waitUntilProcessed(file.name);
-            
-            console.log('Audio processed successfully ✅');
-          } else {
-            const errorText = await res.text();
-            console.error('❌ Upload failed with status:', res.status, 'Response:', errorText);
-            setIsUploading(false);
-            setIsFailed(true);
-            setErrorMessage('Upload failed. Please try again.');
-          }
-        } catch (err) {
-          console.error('❌ Error uploading or processing audio:', err);
-          setIsUploading(false);
-          setIsFailed(true);
-          setErrorMessage('Upload or processing failed. Please try again.');
-        }
+        handlePickedFile(el.files[0]);
       }
     });
 
     el.click();
   };
 
+  const handleRecordButtonClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isSignedIn) {
+      showAuthToast('recordAudio')
+      return
+    }
+    setIsRecording(true);
+  };
+
+  // Recordings go through the same upload and status flow as picked files
+  const handleRecordingSubmit = (file: File) => {
+    setIsRecording(false);
+    void startUpload(file);
+  };
+
   const handleRemoveAudio = () => {
+    setOfflineQueueId(null);
     setUploadedAudio(null);
+    setIsUploading(false);
     setIsUploaded(false);
     setIsProcessing(false);
     setIsFailed(false);
+    setUploadFailed(false);
     setErrorMessage('');
     setProgress(0);
   };
 
+  // Reset the card when its file is removed through the document library
+  React.useEffect(() => {
+    const handleDeleted = (event: Event) => {
+      const { type, filename } = (event as CustomEvent<DocumentDeletedDetail>).detail;
+      if (type === 'audio' && filename === uploadedAudio?.name) {
+        handleRemoveAudio();
+      }
+    };
+    window.addEventListener(DOCUMENT_DELETED_EVENT, handleDeleted);
+    return () => window.removeEventListener(DOCUMENT_DELETED_EVENT, handleDeleted);
+  }, [uploadedAudio]);
+
+  // Follow the upload once the offline queue sends it, or gives up
+  React.useEffect(() => {
+    if (!offlineQueueId) return;
+    const handleSettled = (event: Event) => {
+      const { queueId, error } = (event as CustomEvent<QueuedUploadSettledDetail>).detail;
+      if (queueId !== offlineQueueId) return;
+      setOfflineQueueId(null);
+      if (error) {
+        setIsFailed(true);
+        setUploadFailed(true);
+        setErrorMessage(error instanceof ApiError ? t('upload.failedWithReason', { reason: describeError(error, 'upload.failed') }) : t('upload.failedTryAgain'));
+      } else {
+        setIsProcessing(true);
+      }
+    };
+    window.addEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled);
+    return () => window.removeEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled);
+  }, [offlineQueueId, t, describeError]);
+
+  const isIdle = !isUploaded && !isUploading && !isProcessing && !isFailed && !isRecording && !offlineQueueId;
+
+  // Take audio dropped or pasted onto the page; this card holds one file at a time
+  React.useEffect(() => {
+    const handleUploadRequested = (event: Event) => {
+      const { type, files } = (event as CustomEvent<UploadRequestedDetail>).detail;
+      if (type !== 'audio' || files.length === 0) return;
+
+      if (!isIdle && !isUploaded && !isFailed) {
+        toast.error(t('upload.audio.busy'), {
+          description: t('upload.audio.busyHint', { filename: files[0].name }),
+        });
+        return;
+      }
+      if (files.length > 1) {
+        toast.info(t('upload.audio.oneAtATime'), {
+          description: t('upload.audio.oneAtATimeHint', { filename: files[0].name }),
+        });
+      }
+      handlePickedFile(files[0]);
+    };
+    window.addEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested);
+    return () => window.removeEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested);
+  });
+
   return (
     <motion.div
-      whileHover={{ scale: !isUploaded && !isUploading && !isProcessing && !isFailed ? 1.02 : 1 }}
-      whileTap={{ scale: !isUploaded && !isUploading && !isProcessing && !isFailed ? 0.98 : 1 }}
+      whileHover={{ scale: isIdle ? 1.02 : 1 }}
+      whileTap={{ scale: isIdle ? 0.98 : 1 }}
       className={`relative bg-gradient-to-br from-green-600 via-blue-600 to-purple-600 text-white shadow-2xl shadow-blue-500/20 
         flex justify-center items-center p-6 rounded-3xl border-2 border-white/20 transition-all duration-300 
         backdrop-blur-sm hover:shadow-blue-500/30 ${
-          isUploaded || isUploading || isProcessing || isFailed ? 'cursor-default' : 'cursor-pointer hover:bg-gradient-to-br hover:from-green-700 hover:via-blue-700 hover:to-purple-700'
+          !isIdle ? 'cursor-default' : 'cursor-pointer hover:bg-gradient-to-br hover:from-green-700 hover:via-blue-700 hover:to-purple-700'
         }`}
-      onClick={!isUploaded && !isUploading && !isProcessing && !isFailed ? handleFileUploadButtonClick : undefined}
+      onClick={isIdle ? handleFileUploadButtonClick : undefined}
     >
       {/* Idle State */}
-      {!isUploaded && !isUploading && !isProcessing && !isFailed && (
+      {isIdle && (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
@@ -227,18 +303,35 @@ const AudioUploadComponent: React.FC = () => {
             <Mic className="h-8 w-8 sm:h-10 sm:w-10 text-white" />
           </div>
           <div className="space-y-2">
-            <h3 className="text-lg sm:text-xl font-bold tracking-wide">Upload Audio</h3>
+            <h3 className="text-lg sm:text-xl font-bold tracking-wide">{t('upload.audio.title')}</h3>
             <p className="text-white/70 text-sm sm:text-base max-w-xs">
-              Click to select audio file
+              {t('upload.audio.hint')}
             </p>
           </div>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleRecordButtonClick}
+            className="bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+          >
+            <span className="w-2 h-2 bg-red-500 rounded-full" /> {t('upload.audio.record')}
+          </motion.button>
           <div className="flex items-center gap-2 text-xs text-white/50">
             <Volume2 className="h-3 w-3" />
-            <span>MP3, WAV, etc. • Max 50MB</span>
+            <span>{t('upload.audio.formats', { size: formatFileSize(MAX_AUDIO_SIZE_BYTES) })}</span>
           </div>
         </motion.div>
       )}
 
+      {/* Recording State */}
+      {isRecording && (
+        <AudioRecorder
+          onSubmit={handleRecordingSubmit}
+          onCancel={() => setIsRecording(false)}
+          maxSizeBytes={MAX_AUDIO_SIZE_BYTES}
+        />
+      )}
+
       {/* Uploading State */}
       {isUploading && (
         <motion.div
@@ -255,9 +348,42 @@ const AudioUploadComponent: React.FC = () => {
                 transition={{ ease: 'easeOut', duration: 0.2 }}
               />
             </div>
-            <p className="text-sm font-medium">{progress}% uploaded</p>
+            <p className="text-sm font-medium">{t('upload.progress', { percent: formatPercent(progress) })}</p>
+          </div>
+          <p className="text-xs text-white/60">{t('upload.audio.uploading')}</p>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleCancelUpload}
+            className="mx-auto bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+          >
+            <XCircle className="h-4 w-4" /> {t('common.cancel')}
+          </motion.button>
+        </motion.div>
+      )}
+
+      {/* Waiting for Connection */}
+      {offlineQueueId && uploadedAudio && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="flex flex-col justify-center items-center space-y-4 text-center w-full"
+        >
+          <WifiOff className="h-12 w-12 text-amber-200" />
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold truncate max-w-[200px] sm:max-w-[250px]">
+              {uploadedAudio.name}
+            </h3>
+            <p className="text-white/70 text-sm">{t('upload.waitingHint')}</p>
           </div>
-          <p className="text-xs text-white/60">Uploading your audio file...</p>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleCancelQueuedUpload}
+            className="mx-auto bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+          >
+            <XCircle className="h-4 w-4" /> {t('common.cancel')}
+          </motion.button>
         </motion.div>
       )}
 
@@ -270,15 +396,26 @@ const AudioUploadComponent: React.FC = () => {
         >
           <Loader2 className="h-12 w-12 animate-spin text-white" />
           <div className="space-y-2">
-            <h3 className="text-lg font-semibold">Transcribing Audio</h3>
-            <p className="text-white/70 text-sm">Converting speech to text...</p>
+            <h3 className="text-lg font-semibold">{t('upload.audio.transcribing')}</h3>
+            <p className="text-white/70 text-sm capitalize">
+              {currentStatus?.stage || t('upload.audio.transcribingHint')}
+              {currentStatus?.progress !== undefined && ` · ${formatPercent(currentStatus.progress)}`}
+            </p>
           </div>
           <div className="w-24 h-1 bg-white/20 rounded-full overflow-hidden">
-            <motion.div 
-              className="h-full bg-white rounded-full"
-              animate={{ x: [-50, 50] }}
-              transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
-            />
+            {currentStatus?.progress !== undefined ? (
+              <motion.div
+                className="h-full bg-white rounded-full"
+                animate={{ width: `${currentStatus.progress}%` }}
+                transition={{ ease: 'easeOut', duration: 0.3 }}
+              />
+            ) : (
+              <motion.div 
+                className="h-full bg-white rounded-full"
+                animate={{ x: [-50, 50] }}
+                transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
+              />
+            )}
           </div>
         </motion.div>
       )}
@@ -295,22 +432,32 @@ const AudioUploadComponent: React.FC = () => {
           >
             <div className="relative">
               <CheckCircle className="h-12 w-12 text-green-400" />
-              <div className="absolute -top-1 -right-1 w-4 h-4 bg-green-400 rounded-full animate-ping"></div>
+              <div className="absolute -top-1 -end-1 w-4 h-4 bg-green-400 rounded-full animate-ping"></div>
             </div>
             <div className="space-y-2">
               <h3 className="text-lg font-semibold truncate max-w-[200px] sm:max-w-[250px]">
                 {uploadedAudio.name}
               </h3>
-              <p className="text-white/70 text-sm">Transcribed successfully</p>
+              <p className="text-white/70 text-sm">{t('upload.audio.transcribed')}</p>
+            </div>
+            <div className="flex flex-wrap justify-center gap-2 mt-2">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => openTranscript({ filename: uploadedAudio.name, documentId: currentStatus?.id })}
+                className="bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+              >
+                <FileText className="h-4 w-4" /> {t('upload.audio.viewTranscript')}
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={handleRemoveAudio}
+                className="bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+              >
+                <XCircle className="h-4 w-4" /> {t('upload.audio.uploadNew')}
+              </motion.button>
             </div>
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={handleRemoveAudio}
-              className="mt-2 bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
-            >
-              <XCircle className="h-4 w-4" /> Upload New
-            </motion.button>
           </motion.div>
         )}
       </AnimatePresence>
@@ -330,19 +477,31 @@ const AudioUploadComponent: React.FC = () => {
               <h3 className="text-lg font-semibold truncate max-w-[200px] sm:max-w-[250px]">
                 {uploadedAudio.name}
               </h3>
-              <p className="text-white/70 text-sm">Processing failed</p>
+              <p className="text-white/70 text-sm">{t('upload.processingFailed')}</p>
               {errorMessage && (
                 <p className="text-xs text-white/50 mt-1 max-w-xs">{errorMessage}</p>
               )}
             </div>
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={handleRemoveAudio}
-              className="mt-2 bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
-            >
-              <XCircle className="h-4 w-4" /> Try Again
-            </motion.button>
+            <div className="flex flex-wrap justify-center gap-2 mt-2">
+              {uploadFailed && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => { void startUpload(uploadedAudio) }}
+                  className="bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+                >
+                  <RotateCw className="h-4 w-4" /> {t('upload.resume')}
+                </motion.button>
+              )}
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={handleRemoveAudio}
+                className="bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
+              >
+                <XCircle className="h-4 w-4" /> {t('upload.tryAgain')}
+              </motion.button>
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
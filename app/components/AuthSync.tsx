@@ -0,0 +1,73 @@
+'use client'
+import * as React from 'react'
+import { useAuth } from '@clerk/nextjs'
+import { toast } from 'sonner'
+import { setAuthTokenProvider } from '@/utils/api'
+import localeStore, { errorMessageKey, formatList, translate, type Locale } from '@/utils/i18n'
+import sessionManager from '@/utils/session'
+import {
+  declineMigration,
+  findAnonymousContent,
+  migrateAnonymousContent,
+  type AnonymousContent,
+} from '@/utils/accountMigration'
+
+const describeContent = ({ documentCount, threads }: AnonymousContent, locale: Locale) => {
+  const parts = []
+  if (documentCount > 0) parts.push(translate(locale, 'migration.documents', { count: documentCount }))
+  if (threads.length > 0) parts.push(translate(locale, 'migration.chats', { count: threads.length }))
+  return formatList(locale, parts)
+}
+
+// Keeps API requests and the browser session in step with the Clerk user
+const AuthSync: React.FC = () => {
+  const { isLoaded, userId, getToken } = useAuth()
+
+  React.useEffect(() => {
+    if (!isLoaded) return
+    setAuthTokenProvider(userId ? () => getToken() : null)
+    sessionManager.setUserId(userId ?? null)
+  }, [isLoaded, userId, getToken])
+
+  // Offer to bring over what was done before signing in
+  React.useEffect(() => {
+    if (!isLoaded || !userId) return
+
+    // The language is read when each toast shows, so switching it doesn't repeat the offer
+    const locale = () => localeStore.getLocale()
+
+    let cancelled = false
+    const offerMigration = async () => {
+      const content = await findAnonymousContent(userId)
+      if (!content || cancelled) return
+
+      const migrate = async () => {
+        try {
+          await migrateAnonymousContent(userId, content)
+          toast.success(translate(locale(), 'migration.moved'), { description: describeContent(content, locale()) })
+        } catch (err) {
+          console.error('❌ Error migrating anonymous session:', err)
+          toast.error(translate(locale(), 'migration.failed'), {
+            description: translate(locale(), errorMessageKey(err, 'migration.tryLater')),
+          })
+        }
+      }
+
+      toast(translate(locale(), 'migration.offerTitle'), {
+        description: translate(locale(), 'migration.offerBody', { content: describeContent(content, locale()) }),
+        duration: Infinity,
+        action: { label: translate(locale(), 'migration.move'), onClick: () => { void migrate() } },
+        cancel: { label: translate(locale(), 'migration.notNow'), onClick: () => declineMigration(userId, content) },
+      })
+    }
+
+    void offerMigration()
+    return () => {
+      cancelled = true
+    }
+  }, [isLoaded, userId])
+
+  return null
+}
+
+export default AuthSync
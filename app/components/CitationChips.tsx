@@ -0,0 +1,132 @@
+'use client'
+import { FileText, FileType, Volume2, ChevronDown, Eye, Play, ExternalLink } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useI18n } from '@/hooks/useI18n'
+import { usePdfViewer } from '@/hooks/usePdfViewer'
+import { useTranscriptViewer } from '@/hooks/useTranscriptViewer'
+import type { ChatSource } from '@/utils/api'
+import { translate, type Locale } from '@/utils/i18n'
+import { formatTimestamp } from '@/utils/transcript'
+
+interface CitationChipsProps {
+  sources: ChatSource[]
+}
+
+const isAudioSource = (source: ChatSource) =>
+  source.type === 'audio' || (source.type === undefined && source.startTime !== undefined)
+
+// Short location label: page number for PDFs, time range for audio
+const getLocationLabel = (source: ChatSource, locale: Locale): string | null => {
+  if (isAudioSource(source) && source.startTime !== undefined) {
+    const start = formatTimestamp(source.startTime)
+    return source.endTime !== undefined ? `${start}–${formatTimestamp(source.endTime)}` : start
+  }
+  if (source.page !== undefined) return translate(locale, 'citations.page', { page: source.page })
+  return null
+}
+
+const CitationChips: React.FC<CitationChipsProps> = ({ sources }) => {
+  const [expandedIndex, setExpandedIndex] = React.useState<number | null>(null)
+  const { openPdf } = usePdfViewer()
+  const { openTranscript } = useTranscriptViewer()
+  const { t, locale, formatPercent } = useI18n()
+
+  if (sources.length === 0) return null
+
+  const expanded = expandedIndex !== null ? sources[expandedIndex] : null
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+      <p className="text-xs text-white/50 font-medium">{t('citations.title')}</p>
+      <div className="flex flex-wrap gap-2">
+        {sources.map((source, index) => {
+          const location = getLocationLabel(source, locale)
+          const Icon = isAudioSource(source) ? Volume2 : source.type === 'text' ? FileType : FileText
+          const isExpanded = expandedIndex === index
+
+          return (
+            <button
+              key={`${source.filename}-${index}`}
+              type="button"
+              onClick={() => setExpandedIndex(isExpanded ? null : index)}
+              className={`flex items-center gap-1.5 text-xs px-2.5 py-1 rounded-full border transition-all duration-200 ${
+                isExpanded
+                  ? 'bg-purple-500/30 border-purple-400/50 text-white'
+                  : 'bg-white/10 border-white/20 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              <span className="text-white/50">[{index + 1}]</span>
+              <Icon className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate max-w-[140px]">{source.filename}</span>
+              {location && <span className="text-white/50">· {location}</span>}
+              <ChevronDown className={`h-3 w-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+          )
+        })}
+      </div>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            key={expandedIndex}
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="bg-black/20 border border-white/10 rounded-2xl p-3 text-xs space-y-1 overflow-hidden"
+          >
+            <div className="flex items-center justify-between gap-2 text-white/60">
+              <span className="truncate">
+                {expanded.filename}
+                {getLocationLabel(expanded, locale) && ` · ${getLocationLabel(expanded, locale)}`}
+              </span>
+              {expanded.score !== undefined && (
+                <span className="flex-shrink-0">{t('citations.relevance', { percent: formatPercent(expanded.score * 100) })}</span>
+              )}
+            </div>
+            {expanded.snippet ? (
+              <p className="text-white/80 leading-relaxed whitespace-pre-wrap italic">
+                &ldquo;{expanded.snippet}&rdquo;
+              </p>
+            ) : (
+              <p className="text-white/40">{t('citations.noExcerpt')}</p>
+            )}
+            {expanded.url && (
+              <a
+                href={expanded.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 pt-1 text-purple-300 hover:text-purple-200 transition-colors truncate"
+              >
+                <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{expanded.url}</span>
+              </a>
+            )}
+            {isAudioSource(expanded) ? (
+              <button
+                type="button"
+                onClick={() => openTranscript({ filename: expanded.filename, startTime: expanded.startTime })}
+                className="flex items-center gap-1 pt-1 text-purple-300 hover:text-purple-200 transition-colors"
+              >
+                <Play className="h-3 w-3" />
+                {expanded.startTime !== undefined
+                  ? t('citations.playFrom', { time: formatTimestamp(expanded.startTime) })
+                  : t('citations.openTranscript')}
+              </button>
+            ) : expanded.type !== 'text' && (
+              <button
+                type="button"
+                onClick={() => openPdf({ filename: expanded.filename, page: expanded.page, highlight: expanded.snippet })}
+                className="flex items-center gap-1 pt-1 text-purple-300 hover:text-purple-200 transition-colors"
+              >
+                <Eye className="h-3 w-3" /> {t('citations.openInViewer')}
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default CitationChips
@@ -0,0 +1,70 @@
+'use client'
+import { WifiOff, Loader2, Clock } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useI18n } from '@/hooks/useI18n'
+import { useOfflineQueue } from '@/hooks/useOfflineQueue'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+
+const ConnectionBanner: React.FC = () => {
+  const isOnline = useOnlineStatus()
+  const { t } = useI18n()
+  const { items, isReplaying, nextRetryAt } = useOfflineQueue()
+  const [now, setNow] = React.useState(() => Date.now())
+
+  // Tick while a retry is scheduled so the countdown stays current
+  React.useEffect(() => {
+    if (nextRetryAt === null) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [nextRetryAt])
+
+  let content: React.ReactNode = null
+  if (!isOnline) {
+    content = (
+      <>
+        <WifiOff className="h-4 w-4 text-amber-300 flex-shrink-0" />
+        <span>
+          {items.length > 0
+            ? t('connection.offlineQueued', { count: items.length })
+            : t('connection.offline')}
+        </span>
+      </>
+    )
+  } else if (items.length > 0 && nextRetryAt !== null) {
+    const seconds = Math.max(0, Math.ceil((nextRetryAt - now) / 1000))
+    content = (
+      <>
+        <Clock className="h-4 w-4 text-amber-300 flex-shrink-0" />
+        <span>{t('connection.retrying', { count: items.length, seconds })}</span>
+      </>
+    )
+  } else if (items.length > 0 && isReplaying) {
+    content = (
+      <>
+        <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+        <span>{t('connection.sending', { count: items.length })}</span>
+      </>
+    )
+  }
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-50 flex justify-center px-4 pointer-events-none" role="status">
+      <AnimatePresence>
+        {content && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="pointer-events-auto flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-slate-800/90 backdrop-blur-md border border-white/20 text-white text-sm shadow-lg"
+          >
+            {content}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default ConnectionBanner
@@ -0,0 +1,129 @@
+'use client'
+import { Download, FileText, FileJson, Printer, Upload } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
+import { useI18n } from '@/hooks/useI18n'
+import type { ChatThread } from '@/utils/threads'
+import {
+  ConversationImportError,
+  conversationToJson,
+  conversationToMarkdown,
+  downloadTextFile,
+  exportFilename,
+  parseConversationImport,
+} from '@/utils/conversationExport'
+import ConversationPrintView from './ConversationPrintView'
+
+interface ConversationExportMenuProps {
+  thread: ChatThread | null
+  onImport: (thread: ChatThread) => void
+}
+
+const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({ thread, onImport }) => {
+  const [isOpen, setIsOpen] = React.useState(false)
+  const [printThread, setPrintThread] = React.useState<ChatThread | null>(null)
+  const menuRef = React.useRef<HTMLDivElement>(null)
+  const { t, locale } = useI18n()
+
+  const canExport = !!thread && thread.messages.some(m => !m.isStreaming && m.content.trim())
+
+  // Close when clicking anywhere else
+  React.useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const handleExportMarkdown = () => {
+    if (!thread) return
+    downloadTextFile(exportFilename(thread, 'md'), conversationToMarkdown(thread, locale), 'text/markdown')
+    setIsOpen(false)
+  }
+
+  const handleExportJson = () => {
+    if (!thread) return
+    downloadTextFile(exportFilename(thread, 'json'), conversationToJson(thread), 'application/json')
+    setIsOpen(false)
+  }
+
+  const handleExportPdf = () => {
+    if (!thread) return
+    setPrintThread(thread)
+    setIsOpen(false)
+  }
+
+  const handlePrintDone = React.useCallback(() => setPrintThread(null), [])
+
+  const handleImport = () => {
+    setIsOpen(false)
+    const el = document.createElement('input')
+    el.type = 'file'
+    el.accept = 'application/json,.json'
+
+    el.addEventListener('change', async () => {
+      const file = el.files?.[0]
+      if (!file) return
+      try {
+        const imported = parseConversationImport(await file.text())
+        onImport(imported)
+        toast.success(t('exportMenu.imported'), { description: imported.title })
+      } catch (err) {
+        console.error('❌ Error importing conversation:', err)
+        toast.error(t('exportMenu.importFailed'), {
+          description: t(err instanceof ConversationImportError ? err.messageKey : 'exportMenu.importHint'),
+        })
+      }
+    })
+
+    el.click()
+  }
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-start rounded-xl hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent'
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-2 rounded-xl text-white/60 hover:text-white hover:bg-white/10 transition-all duration-200"
+        aria-label={t('exportMenu.label')}
+        aria-expanded={isOpen}
+      >
+        <Download className="h-5 w-5" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute end-0 mt-2 w-52 z-20 p-1 bg-slate-900/95 backdrop-blur-lg border border-white/20 rounded-2xl shadow-xl"
+            role="menu"
+          >
+            <button onClick={handleExportMarkdown} disabled={!canExport} className={itemClass} role="menuitem">
+              <FileText className="h-4 w-4" /> {t('exportMenu.markdown')}
+            </button>
+            <button onClick={handleExportJson} disabled={!canExport} className={itemClass} role="menuitem">
+              <FileJson className="h-4 w-4" /> {t('exportMenu.json')}
+            </button>
+            <button onClick={handleExportPdf} disabled={!canExport} className={itemClass} role="menuitem">
+              <Printer className="h-4 w-4" /> {t('exportMenu.print')}
+            </button>
+            <div className="my-1 border-t border-white/10" />
+            <button onClick={handleImport} className={itemClass} role="menuitem">
+              <Upload className="h-4 w-4" /> {t('exportMenu.import')}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {printThread && <ConversationPrintView thread={printThread} onDone={handlePrintDone} />}
+    </div>
+  )
+}
+
+export default ConversationExportMenu
@@ -0,0 +1,64 @@
+'use client'
+import * as React from 'react'
+import { createPortal } from 'react-dom'
+import { useI18n } from '@/hooks/useI18n'
+import type { ChatThread } from '@/utils/threads'
+import { describeSource, getCitedDocuments } from '@/utils/conversationExport'
+import MarkdownMessage from './MarkdownMessage'
+
+interface ConversationPrintViewProps {
+  thread: ChatThread
+  onDone: () => void
+}
+
+// Print-only rendering of a conversation; the browser's print dialog saves it as PDF
+const ConversationPrintView: React.FC<ConversationPrintViewProps> = ({ thread, onDone }) => {
+  const { t, locale, formatDateTime } = useI18n()
+
+  React.useEffect(() => {
+    window.addEventListener('afterprint', onDone)
+    // Let the portal paint (and KaTeX fonts load) before opening the dialog
+    const timer = setTimeout(() => window.print(), 100)
+    return () => {
+      clearTimeout(timer)
+      window.removeEventListener('afterprint', onDone)
+    }
+  }, [onDone])
+
+  const documents = getCitedDocuments(thread)
+  const messages = thread.messages.filter(m => !m.isStreaming && m.content.trim())
+
+  return createPortal(
+    <div className="print-root">
+      <header className="print-header">
+        <h1>{thread.title}</h1>
+        <p>{t('export.exportedAt', { date: formatDateTime(Date.now()) })}</p>
+        {documents.length > 0 && <p>{t('export.documents')}: {documents.join(', ')}</p>}
+      </header>
+
+      {messages.map(message => (
+        <section key={message.id} className="print-message">
+          <h2>
+            {t(message.role === 'user' ? 'export.you' : 'export.assistant')}
+            {message.createdAt && <span> · {formatDateTime(message.createdAt)}</span>}
+          </h2>
+          {message.role === 'bot' ? (
+            <MarkdownMessage content={message.content} />
+          ) : (
+            <p className="whitespace-pre-wrap">{message.content}</p>
+          )}
+          {message.sources && message.sources.length > 0 && (
+            <ol className="print-sources">
+              {message.sources.map((source, index) => (
+                <li key={`${source.filename}-${index}`}>{describeSource(source, locale)}</li>
+              ))}
+            </ol>
+          )}
+        </section>
+      ))}
+    </div>,
+    document.body
+  )
+}
+
+export default ConversationPrintView
@@ -0,0 +1,196 @@
+'use client'
+import { Library, FileText, FileType, Volume2, Trash2, Loader2, RefreshCw, Eye, ExternalLink } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
+import { useAuthToast } from '@/hooks/useAuthToast'
+import { useDocumentSelection } from '@/hooks/useDocumentSelection'
+import { useI18n } from '@/hooks/useI18n'
+import { usePdfViewer } from '@/hooks/usePdfViewer'
+import { useTranscriptViewer } from '@/hooks/useTranscriptViewer'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import api, { type DocumentStatus, type DocumentType } from '@/utils/api'
+import { notifyDocumentDeleted } from '@/utils/documentEvents'
+import fileRegistry from '@/utils/fileRegistry'
+
+type LibraryDocument = DocumentStatus & { id: string }
+
+const TYPE_ICONS: Record<DocumentType, React.ElementType> = {
+  pdf: FileText,
+  audio: Volume2,
+  text: FileType,
+}
+
+const STATUS_BADGES: Record<LibraryDocument['status'], string> = {
+  processing: 'bg-yellow-500/20 text-yellow-200',
+  ready: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+}
+
+const DocumentLibrary: React.FC = () => {
+  const { documents: statuses, connection, refresh, forget } = useProcessingStatus()
+  const [deletingId, setDeletingId] = React.useState<string | null>(null)
+  const { selectedIds, toggle, setSelectedIds, remove, clear } = useDocumentSelection()
+  const { showAuthToast, isSignedIn } = useAuthToast()
+  const { target: viewerTarget, openPdf, closePdf } = usePdfViewer()
+  const { target: transcriptTarget, openTranscript, closeTranscript } = useTranscriptViewer()
+  const { t, describeError } = useI18n()
+
+  // The server identifies documents by filename unless it sends an explicit ID
+  const documents = React.useMemo<LibraryDocument[]>(
+    () => statuses.map(doc => ({ ...doc, id: doc.id ?? doc.filename })),
+    [statuses]
+  )
+  const isLoading = connection === 'idle'
+
+  // Forget selections for documents that are gone from the index
+  React.useEffect(() => {
+    if (isLoading) return
+    const ids = new Set(documents.map(d => d.id))
+    selectedIds.filter(id => !ids.has(id)).forEach(remove)
+  }, [documents, isLoading, selectedIds, remove])
+
+  const handleDelete = async (doc: LibraryDocument) => {
+    if (!isSignedIn) {
+      showAuthToast('deleteDocuments')
+      return
+    }
+    if (!window.confirm(t('library.confirmDelete', { filename: doc.filename }))) {
+      return
+    }
+
+    setDeletingId(doc.id)
+    try {
+      await api.deleteDocument(doc.type, doc.id)
+      forget(doc.type, doc.filename)
+      remove(doc.id)
+      fileRegistry.remove(doc.type, doc.filename)
+      if (doc.type === 'pdf' && viewerTarget?.filename === doc.filename) closePdf()
+      if (doc.type === 'audio' && transcriptTarget?.filename === doc.filename) closeTranscript()
+      notifyDocumentDeleted({ type: doc.type, filename: doc.filename })
+      toast.success(t('library.deleted'), { description: doc.filename })
+    } catch (err) {
+      console.error('❌ Error deleting document:', err)
+      toast.error(t('library.deleteFailed'), { description: describeError(err, 'common.tryAgain') })
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const readyDocuments = documents.filter(d => d.status === 'ready')
+  const allReadySelected = readyDocuments.length > 0 && readyDocuments.every(d => selectedIds.includes(d.id))
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4 lg:p-6 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-sm lg:text-base flex items-center gap-2">
+          <Library className="h-4 w-4" /> {t('library.title')}
+        </h3>
+        <button
+          onClick={() => { void refresh() }}
+          className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all duration-200"
+          aria-label={t('library.refresh')}
+        >
+          <RefreshCw className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-white/60 text-xs lg:text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" /> {t('library.loading')}
+        </div>
+      ) : documents.length === 0 ? (
+        <p className="text-white/60 text-xs lg:text-sm">{t('library.empty')}</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-xs text-white/50 mb-2">
+            <span>
+              {selectedIds.length === 0
+                ? t('library.answeringFromAll')
+                : t('library.answeringFromSelected', { count: selectedIds.length })}
+            </span>
+            {readyDocuments.length > 0 && (
+              <button
+                onClick={() => allReadySelected ? clear() : setSelectedIds(readyDocuments.map(d => d.id))}
+                className="hover:text-white transition-colors"
+              >
+                {allReadySelected ? t('library.clearSelection') : t('library.selectAll')}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            <AnimatePresence initial={false}>
+              {documents.map(doc => {
+                const Icon = TYPE_ICONS[doc.type]
+                const isReady = doc.status === 'ready'
+                // Converted text documents have no viewer
+                const canView = isReady && doc.type !== 'text'
+
+                return (
+                  <motion.li
+                    key={`${doc.type}-${doc.id}`}
+                    layout
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="flex items-center gap-3 text-sm px-2 py-1.5 rounded-xl hover:bg-white/5"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(doc.id)}
+                      onChange={() => toggle(doc.id)}
+                      disabled={!isReady}
+                      className="accent-purple-500 h-4 w-4 flex-shrink-0 disabled:opacity-40"
+                      aria-label={t('library.useForAnswers', { filename: doc.filename })}
+                    />
+                    <Icon className="h-4 w-4 text-white/60 flex-shrink-0" />
+                    <span className="flex-1 truncate" title={doc.sourceUrl}>{doc.filename}</span>
+                    {doc.sourceUrl && (
+                      <a
+                        href={doc.sourceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10"
+                        aria-label={t('library.openSource', { filename: doc.filename })}
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                    <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_BADGES[doc.status]}`}>
+                      {t(`status.${doc.status}`)}
+                    </span>
+                    {canView && (
+                      <button
+                        onClick={() => doc.type === 'pdf'
+                          ? openPdf({ filename: doc.filename, documentId: doc.id })
+                          : openTranscript({ filename: doc.filename, documentId: doc.id })}
+                        className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10"
+                        aria-label={t('upload.view', { filename: doc.filename })}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { void handleDelete(doc) }}
+                      disabled={deletingId === doc.id}
+                      className="p-1 rounded-full text-red-300/70 hover:text-red-300 hover:bg-white/10 disabled:opacity-50"
+                      aria-label={t('library.delete', { filename: doc.filename })}
+                    >
+                      {deletingId === doc.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </button>
+                  </motion.li>
+                )
+              })}
+            </AnimatePresence>
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default DocumentLibrary
@@ -0,0 +1,33 @@
+'use client'
+import { Languages } from 'lucide-react'
+import * as React from 'react'
+import { useI18n } from '@/hooks/useI18n'
+import { LOCALES, isLocale } from '@/utils/i18n'
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n()
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (isLocale(e.target.value)) setLocale(e.target.value)
+  }
+
+  return (
+    <label className="flex items-center gap-1.5 text-white/80 hover:text-white text-sm px-2 py-1.5 rounded-full hover:bg-white/10 transition-all duration-200 cursor-pointer">
+      <Languages className="h-4 w-4 flex-shrink-0" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={handleChange}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        {Object.entries(LOCALES).map(([code, { label }]) => (
+          <option key={code} value={code} lang={code} className="bg-slate-800 text-white">
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default LanguageSwitcher
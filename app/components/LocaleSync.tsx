@@ -0,0 +1,17 @@
+'use client'
+import * as React from 'react'
+import { useI18n } from '@/hooks/useI18n'
+
+// Keeps the document's language and text direction in step with the chosen locale
+const LocaleSync: React.FC = () => {
+  const { locale, dir } = useI18n()
+
+  React.useEffect(() => {
+    document.documentElement.lang = locale
+    document.documentElement.dir = dir
+  }, [locale, dir])
+
+  return null
+}
+
+export default LocaleSync
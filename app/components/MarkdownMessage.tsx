@@ -0,0 +1,102 @@
+'use client'
+import { Copy, Check } from 'lucide-react'
+import * as React from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import { useI18n } from '@/hooks/useI18n'
+import 'katex/dist/katex.min.css'
+import 'highlight.js/styles/github-dark.css'
+
+interface MarkdownMessageProps {
+  content: string
+}
+
+// Raw HTML in the model output is never rendered; sanitizing the Markdown tree
+// additionally strips unsafe URLs and attributes. It runs before KaTeX and
+// highlight.js so their generated markup is kept, and only lets through the
+// classes remark-math and fenced code blocks need to reach those plugins.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ['className', /^language-./, 'math-inline', 'math-display'],
+    ],
+  },
+}
+
+const COPY_RESET_MS = 2000
+
+const CodeBlock: React.FC<React.ComponentPropsWithoutRef<'pre'>> = ({ children, ...props }) => {
+  const preRef = React.useRef<HTMLPreElement>(null)
+  const [copied, setCopied] = React.useState(false)
+  const { t } = useI18n()
+
+  const codeElement = React.Children.toArray(children).find(React.isValidElement) as
+    React.ReactElement<{ className?: string }> | undefined
+  const language = codeElement?.props.className?.match(/language-([\w-]+)/)?.[1]
+
+  React.useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), COPY_RESET_MS)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '')
+      setCopied(true)
+    } catch (err) {
+      console.error('❌ Failed to copy code:', err)
+    }
+  }
+
+  return (
+    <div className="markdown-code-block">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-white/50 border-b border-white/10">
+        <span>{language ?? t('code.label')}</span>
+        <button
+          type="button"
+          onClick={() => { void handleCopy() }}
+          className="flex items-center gap-1 hover:text-white transition-colors"
+          aria-label={t('code.copy')}
+        >
+          {copied ? <Check className="h-3 w-3 text-green-400" /> : <Copy className="h-3 w-3" />}
+          {copied ? t('code.copied') : t('actions.copy')}
+        </button>
+      </div>
+      <pre ref={preRef} {...props}>{children}</pre>
+    </div>
+  )
+}
+
+const components: Components = {
+  pre: ({ children, className }) => <CodeBlock className={className}>{children}</CodeBlock>,
+  a: ({ href, title, children }) => (
+    <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+}
+
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content }) => (
+  <div className="markdown-body text-sm sm:text-base leading-relaxed">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, [rehypeHighlight, { detect: true }]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+)
+
+export default React.memo(MarkdownMessage)
@@ -0,0 +1,159 @@
+'use client'
+import { Copy, Check, RefreshCw, Pencil, ThumbsUp, ThumbsDown, Loader2 } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
+import { useI18n } from '@/hooks/useI18n'
+import type { FeedbackRating } from '@/utils/api'
+import type { ChatMessage } from '@/utils/threads'
+
+interface MessageActionsProps {
+  message: ChatMessage
+  // Actions that start a new answer are unavailable while one is in progress
+  disabled: boolean
+  onRegenerate?: () => void
+  onEdit?: () => void
+  onFeedback?: (rating: FeedbackRating, comment: string) => Promise<void>
+}
+
+const COPY_RESET_MS = 2000
+
+const actionClassName = 'p-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-all duration-200'
+
+const MessageActions: React.FC<MessageActionsProps> = ({ message, disabled, onRegenerate, onEdit, onFeedback }) => {
+  const [copied, setCopied] = React.useState(false)
+  // Rating picked but not sent yet, while the optional comment is written
+  const [draftRating, setDraftRating] = React.useState<FeedbackRating | null>(null)
+  const [comment, setComment] = React.useState('')
+  const [isSending, setIsSending] = React.useState(false)
+  const rating = draftRating ?? message.feedback?.rating
+  const { t } = useI18n()
+
+  React.useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), COPY_RESET_MS)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content)
+      setCopied(true)
+    } catch (err) {
+      console.error('❌ Failed to copy message:', err)
+      toast.error(t('actions.copyFailed'))
+    }
+  }
+
+  const handleRate = (value: FeedbackRating) => {
+    setDraftRating(current => current === value ? null : value)
+    setComment(message.feedback?.rating === value ? message.feedback.comment ?? '' : '')
+  }
+
+  const handleSubmitFeedback = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draftRating || !onFeedback) return
+    setIsSending(true)
+    try {
+      await onFeedback(draftRating, comment.trim())
+      toast.success(t('feedback.thanks'))
+      setDraftRating(null)
+      setComment('')
+    } catch (err) {
+      console.error('❌ Failed to send feedback:', err)
+      toast.error(t('feedback.failed'), { description: t('common.tryAgain') })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-0.5">
+        <button
+          type="button"
+          onClick={() => { void handleCopy() }}
+          className={actionClassName}
+          aria-label={t('actions.copyMessage')}
+          title={t('actions.copy')}
+        >
+          {copied ? <Check className="h-3.5 w-3.5 text-green-400" /> : <Copy className="h-3.5 w-3.5" />}
+        </button>
+        {onEdit && (
+          <button type="button" onClick={onEdit} disabled={disabled} className={actionClassName} aria-label={t('actions.editAndResend')} title={t('actions.edit')}>
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {onRegenerate && (
+          <button type="button" onClick={onRegenerate} disabled={disabled} className={actionClassName} aria-label={t('actions.regenerateAnswer')} title={t('actions.regenerate')}>
+            <RefreshCw className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {onFeedback && (
+          <>
+            <button
+              type="button"
+              onClick={() => handleRate('up')}
+              className={`${actionClassName} ${rating === 'up' ? 'text-green-400' : ''}`}
+              aria-label={t('actions.goodAnswer')}
+              aria-pressed={rating === 'up'}
+              title={t('actions.goodAnswer')}
+            >
+              <ThumbsUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRate('down')}
+              className={`${actionClassName} ${rating === 'down' ? 'text-red-400' : ''}`}
+              aria-label={t('actions.badAnswer')}
+              aria-pressed={rating === 'down'}
+              title={t('actions.badAnswer')}
+            >
+              <ThumbsDown className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {draftRating && (
+          <motion.form
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            onSubmit={handleSubmitFeedback}
+            className="mt-2 space-y-2 overflow-hidden"
+          >
+            <textarea
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              rows={2}
+              placeholder={t(draftRating === 'up' ? 'feedback.placeholderUp' : 'feedback.placeholderDown')}
+              className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+              aria-label={t('feedback.comment')}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setDraftRating(null)}
+                className="text-xs px-3 py-1.5 rounded-full text-white/60 hover:bg-white/10 transition-all duration-200"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSending}
+                className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-full bg-purple-500/40 hover:bg-purple-500/60 disabled:opacity-50 transition-all duration-200"
+              >
+                {isSending && <Loader2 className="h-3 w-3 animate-spin" />}
+                {t('feedback.send')}
+              </button>
+            </div>
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default MessageActions
@@ -0,0 +1,269 @@
+'use client'
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2, FileText, AlertCircle } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { useI18n } from '@/hooks/useI18n'
+import { usePdfViewer } from '@/hooks/usePdfViewer'
+import api from '@/utils/api'
+import fileRegistry from '@/utils/fileRegistry'
+import { errorMessageKey, type MessageKey } from '@/utils/i18n'
+import { findSnippetItems, loadPdfjs } from '@/utils/pdf'
+import transcriptViewerStore from '@/utils/transcriptViewerStore'
+
+const MIN_SCALE = 0.5
+const MAX_SCALE = 3
+const SCALE_STEP = 0.25
+
+// Read the PDF from this tab's uploads when possible, otherwise download it
+const loadPdfData = async (filename: string, documentId?: string): Promise<ArrayBuffer> => {
+  const localFile = fileRegistry.get('pdf', filename)
+  if (localFile) return localFile.arrayBuffer()
+  const blob = await api.downloadDocument('pdf', documentId ?? filename)
+  return blob.arrayBuffer()
+}
+
+const PdfViewer: React.FC = () => {
+  const { target, closePdf } = usePdfViewer()
+  const { dir, t, formatNumber, formatPercent } = useI18n()
+  const [pdfDoc, setPdfDoc] = React.useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = React.useState(1)
+  const [scale, setScale] = React.useState(1.25)
+  const [highlight, setHighlight] = React.useState<string | undefined>()
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [loadError, setLoadError] = React.useState<MessageKey | null>(null)
+  const [highlightMissing, setHighlightMissing] = React.useState(false)
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const textLayerRef = React.useRef<HTMLDivElement>(null)
+
+  const filename = target?.filename
+  const documentId = target?.documentId
+
+  // Load the document whenever a different file is opened
+  React.useEffect(() => {
+    if (!filename) return
+
+    let cancelled = false
+    let loadedDoc: PDFDocumentProxy | null = null
+    setIsLoading(true)
+    setLoadError(null)
+    setPdfDoc(null)
+
+    const load = async () => {
+      try {
+        const [pdfjs, data] = await Promise.all([loadPdfjs(), loadPdfData(filename, documentId)])
+        const doc = await pdfjs.getDocument({ data }).promise
+        if (cancelled) {
+          void doc.destroy()
+          return
+        }
+        loadedDoc = doc
+        setPdfDoc(doc)
+      } catch (err) {
+        console.error('❌ Failed to open PDF:', err)
+        if (!cancelled) {
+          setLoadError(errorMessageKey(err, 'pdfViewer.openFailed'))
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+      void loadedDoc?.destroy()
+    }
+  }, [filename, documentId])
+
+  // Jump to the requested page and passage each time the viewer is (re)targeted
+  React.useEffect(() => {
+    if (!target) return
+    // Both viewers use the same side panel slot
+    transcriptViewerStore.close()
+    setPageNumber(target.page ?? 1)
+    setHighlight(target.highlight)
+  }, [target])
+
+  // Render the current page and its text layer
+  React.useEffect(() => {
+    if (!pdfDoc || !canvasRef.current || !textLayerRef.current) return
+
+    const canvas = canvasRef.current
+    const container = textLayerRef.current
+    const page = Math.min(Math.max(1, pageNumber), pdfDoc.numPages)
+    let renderTask: RenderTask | null = null
+    let textLayer: { cancel: () => void } | null = null
+    let cancelled = false
+
+    const render = async () => {
+      const [pdfjs, pdfPage] = await Promise.all([loadPdfjs(), pdfDoc.getPage(page)])
+      if (cancelled) return
+
+      const viewport = pdfPage.getViewport({ scale })
+      const outputScale = window.devicePixelRatio || 1
+      canvas.width = Math.floor(viewport.width * outputScale)
+      canvas.height = Math.floor(viewport.height * outputScale)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      renderTask = pdfPage.render({
+        canvas,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      })
+
+      container.replaceChildren()
+      container.style.setProperty('--total-scale-factor', String(scale))
+      const layer = new pdfjs.TextLayer({
+        textContentSource: pdfPage.streamTextContent(),
+        container,
+        viewport,
+      })
+      textLayer = layer
+
+      await Promise.all([renderTask.promise, layer.render()])
+      if (cancelled) return
+
+      if (!highlight) {
+        setHighlightMissing(false)
+        return
+      }
+      const matches = findSnippetItems(layer.textContentItemsStr, highlight)
+      setHighlightMissing(matches.length === 0)
+      matches.forEach(index => layer.textDivs[index]?.classList.add('pdf-highlight'))
+      layer.textDivs[matches[0]]?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+
+    render().catch(err => {
+      // Cancelled renders reject by design
+      if (!cancelled && (err as Error)?.name !== 'RenderingCancelledException') {
+        console.error('❌ Failed to render PDF page:', err)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+      textLayer?.cancel()
+    }
+  }, [pdfDoc, pageNumber, scale, highlight])
+
+  const totalPages = pdfDoc?.numPages ?? 0
+  // The panel slides in from the end edge, which is the left in right-to-left layouts
+  const offscreenX = dir === 'rtl' ? '-100%' : '100%'
+
+  const goToPage = (next: number) => {
+    if (!totalPages) return
+    setPageNumber(Math.min(Math.max(1, next), totalPages))
+  }
+
+  return (
+    <AnimatePresence>
+      {target && (
+        <motion.aside
+          key="pdf-viewer"
+          initial={{ x: offscreenX }}
+          animate={{ x: 0 }}
+          exit={{ x: offscreenX }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          className="fixed inset-y-0 end-0 z-50 w-full md:w-[680px] flex flex-col bg-slate-900/95 backdrop-blur-lg border-s border-white/20 text-white shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileText className="h-5 w-5 text-purple-300 flex-shrink-0" />
+              <h2 className="font-semibold truncate">{target.filename}</h2>
+            </div>
+            <button
+              onClick={closePdf}
+              className="p-2 rounded-xl text-white/60 hover:text-white hover:bg-white/10 transition-all duration-200"
+              aria-label={t('pdfViewer.close')}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Toolbar */}
+          <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-white/10 text-sm">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => goToPage(pageNumber - 1)}
+                disabled={pageNumber <= 1}
+                className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                aria-label={t('pdfViewer.previousPage')}
+              >
+                <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+              </button>
+              <input
+                type="number"
+                min={1}
+                max={totalPages || 1}
+                value={pageNumber}
+                onChange={(e) => goToPage(Number(e.target.value))}
+                className="w-14 bg-white/10 border border-white/20 rounded-lg px-2 py-0.5 text-center focus:outline-none focus:ring-1 focus:ring-purple-500"
+                aria-label={t('pdfViewer.pageNumber')}
+              />
+              <span className="text-white/60">/ {totalPages ? formatNumber(totalPages) : '–'}</span>
+              <button
+                onClick={() => goToPage(pageNumber + 1)}
+                disabled={!totalPages || pageNumber >= totalPages}
+                className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                aria-label={t('pdfViewer.nextPage')}
+              >
+                <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP))}
+                disabled={scale <= MIN_SCALE}
+                className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                aria-label={t('pdfViewer.zoomOut')}
+              >
+                <ZoomOut className="h-4 w-4" />
+              </button>
+              <span className="text-white/60 w-12 text-center">{formatPercent(scale * 100)}</span>
+              <button
+                onClick={() => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP))}
+                disabled={scale >= MAX_SCALE}
+                className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                aria-label={t('pdfViewer.zoomIn')}
+              >
+                <ZoomIn className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {highlight && highlightMissing && !isLoading && (
+            <p className="px-4 py-2 text-xs text-yellow-200 bg-yellow-500/10 border-b border-white/10">
+              {t('pdfViewer.highlightMissing')}
+            </p>
+          )}
+
+          {/* Page */}
+          <div className="flex-1 overflow-auto p-4">
+            {isLoading && (
+              <div className="flex flex-col items-center justify-center h-full gap-3 text-white/70">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <p className="text-sm">{t('pdfViewer.opening')}</p>
+              </div>
+            )}
+            {loadError && (
+              <div className="flex flex-col items-center justify-center h-full gap-3 text-white/70">
+                <AlertCircle className="h-8 w-8 text-red-400" />
+                <p className="text-sm">{t(loadError)}</p>
+              </div>
+            )}
+            <div className={`relative mx-auto w-fit bg-white shadow-lg ${pdfDoc && !isLoading ? '' : 'hidden'}`}>
+              <canvas ref={canvasRef} className="block" />
+              <div ref={textLayerRef} className="pdf-text-layer" />
+            </div>
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  )
+}
+
+export default PdfViewer
@@ -0,0 +1,404 @@
+'use client'
+import { FileType, CheckCircle, XCircle, Loader2, RotateCw, X, Ban, WifiOff } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useAuthToast } from '@/hooks/useAuthToast'
+import { useI18n } from '@/hooks/useI18n'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import api, { CancelledError, type FileStatus } from '@/utils/api'
+import {
+  DOCUMENT_DELETED_EVENT,
+  QUEUED_UPLOAD_SETTLED_EVENT,
+  UPLOAD_REQUESTED_EVENT,
+  notifyDocumentAdded,
+  type DocumentDeletedDetail,
+  type QueuedUploadSettledDetail,
+  type UploadRequestedDetail,
+} from '@/utils/documentEvents'
+import {
+  TEXT_ACCEPT,
+  TEXT_FORMAT_IDS,
+  getTextFormat,
+} from '@/utils/documentFormats'
+import type { MessageKey } from '@/utils/i18n'
+import offlineQueue, { isConnectionError } from '@/utils/offlineQueue'
+import { ConversionError, convertToText } from '@/utils/textConversion'
+
+// Files are converted to plain text before upload; "rejected" ones couldn't be.
+// "waiting" ones are in the offline queue until the connection returns.
+type ItemStatus = 'converting' | 'rejected' | 'waiting' | 'uploading' | FileStatus['status']
+
+interface TextItem {
+  id: string
+  filename: string
+  // Format label, e.g. "DOCX"
+  format?: string
+  // The converted text, only present for files picked in this browser, needed to retry
+  textFile?: File
+  status: ItemStatus
+  error?: string
+  // ID in the offline queue while waiting for the connection
+  offlineQueueId?: string
+  processingStartedAt?: number
+  // Bytes sent so far, 0-100
+  uploadProgress?: number
+  progress?: number
+  stage?: string
+}
+
+const MAX_SOURCE_SIZE_BYTES = 50 * 1024 * 1024
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000
+
+const STATUS_BADGES: Record<ItemStatus, { label: MessageKey; className: string }> = {
+  converting: { label: 'status.converting', className: 'bg-white/10 text-white/70' },
+  rejected: { label: 'status.rejected', className: 'bg-red-500/20 text-red-300' },
+  waiting: { label: 'status.offline', className: 'bg-amber-500/20 text-amber-200' },
+  uploading: { label: 'status.uploading', className: 'bg-blue-500/20 text-blue-200' },
+  processing: { label: 'status.processing', className: 'bg-yellow-500/20 text-yellow-200' },
+  ready: { label: 'status.ready', className: 'bg-green-500/20 text-green-300' },
+  failed: { label: 'status.failed', className: 'bg-red-500/20 text-red-300' },
+}
+
+const createItemId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+const TextUploadComponent: React.FC = () => {
+  const [items, setItems] = React.useState<TextItem[]>([])
+  // In-flight uploads by item ID, so they can be cancelled
+  const abortControllers = React.useRef(new Map<string, AbortController>())
+  const { showAuthToast, isSignedIn } = useAuthToast()
+  const { t, formatFileSize, formatPercent, formatList, describeError } = useI18n()
+  const formatsLabel = React.useMemo(
+    () => formatList(TEXT_FORMAT_IDS.map(format => t(`formats.${format}`))),
+    [t, formatList]
+  )
+  const { documents: textDocuments } = useProcessingStatus('text')
+
+  const updateItem = React.useCallback((id: string, patch: Partial<TextItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item))
+  }, [])
+
+  // Hand the upload to the offline queue, which sends it once the connection returns
+  const queueOffline = React.useCallback(async (id: string, textFile: File) => {
+    console.log('📥 Offline, queueing upload for document:', textFile.name);
+    const offlineQueueId = await offlineQueue.queueUpload('text', textFile)
+    updateItem(id, { status: 'waiting', offlineQueueId, error: undefined })
+  }, [updateItem])
+
+  const uploadItem = React.useCallback(async (id: string, textFile: File, controller = new AbortController()) => {
+    if (!navigator.onLine) {
+      abortControllers.current.delete(id)
+      await queueOffline(id, textFile)
+      return
+    }
+    console.log('📤 Starting upload for document:', textFile.name);
+    abortControllers.current.set(id, controller)
+    updateItem(id, { status: 'uploading', error: undefined, uploadProgress: 0 })
+
+    try {
+      const result = await api.uploadText(textFile, {
+        signal: controller.signal,
+        onProgress: ({ percent }) => updateItem(id, { uploadProgress: percent }),
+      })
+      console.log('✅ Upload successful, waiting for processing ⏳', textFile.name);
+      updateItem(id, { status: 'processing', processingStartedAt: Date.now() })
+      notifyDocumentAdded({ type: 'text', filename: result.filename ?? textFile.name })
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        console.log('🛑 Upload cancelled', textFile.name);
+        return
+      }
+      if (isConnectionError(err)) {
+        await queueOffline(id, textFile)
+        return
+      }
+      console.error('❌ Error uploading document:', err)
+      updateItem(id, { status: 'failed', error: describeError(err, 'upload.failed') })
+    } finally {
+      abortControllers.current.delete(id)
+    }
+  }, [updateItem, queueOffline, describeError])
+
+  // Convert a picked file to text, then upload it
+  const addFile = React.useCallback(async (file: File) => {
+    const format = getTextFormat(file)
+    const id = createItemId()
+    setItems(prev => [
+      // Re-picking a file with the same name replaces its old entry
+      ...prev.filter(item => item.filename !== file.name),
+      { id, filename: file.name, format: format ? t(`formats.${format}`) : undefined, status: 'converting' },
+    ])
+
+    if (!format) {
+      updateItem(id, { status: 'rejected', error: t('upload.text.unsupported', { formats: formatsLabel }) })
+      return
+    }
+    if (file.size > MAX_SOURCE_SIZE_BYTES) {
+      updateItem(id, {
+        status: 'rejected',
+        error: t('preflight.tooLarge', { size: formatFileSize(file.size), limit: formatFileSize(MAX_SOURCE_SIZE_BYTES) }),
+      })
+      return
+    }
+
+    // Registered before converting, so removing the entry also stops the upload
+    const controller = new AbortController()
+    abortControllers.current.set(id, controller)
+    try {
+      const textFile = await convertToText(file, format)
+      if (controller.signal.aborted) return
+      updateItem(id, { textFile })
+      await uploadItem(id, textFile, controller)
+    } catch (err) {
+      console.log('🚫 Document rejected before upload', file.name, err);
+      updateItem(id, {
+        status: 'rejected',
+        error: t(err instanceof ConversionError ? err.messageKey : 'upload.text.conversionFailed'),
+      })
+    }
+  }, [updateItem, uploadItem, t, formatFileSize, formatsLabel])
+
+  // Abort anything still uploading when the card unmounts
+  React.useEffect(() => {
+    const controllers = abortControllers.current
+    return () => controllers.forEach(controller => controller.abort())
+  }, [])
+
+  // Follow server-side processing of the files uploaded from this card
+  React.useEffect(() => {
+    setItems(prev => {
+      let changed = false
+      const next = prev.map(item => {
+        if (item.status !== 'processing') return item
+        const serverFile = textDocuments.find(doc => doc.filename === item.filename)
+
+        if (serverFile?.status === 'ready') {
+          console.log('🎉 Document processing completed!', item.filename);
+          changed = true
+          return { ...item, status: 'ready' as const }
+        }
+        if (serverFile?.status === 'failed') {
+          console.log('💥 Document processing failed', item.filename);
+          changed = true
+          return { ...item, status: 'failed' as const, error: t('upload.processingFailed') }
+        }
+        return item
+      })
+      return changed ? next : prev
+    })
+  }, [textDocuments, t])
+
+  // Fail files whose processing never finishes
+  React.useEffect(() => {
+    const deadlines = items
+      .filter(item => item.status === 'processing' && item.processingStartedAt)
+      .map(item => item.processingStartedAt! + PROCESSING_TIMEOUT_MS)
+    if (deadlines.length === 0) return
+
+    const timer = setTimeout(() => {
+      const now = Date.now()
+      setItems(prev => prev.map(item => {
+        if (item.status === 'processing' && item.processingStartedAt && now - item.processingStartedAt >= PROCESSING_TIMEOUT_MS) {
+          console.log('⏰ Document processing timeout', item.filename);
+          return { ...item, status: 'failed' as const, error: t('upload.processingTimedOut') }
+        }
+        return item
+      }))
+    }, Math.max(0, Math.min(...deadlines) - Date.now()))
+    return () => clearTimeout(timer)
+  }, [items, t])
+
+  // Drop files removed from the index through the document library
+  React.useEffect(() => {
+    const handleDeleted = (event: Event) => {
+      const { type, filename } = (event as CustomEvent<DocumentDeletedDetail>).detail
+      if (type !== 'text') return
+      setItems(prev => prev.filter(item => item.filename !== filename))
+    }
+    window.addEventListener(DOCUMENT_DELETED_EVENT, handleDeleted)
+    return () => window.removeEventListener(DOCUMENT_DELETED_EVENT, handleDeleted)
+  }, [])
+
+  // Pick up uploads the offline queue sent (or gave up on) after reconnecting
+  React.useEffect(() => {
+    const handleSettled = (event: Event) => {
+      const { queueId, error } = (event as CustomEvent<QueuedUploadSettledDetail>).detail
+      setItems(prev => prev.map(item => {
+        if (item.offlineQueueId !== queueId) return item
+        return error
+          ? { ...item, status: 'failed' as const, offlineQueueId: undefined, error: describeError(error, 'upload.failed') }
+          : { ...item, status: 'processing' as const, offlineQueueId: undefined, processingStartedAt: Date.now() }
+      }))
+    }
+    window.addEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled)
+    return () => window.removeEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled)
+  }, [describeError])
+
+  // Take documents dropped or pasted onto the page
+  React.useEffect(() => {
+    const handleUploadRequested = (event: Event) => {
+      const { type, files } = (event as CustomEvent<UploadRequestedDetail>).detail
+      if (type === 'text') files.forEach(file => { void addFile(file) })
+    }
+    window.addEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested)
+    return () => window.removeEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested)
+  }, [addFile])
+
+  const handleFileUploadButtonClick = () => {
+    if (!isSignedIn) {
+      showAuthToast('uploadDocuments')
+      return
+    }
+    const el = document.createElement('input')
+    el.setAttribute('type', 'file')
+    el.setAttribute('accept', TEXT_ACCEPT)
+    el.multiple = true
+
+    el.addEventListener('change', () => {
+      Array.from(el.files ?? []).forEach(file => { void addFile(file) })
+    })
+
+    el.click()
+  }
+
+  const handleRemove = (id: string) => {
+    abortControllers.current.get(id)?.abort()
+    const offlineQueueId = items.find(item => item.id === id)?.offlineQueueId
+    if (offlineQueueId) void offlineQueue.remove(offlineQueueId)
+    setItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  // Local entries enriched with live progress, plus session files uploaded elsewhere
+  const listItems = React.useMemo<TextItem[]>(() => {
+    const local = items.map(item => {
+      const serverFile = textDocuments.find(doc => doc.filename === item.filename)
+      return item.status === 'processing' && serverFile
+        ? { ...item, progress: serverFile.progress, stage: serverFile.stage }
+        : item
+    })
+    const known = new Set(items.map(item => item.filename))
+    const serverOnly: TextItem[] = textDocuments
+      .filter(doc => !known.has(doc.filename))
+      .map(doc => ({
+        id: `server-${doc.filename}`,
+        filename: doc.filename,
+        status: doc.status,
+        progress: doc.progress,
+        stage: doc.stage,
+      }))
+    return [...local, ...serverOnly]
+  }, [items, textDocuments])
+
+  const busyCount = items.filter(item => item.status === 'converting' || item.status === 'uploading').length
+
+  return (
+    <div className="flex flex-col gap-3">
+      <motion.div
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        className="relative bg-gradient-to-br from-amber-500 via-orange-600 to-rose-600 text-white shadow-2xl shadow-orange-500/20
+          flex justify-center items-center p-6 rounded-3xl border-2 border-white/20 transition-all duration-300
+          backdrop-blur-sm hover:shadow-orange-500/30 cursor-pointer hover:bg-gradient-to-br hover:from-amber-600 hover:via-orange-700 hover:to-rose-700"
+        onClick={handleFileUploadButtonClick}
+      >
+        <div className="flex flex-col justify-center items-center space-y-4 text-center w-full">
+          <div className="bg-white/20 p-4 rounded-2xl backdrop-blur-sm">
+            {busyCount > 0 ? (
+              <Loader2 className="h-8 w-8 sm:h-10 sm:w-10 text-white animate-spin" />
+            ) : (
+              <FileType className="h-8 w-8 sm:h-10 sm:w-10 text-white" />
+            )}
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg sm:text-xl font-bold tracking-wide">{t('upload.text.title')}</h3>
+            <p className="text-white/70 text-sm sm:text-base max-w-xs">
+              {busyCount > 0
+                ? t('upload.preparingFiles', { count: busyCount })
+                : t('upload.text.hint')}
+            </p>
+          </div>
+          <div className="text-xs text-white/50">{formatsLabel}</div>
+        </div>
+      </motion.div>
+
+      {/* Per-file status list */}
+      {listItems.length > 0 && (
+        <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-2">
+          <AnimatePresence initial={false}>
+            {listItems.map(item => {
+              const badge = STATUS_BADGES[item.status]
+              const isLocal = !item.id.startsWith('server-')
+
+              return (
+                <motion.div
+                  key={item.id}
+                  layout
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="flex items-center gap-3 text-white text-sm"
+                >
+                  {item.status === 'ready' && <CheckCircle className="h-4 w-4 text-green-400 flex-shrink-0" />}
+                  {item.status === 'failed' && <XCircle className="h-4 w-4 text-red-400 flex-shrink-0" />}
+                  {item.status === 'rejected' && <Ban className="h-4 w-4 text-red-400 flex-shrink-0" />}
+                  {item.status === 'waiting' && <WifiOff className="h-4 w-4 text-amber-300 flex-shrink-0" />}
+                  {(item.status === 'converting' || item.status === 'uploading' || item.status === 'processing') && (
+                    <Loader2 className="h-4 w-4 animate-spin text-white/70 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{item.filename}</p>
+                    {item.textFile && (
+                      <p className="text-xs text-white/50">
+                        {t('upload.text.converted', { format: item.format ?? '', size: formatFileSize(item.textFile.size) })}
+                      </p>
+                    )}
+                    {item.error && <p className="text-xs text-white/50">{item.error}</p>}
+                    {item.status === 'waiting' && (
+                      <p className="text-xs text-white/50">{t('upload.waitingHint')}</p>
+                    )}
+                    {item.status === 'processing' && item.stage && (
+                      <p className="text-xs text-white/50 capitalize">
+                        {item.stage}{item.progress !== undefined && ` · ${formatPercent(item.progress)}`}
+                      </p>
+                    )}
+                    {item.status === 'uploading' && (
+                      <div className="mt-1 h-1 bg-white/20 rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full bg-gradient-to-r from-amber-200 to-rose-200 rounded-full"
+                          animate={{ width: `${item.uploadProgress ?? 0}%` }}
+                          transition={{ ease: 'easeOut', duration: 0.2 }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${badge.className}`}>
+                    {t(badge.label)}
+                  </span>
+                  {item.status === 'failed' && item.textFile && (
+                    <button
+                      onClick={() => { void uploadItem(item.id, item.textFile!) }}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/70"
+                      aria-label={t('upload.retry', { filename: item.filename })}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </button>
+                  )}
+                  {isLocal && item.status !== 'processing' && (
+                    <button
+                      onClick={() => handleRemove(item.id)}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/50"
+                      aria-label={t(item.status === 'uploading' || item.status === 'waiting' ? 'upload.cancel' : 'upload.remove', { filename: item.filename })}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </motion.div>
+              )
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TextUploadComponent
@@ -0,0 +1,140 @@
+'use client'
+import { Plus, MessageSquare, Pencil, Trash2, Check, X } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useI18n } from '@/hooks/useI18n'
+import { DEFAULT_THREAD_TITLE, type ChatThread } from '@/utils/threads'
+
+interface ThreadSidebarProps {
+  threads: ChatThread[]
+  activeThreadId: string | null
+  onSelect: (threadId: string) => void
+  onCreate: () => void
+  onRename: (threadId: string, title: string) => void
+  onDelete: (threadId: string) => void
+}
+
+const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
+  threads,
+  activeThreadId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = React.useState('')
+  const { t, dir } = useI18n()
+
+  // Threads enter from the start edge
+  const offscreenX = dir === 'rtl' ? 20 : -20
+
+  const sortedThreads = React.useMemo(
+    () => [...threads].sort((a, b) => b.updatedAt - a.updatedAt),
+    [threads]
+  )
+
+  // Untitled threads are stored under the English default name
+  const titleOf = (thread: ChatThread) =>
+    thread.title === DEFAULT_THREAD_TITLE ? t('threads.new') : thread.title
+
+  const startEditing = (thread: ChatThread) => {
+    setEditingId(thread.id)
+    setDraftTitle(thread.title === DEFAULT_THREAD_TITLE ? '' : thread.title)
+  }
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle)
+    setEditingId(null)
+  }
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(t('threads.confirmDelete', { title: titleOf(thread) }))) {
+      onDelete(thread.id)
+    }
+  }
+
+  return (
+    <aside className="flex flex-col h-full w-64 bg-white/5 backdrop-blur-lg border-e border-white/20">
+      <div className="p-4 border-b border-white/10">
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-sm font-medium px-4 py-2 rounded-2xl transition-all duration-200 shadow-lg shadow-purple-500/25"
+        >
+          <Plus className="h-4 w-4" /> {t('threads.new')}
+        </motion.button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        <AnimatePresence initial={false}>
+          {sortedThreads.map(thread => {
+            const isActive = thread.id === activeThreadId
+            const isEditing = thread.id === editingId
+
+            return (
+              <motion.div
+                key={thread.id}
+                layout
+                initial={{ opacity: 0, x: offscreenX }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: offscreenX }}
+                className={`group flex items-center gap-2 px-3 py-2 rounded-xl text-sm transition-all duration-200 ${
+                  isActive ? 'bg-white/20 text-white' : 'text-white/70 hover:bg-white/10 cursor-pointer'
+                }`}
+                onClick={() => !isEditing && onSelect(thread.id)}
+              >
+                <MessageSquare className="h-4 w-4 flex-shrink-0" />
+                {isEditing ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing()
+                        if (e.key === 'Escape') setEditingId(null)
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      placeholder={t('threads.new')}
+                      className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-2 py-0.5 text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+                    />
+                    <button onClick={(e) => { e.stopPropagation(); commitEditing() }} aria-label={t('threads.saveTitle')}>
+                      <Check className="h-4 w-4 text-green-400" />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); setEditingId(null) }} aria-label={t('threads.cancelRename')}>
+                      <X className="h-4 w-4 text-white/60" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 truncate">{titleOf(thread)}</span>
+                    <div className="hidden group-hover:flex items-center gap-1">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); startEditing(thread) }}
+                        className="p-1 rounded hover:bg-white/10"
+                        aria-label={t('threads.rename')}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(thread) }}
+                        className="p-1 rounded hover:bg-white/10 text-red-300"
+                        aria-label={t('threads.delete')}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </motion.div>
+            )
+          })}
+        </AnimatePresence>
+      </div>
+    </aside>
+  )
+}
+
+export default ThreadSidebar
@@ -0,0 +1,318 @@
+'use client'
+import { X, Volume2, Search, ChevronUp, ChevronDown, Loader2, AlertCircle } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useI18n } from '@/hooks/useI18n'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import { useTranscriptViewer } from '@/hooks/useTranscriptViewer'
+import api, { type AudioFileStatus } from '@/utils/api'
+import fileRegistry from '@/utils/fileRegistry'
+import { errorMessageKey, type MessageKey } from '@/utils/i18n'
+import pdfViewerStore from '@/utils/pdfViewerStore'
+import {
+  findActiveLine,
+  formatTimestamp,
+  getTranscriptLines,
+  isTimedTranscript,
+} from '@/utils/transcript'
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Wrap every occurrence of the query in a <mark>
+const highlightMatches = (text: string, query: string): React.ReactNode => {
+  if (!query) return text
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'))
+  return parts.map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="bg-yellow-300/80 text-slate-900 rounded px-0.5">{part}</mark>
+      : part
+  )
+}
+
+const TranscriptViewer: React.FC = () => {
+  const { target, closeTranscript } = useTranscriptViewer()
+  const { getStatus } = useProcessingStatus('audio')
+  const { dir, t } = useI18n()
+  const [audioUrl, setAudioUrl] = React.useState<string | null>(null)
+  const [audioError, setAudioError] = React.useState<MessageKey | null>(null)
+  const [isLoadingAudio, setIsLoadingAudio] = React.useState(false)
+  const [currentTime, setCurrentTime] = React.useState(0)
+  const [isPlaying, setIsPlaying] = React.useState(false)
+  const [query, setQuery] = React.useState('')
+  const [matchCursor, setMatchCursor] = React.useState(0)
+  const audioRef = React.useRef<HTMLAudioElement>(null)
+  const lineRefs = React.useRef<(HTMLButtonElement | null)[]>([])
+  // Seek requested by the current target, applied once the audio can play
+  const pendingSeekRef = React.useRef<number | undefined>(undefined)
+
+  const filename = target?.filename
+  const documentId = target?.documentId
+
+  const status = filename ? getStatus('audio', filename) as AudioFileStatus | undefined : undefined
+  const lines = React.useMemo(() => getTranscriptLines(status), [status])
+  const isTimed = isTimedTranscript(lines)
+  const activeIndex = isTimed ? findActiveLine(lines, currentTime) : -1
+
+  const trimmedQuery = query.trim()
+  const matchingIndexes = React.useMemo(() => {
+    if (!trimmedQuery) return []
+    const needle = trimmedQuery.toLowerCase()
+    return lines.flatMap((line, index) =>
+      line.text.toLowerCase().includes(needle) || line.speaker?.toLowerCase().includes(needle) ? [index] : []
+    )
+  }, [lines, trimmedQuery])
+
+  // Load the audio from this tab's uploads when possible, otherwise download it
+  React.useEffect(() => {
+    if (!filename) return
+
+    let cancelled = false
+    let objectUrl: string | null = null
+    setAudioUrl(null)
+    setAudioError(null)
+    setCurrentTime(0)
+    setQuery('')
+
+    const load = async () => {
+      const localFile = fileRegistry.get('audio', filename)
+      if (localFile) {
+        objectUrl = URL.createObjectURL(localFile)
+        setAudioUrl(objectUrl)
+        return
+      }
+
+      setIsLoadingAudio(true)
+      try {
+        const blob = await api.downloadDocument('audio', documentId ?? filename)
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setAudioUrl(objectUrl)
+      } catch (err) {
+        console.error('❌ Failed to load audio:', err)
+        if (!cancelled) {
+          setAudioError(errorMessageKey(err, 'transcript.loadFailed'))
+        }
+      } finally {
+        if (!cancelled) setIsLoadingAudio(false)
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [filename, documentId])
+
+  // Seek whenever the viewer is (re)targeted at a time
+  React.useEffect(() => {
+    if (!target) return
+    // Both viewers use the same side panel slot
+    pdfViewerStore.close()
+    pendingSeekRef.current = target.startTime
+    const audio = audioRef.current
+    if (audio && target.startTime !== undefined && audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      audio.currentTime = target.startTime
+      void audio.play().catch(() => {})
+      pendingSeekRef.current = undefined
+    }
+  }, [target])
+
+  // Follow playback through the transcript
+  React.useEffect(() => {
+    if (!isPlaying || activeIndex < 0 || trimmedQuery) return
+    lineRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [activeIndex, isPlaying, trimmedQuery])
+
+  // Bring the current search match into view
+  React.useEffect(() => {
+    const index = matchingIndexes[matchCursor]
+    if (index !== undefined) lineRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [matchingIndexes, matchCursor])
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current
+    if (!audio || pendingSeekRef.current === undefined) return
+    audio.currentTime = pendingSeekRef.current
+    pendingSeekRef.current = undefined
+    void audio.play().catch(() => {})
+  }
+
+  const seekTo = (seconds: number | undefined) => {
+    const audio = audioRef.current
+    if (!audio || seconds === undefined) return
+    audio.currentTime = seconds
+    setCurrentTime(seconds)
+    void audio.play().catch(() => {})
+  }
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchingIndexes.length === 0) return
+    setMatchCursor(cursor => (cursor + direction + matchingIndexes.length) % matchingIndexes.length)
+  }
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      stepMatch(e.shiftKey ? -1 : 1)
+    } else if (e.key === 'Escape') {
+      setQuery('')
+    }
+  }
+
+  // Enter from the side the panel is pinned to
+  const offscreenX = dir === 'rtl' ? '-100%' : '100%'
+
+  return (
+    <AnimatePresence>
+      {target && (
+        <motion.aside
+          key="transcript-viewer"
+          initial={{ x: offscreenX }}
+          animate={{ x: 0 }}
+          exit={{ x: offscreenX }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          className="fixed inset-y-0 end-0 z-50 w-full md:w-[560px] flex flex-col bg-slate-900/95 backdrop-blur-lg border-s border-white/20 text-white shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+            <div className="flex items-center gap-2 min-w-0">
+              <Volume2 className="h-5 w-5 text-blue-300 flex-shrink-0" />
+              <h2 className="font-semibold truncate">{target.filename}</h2>
+            </div>
+            <button
+              onClick={closeTranscript}
+              className="p-2 rounded-xl text-white/60 hover:text-white hover:bg-white/10 transition-all duration-200"
+              aria-label={t('transcript.close')}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Player */}
+          <div className="p-4 border-b border-white/10">
+            {isLoadingAudio && (
+              <div className="flex items-center gap-2 text-sm text-white/60">
+                <Loader2 className="h-4 w-4 animate-spin" /> {t('transcript.loading')}
+              </div>
+            )}
+            {audioError && (
+              <div className="flex items-center gap-2 text-sm text-red-300">
+                <AlertCircle className="h-4 w-4" /> {t(audioError)}
+              </div>
+            )}
+            {audioUrl && (
+              <audio
+                ref={audioRef}
+                src={audioUrl}
+                controls
+                className="w-full"
+                onLoadedMetadata={handleLoadedMetadata}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onEnded={() => setIsPlaying(false)}
+              />
+            )}
+          </div>
+
+          {/* Search */}
+          {lines.length > 0 && (
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10 text-sm">
+              <Search className="h-4 w-4 text-white/50 flex-shrink-0" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value)
+                  setMatchCursor(0)
+                }}
+                onKeyDown={handleSearchKeyDown}
+                placeholder={t('transcript.search')}
+                className="flex-1 bg-transparent placeholder-white/40 focus:outline-none"
+                aria-label={t('transcript.search')}
+              />
+              {trimmedQuery && (
+                <>
+                  <span className="text-xs text-white/50 flex-shrink-0">
+                    {matchingIndexes.length === 0
+                      ? t('transcript.noMatches')
+                      : t('transcript.matchPosition', { current: matchCursor + 1, total: matchingIndexes.length })}
+                  </span>
+                  <button
+                    onClick={() => stepMatch(-1)}
+                    disabled={matchingIndexes.length === 0}
+                    className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                    aria-label={t('transcript.previousMatch')}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => stepMatch(1)}
+                    disabled={matchingIndexes.length === 0}
+                    className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-40"
+                    aria-label={t('transcript.nextMatch')}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Transcript */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-1">
+            {lines.length === 0 ? (
+              <p className="text-sm text-white/60 text-center mt-8">
+                {status?.status === 'processing'
+                  ? t('transcript.pending')
+                  : t('transcript.unavailable')}
+              </p>
+            ) : (
+              lines.map((line, index) => {
+                const isActive = index === activeIndex
+                const isCurrentMatch = matchingIndexes[matchCursor] === index
+                const canSeek = line.start !== undefined && !!audioUrl
+
+                return (
+                  <button
+                    key={index}
+                    ref={(el) => { lineRefs.current[index] = el }}
+                    type="button"
+                    onClick={() => seekTo(line.start)}
+                    disabled={!canSeek}
+                    className={`w-full text-start flex gap-3 px-3 py-2 rounded-xl text-sm transition-colors duration-200 disabled:cursor-text ${
+                      isActive
+                        ? 'bg-blue-500/25 border border-blue-400/40'
+                        : isCurrentMatch
+                          ? 'bg-white/10 border border-yellow-300/40'
+                          : 'border border-transparent hover:bg-white/5'
+                    }`}
+                  >
+                    {isTimed && (
+                      <span className={`font-mono text-xs pt-0.5 flex-shrink-0 ${isActive ? 'text-blue-200' : 'text-white/40'}`}>
+                        {line.start !== undefined ? formatTimestamp(line.start) : ''}
+                      </span>
+                    )}
+                    <span className="flex-1 leading-relaxed">
+                      {line.speaker && (
+                        <span className="font-semibold text-purple-200 me-1">
+                          {highlightMatches(line.speaker, trimmedQuery)}:
+                        </span>
+                      )}
+                      <span className={isActive ? 'text-white' : 'text-white/80'}>
+                        {highlightMatches(line.text, trimmedQuery)}
+                      </span>
+                    </span>
+                  </button>
+                )
+              })
+            )}
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  )
+}
+
+export default TranscriptViewer
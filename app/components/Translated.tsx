@@ -0,0 +1,17 @@
+'use client'
+import * as React from 'react'
+import { useI18n } from '@/hooks/useI18n'
+import type { MessageKey, MessageParams } from '@/utils/i18n'
+
+interface TranslatedProps {
+  id: MessageKey
+  params?: MessageParams
+}
+
+// A catalog message in the current language, for text rendered by server components
+const Translated: React.FC<TranslatedProps> = ({ id, params }) => {
+  const { t } = useI18n()
+  return <>{t(id, params)}</>
+}
+
+export default Translated
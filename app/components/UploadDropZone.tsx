@@ -0,0 +1,128 @@
+'use client'
+import { UploadCloud } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
+import { useAuthToast } from '@/hooks/useAuthToast'
+import { useI18n } from '@/hooks/useI18n'
+import type { DocumentType } from '@/utils/api'
+import { requestUpload } from '@/utils/documentEvents'
+import { TEXT_FORMAT_IDS, classifyFile } from '@/utils/documentFormats'
+
+interface UploadDropZoneProps {
+  children: React.ReactNode
+  className?: string
+}
+
+const hasFiles = (dataTransfer: DataTransfer | null) => !!dataTransfer && Array.from(dataTransfer.types).includes('Files')
+
+// Accepts files dropped on its area or pasted anywhere on the page, and hands
+// each one to the upload card for its type
+const UploadDropZone: React.FC<UploadDropZoneProps> = ({ children, className }) => {
+  const [isDragging, setIsDragging] = React.useState(false)
+  // dragenter/dragleave fire for every child element, so count them
+  const dragDepth = React.useRef(0)
+  const { showAuthToast, isSignedIn } = useAuthToast()
+  const { t, formatList } = useI18n()
+  const formatsLabel = React.useMemo(
+    () => formatList([t('formats.pdf'), t('formats.audio'), ...TEXT_FORMAT_IDS.map(format => t(`formats.${format}`))]),
+    [t, formatList]
+  )
+
+  const routeFiles = React.useCallback((files: File[]) => {
+    if (files.length === 0) return
+    if (!isSignedIn) {
+      showAuthToast('uploadFiles')
+      return
+    }
+
+    const byType = new Map<DocumentType, File[]>()
+    const unsupported: File[] = []
+    files.forEach(file => {
+      const type = classifyFile(file)
+      if (!type) {
+        unsupported.push(file)
+        return
+      }
+      byType.set(type, [...(byType.get(type) ?? []), file])
+    })
+
+    if (unsupported.length > 0) {
+      const names = formatList(unsupported.map(file => `"${file.name}"`))
+      console.log('🚫 Unsupported files dropped', names);
+      toast.error(t('dropZone.unsupported', { names }), {
+        description: t('dropZone.supportedFormats', { formats: formatsLabel }),
+      })
+    }
+    byType.forEach((typeFiles, type) => requestUpload({ type, files: typeFiles }))
+  }, [isSignedIn, showAuthToast, t, formatList, formatsLabel])
+
+  // Files pasted anywhere on the page; text pastes are left alone
+  React.useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? [])
+      if (files.length === 0) return
+      e.preventDefault()
+      routeFiles(files)
+    }
+    window.addEventListener('paste', handlePaste)
+    return () => window.removeEventListener('paste', handlePaste)
+  }, [routeFiles])
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e.dataTransfer)) return
+    e.preventDefault()
+    dragDepth.current += 1
+    setIsDragging(true)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e.dataTransfer)) return
+    // Required for the drop event to fire
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+  }
+
+  const handleDragLeave = () => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1)
+    if (dragDepth.current === 0) setIsDragging(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e.dataTransfer)) return
+    e.preventDefault()
+    dragDepth.current = 0
+    setIsDragging(false)
+    routeFiles(Array.from(e.dataTransfer.files))
+  }
+
+  return (
+    <div
+      className={`relative ${className ?? ''}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      <AnimatePresence>
+        {isDragging && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="pointer-events-none absolute inset-2 z-40 flex flex-col items-center justify-center gap-3 rounded-3xl
+              border-2 border-dashed border-white/60 bg-slate-900/80 backdrop-blur-md text-white text-center p-6"
+          >
+            <UploadCloud className="h-12 w-12" />
+            <p className="text-lg font-semibold">{t('dropZone.title')}</p>
+            <p className="text-sm text-white/60 max-w-xs">{formatsLabel}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default UploadDropZone
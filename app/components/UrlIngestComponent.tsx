@@ -0,0 +1,170 @@
+'use client'
+import { Link2, Loader2, CheckCircle, AlertCircle, X } from 'lucide-react'
+import * as React from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useAuthToast } from '@/hooks/useAuthToast'
+import { useI18n } from '@/hooks/useI18n'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import api, { CancelledError, type DocumentType } from '@/utils/api'
+import { notifyDocumentAdded } from '@/utils/documentEvents'
+import type { MessageKey } from '@/utils/i18n'
+
+type ImportStatus = 'fetching' | 'imported' | 'failed'
+
+interface LinkImport {
+  id: string
+  url: string
+  status: ImportStatus
+  type?: DocumentType
+  filename?: string
+  error?: string
+}
+
+const TYPE_LABELS: Record<DocumentType, MessageKey> = {
+  pdf: 'urlImport.type.pdf',
+  audio: 'urlImport.type.audio',
+  text: 'urlImport.type.text',
+}
+
+const createImportId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// Accept bare domains like "example.com/article" by assuming https
+const normalizeUrl = (input: string): string | null => {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+const UrlIngestComponent: React.FC = () => {
+  const [input, setInput] = React.useState('')
+  const [imports, setImports] = React.useState<LinkImport[]>([])
+  const abortControllers = React.useRef(new Map<string, AbortController>())
+  const { showAuthToast, isSignedIn } = useAuthToast()
+  const { t, describeError } = useI18n()
+  const { getStatus } = useProcessingStatus()
+
+  const updateImport = (id: string, patch: Partial<LinkImport>) => {
+    setImports(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item))
+  }
+
+  // Abort anything still fetching when the card unmounts
+  React.useEffect(() => {
+    const controllers = abortControllers.current
+    return () => controllers.forEach(controller => controller.abort())
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isSignedIn) {
+      showAuthToast('importLinks')
+      return
+    }
+    const url = normalizeUrl(input)
+    if (!url) {
+      setImports(prev => [{ id: createImportId(), url: input.trim(), status: 'failed', error: t('urlImport.invalid') }, ...prev])
+      return
+    }
+
+    const id = createImportId()
+    const controller = new AbortController()
+    abortControllers.current.set(id, controller)
+    setImports(prev => [{ id, url, status: 'fetching' }, ...prev.filter(item => item.url !== url)])
+    setInput('')
+
+    console.log('🔗 Importing link:', url);
+    try {
+      const result = await api.ingestUrl(url, { signal: controller.signal })
+      console.log('✅ Link imported, waiting for processing ⏳', result);
+      updateImport(id, { status: 'imported', type: result.type, filename: result.filename })
+      notifyDocumentAdded({ type: result.type, filename: result.filename })
+    } catch (err) {
+      if (err instanceof CancelledError) return
+      console.error('❌ Error importing link:', err)
+      updateImport(id, { status: 'failed', error: describeError(err, 'urlImport.failed') })
+    } finally {
+      abortControllers.current.delete(id)
+    }
+  }
+
+  const handleRemove = (id: string) => {
+    abortControllers.current.get(id)?.abort()
+    setImports(prev => prev.filter(item => item.id !== id))
+  }
+
+  const describeImport = (item: LinkImport): string | null => {
+    if (item.status === 'failed') return item.error ?? null
+    if (item.status === 'fetching') return t('urlImport.fetching')
+    if (!item.type || !item.filename) return null
+    const serverStatus = getStatus(item.type, item.filename)?.status ?? 'processing'
+    return t('urlImport.added', {
+      type: t(TYPE_LABELS[item.type]),
+      filename: item.filename,
+      status: t(`status.${serverStatus}`),
+    })
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white space-y-3">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-white/60 flex-shrink-0" />
+        <input
+          type="text"
+          inputMode="url"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={t('urlImport.placeholder')}
+          className="flex-1 min-w-0 bg-transparent text-sm placeholder-white/40 focus:outline-none"
+          aria-label={t('urlImport.label')}
+        />
+        <motion.button
+          type="submit"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          disabled={!input.trim()}
+          className="bg-white/20 hover:bg-white/30 disabled:opacity-40 text-sm px-3 py-1.5 rounded-full transition-all duration-200"
+        >
+          {t('urlImport.submit')}
+        </motion.button>
+      </form>
+
+      {imports.length > 0 && (
+        <ul className="space-y-2">
+          <AnimatePresence initial={false}>
+            {imports.map(item => (
+              <motion.li
+                key={item.id}
+                layout
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, height: 0 }}
+                className="flex items-start gap-2 text-sm"
+              >
+                {item.status === 'fetching' && <Loader2 className="h-4 w-4 mt-0.5 animate-spin text-white/70 flex-shrink-0" />}
+                {item.status === 'imported' && <CheckCircle className="h-4 w-4 mt-0.5 text-green-400 flex-shrink-0" />}
+                {item.status === 'failed' && <AlertCircle className="h-4 w-4 mt-0.5 text-red-400 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="truncate" title={item.url}>{item.url}</p>
+                  <p className="text-xs text-white/50 break-words">{describeImport(item)}</p>
+                </div>
+                <button
+                  onClick={() => handleRemove(item.id)}
+                  className="p-1 rounded-full hover:bg-white/10 text-white/50"
+                  aria-label={t(item.status === 'fetching' ? 'urlImport.cancel' : 'upload.remove', { filename: item.url })}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default UrlIngestComponent
@@ -1,21 +1,67 @@
 'use client'
-import { Send, User, Bot, Loader2, Paperclip, Mic } from 'lucide-react'
+import { Send, User, Bot, Loader2, Paperclip, Mic, PanelLeft, Sparkles, Square, RotateCcw, Clock } from 'lucide-react'
 import * as React from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAuthToast } from '@/hooks/useAuthToast'
-import sessionManager from '@/utils/session';
-interface Message {
-  role: 'user' | 'bot'
-  content: string
-}
+import { useThreads } from '@/hooks/useThreads'
+import { useDocumentSelection } from '@/hooks/useDocumentSelection'
+import { useDocumentReady } from '@/hooks/useDocumentReady'
+import { useI18n } from '@/hooks/useI18n'
+import { useOfflineQueue } from '@/hooks/useOfflineQueue'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import api, {
+  AuthError,
+  CancelledError,
+  NetworkError,
+  QuotaError,
+  TimeoutError,
+  ValidationError,
+  type ChatSource,
+  type DocumentStatus,
+  type FeedbackRating,
+} from '@/utils/api'
+import { summarizeDocument } from '@/utils/documentSummary'
+import offlineQueue, { isConnectionError, type QueueHandler, type QueuedChatMessage } from '@/utils/offlineQueue'
+import { createId, type ChatMessage } from '@/utils/threads'
+import CitationChips from './CitationChips'
+import ConversationExportMenu from './ConversationExportMenu'
+import MarkdownMessage from './MarkdownMessage'
+import MessageActions from './MessageActions'
+import ThreadSidebar from './ThreadSidebar'
+
+type Message = ChatMessage
 
 const ChatComponent: React.FC = () => {
-  const [messages, setMessages] = React.useState<Message[]>([])
+  const {
+    threads,
+    activeThread,
+    activeThreadId,
+    isHydrated,
+    selectThread,
+    createThread,
+    importThread,
+    renameThread,
+    deleteThread,
+    updateThreadMessages,
+  } = useThreads()
+  const messages = React.useMemo(() => activeThread?.messages ?? [], [activeThread])
+  const [isSidebarOpen, setIsSidebarOpen] = React.useState(true)
   const [input, setInput] = React.useState('')
-  const [isLoading, setIsLoading] = React.useState(false)
+  // Thread awaiting an answer, so the "Thinking..." bubble stays with it
+  const [pendingThreadId, setPendingThreadId] = React.useState<string | null>(null)
+  const isLoading = pendingThreadId !== null
+  // Aborts the pending answer when the user presses Stop
+  const chatAbortRef = React.useRef<AbortController | null>(null)
+  // User message being edited in place before it is resent
+  const [editingMessageId, setEditingMessageId] = React.useState<string | null>(null)
+  const [editDraft, setEditDraft] = React.useState('')
   const messagesEndRef = React.useRef<HTMLDivElement>(null)
   const inputRef = React.useRef<HTMLInputElement>(null)
   const { showAuthToast, isSignedIn } = useAuthToast()
+  const { selectedIds: selectedDocumentIds } = useDocumentSelection()
+  const isOnline = useOnlineStatus()
+  const { t, locale, dir, describeError } = useI18n()
+  const { items: queuedItems, queueChatMessage } = useOfflineQueue()
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -27,37 +73,236 @@ const ChatComponent: React.FC = () => {
     inputRef.current?.focus()
   }, [])
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return
-  if (!isSignedIn) {
-      showAuthToast('chat with documents')
-      return
+  // Don't leave an answer streaming into a chat that is gone
+  React.useEffect(() => () => chatAbortRef.current?.abort(), [])
+
+  const setQueued = (threadId: string, messageId: string, isQueued: boolean) => {
+    updateThreadMessages(threadId, prev => prev.map(m => m.id === messageId ? { ...m, isQueued: isQueued || undefined } : m))
+  }
+
+  // Stream the answer to a question already in the thread. Resolves false when the
+  // connection dropped before any of the answer arrived, so the question can be queued.
+  const streamAnswer = async (threadId: string, question: string, documentIds: string[]): Promise<boolean> => {
+    // Bind updates to the thread the question was asked in
+    const setMessages = (updater: (prev: Message[]) => Message[]) => updateThreadMessages(threadId, updater)
+    const botMessageId = createId()
+    let received = false
+    setPendingThreadId(threadId)
+    const controller = new AbortController()
+    chatAbortRef.current = controller
+
+    // Citations may arrive before the first token, so hold on to them here
+    let answerSources: ChatSource[] = []
+
+    // Append streamed text into the in-progress bot message, creating it on the first token
+    const appendToBotMessage = (token: string) => {
+      received = true
+      setMessages(prev => {
+        if (!prev.some(m => m.id === botMessageId)) {
+          return [...prev, { id: botMessageId, role: 'bot', content: token, sources: answerSources, isStreaming: true, createdAt: Date.now() }]
+        }
+        return prev.map(m => m.id === botMessageId ? { ...m, content: m.content + token } : m)
+      })
     }
-     const userMessage: Message = { role: 'user', content: input }
-    setMessages(prev => [...prev, userMessage])
-    setInput('')
-    setIsLoading(true)
-
-    try  {
-      const sessionId = sessionManager.getSessionId();
-      const response = await fetch(`${process.env.NEXT_PUBLIC_SERVER_URL}/chat?message=${encodeURIComponent(input)}`, {
-        method: 'GET',
-        headers: {
-          'x-session-id': sessionId
+
+    const attachSources = (sources: ChatSource[]) => {
+      answerSources = sources
+      setMessages(prev => prev.map(m => m.id === botMessageId ? { ...m, sources } : m))
+    }
+
+    try {
+      // No selection means the backend answers from every document in the session
+      const { message: answer } = await api.chat(
+        { message: question, threadId, documentIds, locale },
+        { onToken: appendToBotMessage, onSources: attachSources },
+        { signal: controller.signal }
+      )
+
+      setMessages(prev => {
+        if (!answer) {
+          const fallback: Message = { id: botMessageId, role: 'bot', content: t('chat.noAnswer') }
+          return [...prev.filter(m => m.id !== botMessageId), fallback]
         }
+        return prev.map(m => m.id === botMessageId ? { ...m, isStreaming: false } : m)
       })
-      const data = await response.json()
-      const botMessage: Message = { role: 'bot', content: data.message || 'Sorry, I could not generate a response.' }
-      setMessages(prev => [...prev, botMessage])
+      return true
     } catch (error) {
-      console.error('Error sending message:', error)
-      const errorMessage: Message = { role: 'bot', content: 'Sorry, something went wrong. Please try again.' }
-      setMessages(prev => [...prev, errorMessage])
+      const stopped = error instanceof CancelledError
+      if (!stopped && !received && isConnectionError(error)) {
+        console.warn('📡 Connection lost before the answer arrived:', error)
+        return false
+      }
+      if (stopped) {
+        console.log('⏹️ Answer stopped by user');
+      } else {
+        console.error('Error sending message:', error)
+      }
+      setMessages(prev => {
+        const partial = prev.find(m => m.id === botMessageId)
+        // Keep whatever already streamed in and flag the interruption
+        if (partial?.content) {
+          const note = stopped ? t('chat.stopped') : t('chat.interrupted')
+          return prev.map(m => m.id === botMessageId
+            ? { ...m, content: `${m.content}\n\n${note}`, isStreaming: false, isError: !stopped }
+            : m)
+        }
+        if (stopped) {
+          return [...prev, { id: botMessageId, role: 'bot', content: t('chat.stoppedBeforeAnswer'), isError: true }]
+        }
+        // These errors carry a message the user can act on
+        const isActionable = error instanceof AuthError || error instanceof QuotaError ||
+          error instanceof ValidationError || error instanceof TimeoutError
+        const content = isActionable ? describeError(error, 'chat.genericError') : t('chat.genericError')
+        const errorMessage: Message = { id: botMessageId, role: 'bot', content, isError: true }
+        return [...prev, errorMessage]
+      })
+      return true
     } finally {
-      setIsLoading(false)
+      if (chatAbortRef.current === controller) chatAbortRef.current = null
+      setPendingThreadId(null)
     }
   }
 
+  // `replaceFromId` resends from an earlier user message, dropping it and every later turn
+  const sendMessage = async (question: string, replaceFromId?: string) => {
+    if (!question.trim() || isLoading || !activeThreadId) return
+    if (!isSignedIn) {
+      showAuthToast('chat')
+      return
+    }
+    const threadId = activeThreadId
+    const documentIds = selectedDocumentIds
+    // Questions wait behind ones already queued, so they're answered in order
+    const queueFirst = !isOnline || queuedItems.some(item => item.kind === 'chat')
+    const userMessage: Message = { id: createId(), role: 'user', content: question, isQueued: queueFirst || undefined, createdAt: Date.now() }
+    updateThreadMessages(threadId, prev => {
+      const replaceIndex = replaceFromId ? prev.findIndex(m => m.id === replaceFromId) : -1
+      return [...(replaceIndex === -1 ? prev : prev.slice(0, replaceIndex)), userMessage]
+    })
+
+    if (queueFirst || !(await streamAnswer(threadId, question, documentIds))) {
+      console.log('📥 Question queued until the connection returns');
+      setQueued(threadId, userMessage.id, true)
+      await queueChatMessage({ threadId, messageId: userMessage.id, question, documentIds })
+    }
+  }
+
+  // Deliver a question queued while offline; thrown connection errors make the queue back off
+  const replayQueuedQuestion = async (item: QueuedChatMessage) => {
+    const thread = threads.find(t => t.id === item.threadId)
+    // The question was edited away or its thread deleted
+    if (!thread?.messages.some(m => m.id === item.messageId)) return
+    setQueued(item.threadId, item.messageId, false)
+    if (!(await streamAnswer(item.threadId, item.question, item.documentIds))) {
+      setQueued(item.threadId, item.messageId, true)
+      throw new NetworkError()
+    }
+  }
+
+  const handleQueuedQuestionFailed = (item: QueuedChatMessage) => {
+    setQueued(item.threadId, item.messageId, false)
+    updateThreadMessages(item.threadId, prev => prev.some(m => m.id === item.messageId)
+      ? [...prev, { id: createId(), role: 'bot', content: t('chat.queuedFailed'), isError: true }]
+      : prev)
+  }
+
+  // The queue keeps one handler, so route it to this render's functions
+  const queueHandlerRef = React.useRef<QueueHandler<QueuedChatMessage>>({
+    run: replayQueuedQuestion,
+    onFailed: handleQueuedQuestionFailed,
+  })
+  React.useEffect(() => {
+    queueHandlerRef.current = { run: replayQueuedQuestion, onFailed: handleQueuedQuestionFailed }
+  })
+
+  // Registered only once threads are loaded, so queued questions can be matched to them
+  React.useEffect(() => {
+    if (!isSignedIn || !isHydrated) return
+    return offlineQueue.registerHandler('chat', {
+      run: item => queueHandlerRef.current.run(item),
+      onFailed: (item, error) => queueHandlerRef.current.onFailed?.(item, error),
+    })
+  }, [isSignedIn, isHydrated])
+
+  const handleStop = () => {
+    chatAbortRef.current?.abort()
+  }
+
+  const handleSend = () => {
+    if (!input.trim() || isLoading) return
+    const question = input
+    setInput('')
+    void sendMessage(question)
+  }
+
+  // The user question a bot answer replied to
+  const findQuestionFor = (botMessageId: string): Message | undefined => {
+    const index = messages.findIndex(m => m.id === botMessageId)
+    return messages.slice(0, index).reverse().find(m => m.role === 'user')
+  }
+
+  const handleRegenerate = (botMessageId: string) => {
+    const question = findQuestionFor(botMessageId)
+    if (question) void sendMessage(question.content, question.id)
+  }
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id)
+    setEditDraft(message.content)
+  }
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingMessageId || !editDraft.trim() || isLoading) return
+    void sendMessage(editDraft, editingMessageId)
+    setEditingMessageId(null)
+  }
+
+  const handleFeedback = async (message: Message, rating: FeedbackRating, comment: string) => {
+    if (!activeThreadId) return
+    const threadId = activeThreadId
+    await api.sendFeedback({
+      messageId: message.id,
+      threadId,
+      rating,
+      comment: comment || undefined,
+      question: findQuestionFor(message.id)?.content ?? '',
+      answer: message.content,
+      sources: message.sources ?? [],
+    })
+    updateThreadMessages(threadId, prev => prev.map(m => m.id === message.id
+      ? { ...m, feedback: { rating, comment: comment || undefined } }
+      : m))
+  }
+
+  // Post a summary and suggested questions when an upload finishes processing
+  const handleDocumentReady = React.useCallback(async (doc: DocumentStatus) => {
+    if (!isSignedIn || !activeThreadId) return
+    const threadId = activeThreadId
+    const messageId = createId()
+    updateThreadMessages(threadId, prev => [...prev, {
+      id: messageId,
+      role: 'bot',
+      content: t('chat.summarizing', { filename: doc.filename }),
+      isStreaming: true,
+      createdAt: Date.now(),
+    }])
+
+    try {
+      const { summary, suggestedQuestions } = await summarizeDocument(doc, { locale })
+      if (!summary) throw new Error('Empty summary')
+      updateThreadMessages(threadId, prev => prev.map(m => m.id === messageId
+        ? { ...m, content: `${t('chat.documentReady', { filename: doc.filename })}\n\n${summary}`, suggestions: suggestedQuestions, isStreaming: false }
+        : m))
+    } catch (error) {
+      // The document is still usable; the summary is only a head start
+      console.warn('⚠️ Could not summarize document:', doc.filename, error)
+      updateThreadMessages(threadId, prev => prev.filter(m => m.id !== messageId))
+    }
+  }, [isSignedIn, activeThreadId, updateThreadMessages, t, locale])
+
+  useDocumentReady(handleDocumentReady)
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -69,171 +314,289 @@ const ChatComponent: React.FC = () => {
     <motion.div
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
-      className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-indigo-900 text-white"
+      className="flex h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-indigo-900 text-white"
     >
-      {/* Header */}
-      <motion.header
-        initial={{ y: -50 }}
-        animate={{ y: 0 }}
-        className="bg-white/10 backdrop-blur-lg border-b border-white/20 p-4 sm:p-6 flex items-center justify-between"
-      >
-        <div className="flex items-center space-x-3">
-          <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-2 rounded-2xl">
-            <Bot className="h-6 w-6 text-white" />
+      {/* Thread Sidebar */}
+      {isSidebarOpen && (
+        <ThreadSidebar
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelect={selectThread}
+          onCreate={createThread}
+          onRename={renameThread}
+          onDelete={deleteThread}
+        />
+      )}
+
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -50 }}
+          animate={{ y: 0 }}
+          className="bg-white/10 backdrop-blur-lg border-b border-white/20 p-4 sm:p-6 flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsSidebarOpen(open => !open)}
+              className="p-2 rounded-xl text-white/60 hover:text-white hover:bg-white/10 transition-all duration-200"
+              aria-label={isSidebarOpen ? t('chat.hideConversations') : t('chat.showConversations')}
+            >
+              <PanelLeft className="h-5 w-5" />
+            </button>
+            <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-2 rounded-2xl">
+              <Bot className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold tracking-wide">{t('chat.title')}</h1>
+              <p className="text-white/60 text-sm">{t('chat.subtitle')}</p>
+            </div>
           </div>
-          <div>
-            <h1 className="text-xl font-bold tracking-wide">AI Assistant</h1>
-            <p className="text-white/60 text-sm">Ask about your uploaded files</p>
+          <div className="flex items-center gap-2 text-white/40">
+            <ConversationExportMenu thread={activeThread} onImport={importThread} />
+            <Paperclip className="h-4 w-4" />
+            <Mic className="h-4 w-4" />
           </div>
-        </div>
-        <div className="flex items-center gap-2 text-white/40">
-          <Paperclip className="h-4 w-4" />
-          <Mic className="h-4 w-4" />
-        </div>
-      </motion.header>
-
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6 space-y-4 h-[60vh] sm:h-auto">
-        <AnimatePresence>
-          {messages.length === 0 && (
-            <motion.div
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="text-center text-gray-300 flex flex-col items-center justify-center h-full min-h-[400px] space-y-6"
-            >
-              <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-6 rounded-3xl">
-                <Bot className="h-16 w-16 text-white" />
-              </div>
-              <div className="space-y-2 max-w-md">
-                <h2 className="text-2xl font-bold bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
-                  Hello! I&apos;m your AI Assistant
-                </h2>
-                <p className="text-gray-400 text-sm sm:text-base">
-                  Upload PDFs or audio files, then ask me anything about their content
-                </p>
-              </div>
-              <div className="flex gap-4 text-xs text-gray-500">
-                <div className="flex items-center gap-1">
-                  <Paperclip className="h-3 w-3" />
-                  <span>PDF Support</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <Mic className="h-3 w-3" />
-                  <span>Audio Transcription</span>
+        </motion.header>
+
+        {/* Messages Area */}
+        <div className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6 space-y-4 h-[60vh] sm:h-auto">
+          <AnimatePresence>
+            {messages.length === 0 && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="text-center text-gray-300 flex flex-col items-center justify-center h-full min-h-[400px] space-y-6"
+              >
+                <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-6 rounded-3xl">
+                  <Bot className="h-16 w-16 text-white" />
                 </div>
-              </div>
-            </motion.div>
-          )}
-          {messages.map((msg, index) => (
-            <motion.div
-              key={index}
-              initial={{ opacity: 0, x: msg.role === 'user' ? 50 : -50 }}
-              animate={{ opacity: 1, x: 0 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: 0.3 }}
-              className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div className={`max-w-xs xs:max-w-sm sm:max-w-md md:max-w-2xl p-4 rounded-3xl shadow-lg backdrop-blur-sm ${
-                msg.role === 'user'
-                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 rounded-br-md'
-                  : 'bg-white/10 border border-white/20 rounded-bl-md'
-              }`}>
-                <div className="flex items-start space-x-3">
-                  {msg.role === 'bot' && (
-                    <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-1 rounded-full flex-shrink-0 mt-0.5">
-                      <Bot className="h-4 w-4 text-white" />
-                    </div>
-                  )}
-                  <p className="text-sm sm:text-base leading-relaxed whitespace-pre-wrap flex-1">
-                    {msg.content}
+                <div className="space-y-2 max-w-md">
+                  <h2 className="text-2xl font-bold bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+                    {t('chat.welcomeTitle')}
+                  </h2>
+                  <p className="text-gray-400 text-sm sm:text-base">
+                    {t('chat.welcomeBody')}
                   </p>
-                  {msg.role === 'user' && (
-                    <div className="bg-white/20 p-1 rounded-full flex-shrink-0">
-                      <User className="h-4 w-4 text-white" />
-                    </div>
-                  )}
                 </div>
-              </div>
-            </motion.div>
-          ))}
-          {isLoading && (
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="flex justify-start"
-            >
-              <div className="bg-white/10 backdrop-blur-sm border border-white/20 p-4 rounded-3xl rounded-bl-md max-w-xs xs:max-w-sm sm:max-w-md">
-                <div className="flex items-center space-x-3">
-                  <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-1 rounded-full">
-                    <Loader2 className="h-4 w-4 text-white animate-spin" />
+                <div className="flex gap-4 text-xs text-gray-500">
+                  <div className="flex items-center gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    <span>{t('chat.featurePdf')}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Mic className="h-3 w-3" />
+                    <span>{t('chat.featureAudio')}</span>
                   </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-purple-300 font-medium">Thinking...</p>
-                    <div className="flex space-x-1">
-                      <motion.div
-                        animate={{ scale: [1, 1.2, 1] }}
-                        transition={{ repeat: Infinity, duration: 1, delay: 0 }}
-                        className="w-1 h-1 bg-purple-400 rounded-full"
-                      />
-                      <motion.div
-                        animate={{ scale: [1, 1.2, 1] }}
-                        transition={{ repeat: Infinity, duration: 1, delay: 0.2 }}
-                        className="w-1 h-1 bg-purple-400 rounded-full"
-                      />
-                      <motion.div
-                        animate={{ scale: [1, 1.2, 1] }}
-                        transition={{ repeat: Infinity, duration: 1, delay: 0.4 }}
-                        className="w-1 h-1 bg-purple-400 rounded-full"
-                      />
+                </div>
+              </motion.div>
+            )}
+            {messages.map((msg) => (
+              <motion.div
+                key={msg.id}
+                initial={{ opacity: 0, x: (msg.role === 'user' ? 50 : -50) * (dir === 'rtl' ? -1 : 1) }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.3 }}
+                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div className={`max-w-xs xs:max-w-sm sm:max-w-md md:max-w-2xl p-4 rounded-3xl shadow-lg backdrop-blur-sm ${
+                  msg.role === 'user'
+                    ? 'bg-gradient-to-r from-indigo-500 to-purple-600 rounded-ee-md'
+                    : 'bg-white/10 border border-white/20 rounded-es-md'
+                }`}>
+                  <div className="flex items-start gap-3">
+                    {msg.role === 'bot' && (
+                      <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-1 rounded-full flex-shrink-0 mt-0.5">
+                        <Bot className="h-4 w-4 text-white" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      {msg.role === 'bot' ? (
+                        <MarkdownMessage content={msg.content} />
+                      ) : editingMessageId === msg.id ? (
+                        <form onSubmit={handleEditSubmit} className="space-y-2">
+                          <textarea
+                            value={editDraft}
+                            onChange={e => setEditDraft(e.target.value)}
+                            onKeyDown={e => {
+                              if (e.key === 'Escape') setEditingMessageId(null)
+                              if (e.key === 'Enter' && !e.shiftKey) handleEditSubmit(e)
+                            }}
+                            rows={3}
+                            autoFocus
+                            className="w-full min-w-[200px] sm:min-w-[320px] bg-white/10 border border-white/30 rounded-xl px-3 py-2 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-white/40 resize-none"
+                            aria-label={t('chat.editMessage')}
+                          />
+                          <p className="text-xs text-white/60">{t('chat.editWarning')}</p>
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditingMessageId(null)}
+                              className="text-xs px-3 py-1.5 rounded-full text-white/80 hover:bg-white/10 transition-all duration-200"
+                            >
+                              {t('common.cancel')}
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={!editDraft.trim() || isLoading}
+                              className="text-xs px-3 py-1.5 rounded-full bg-white/20 hover:bg-white/30 disabled:opacity-50 transition-all duration-200"
+                            >
+                              {t('chat.send')}
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <p className="text-sm sm:text-base leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+                      )}
+                      {msg.isQueued && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-white/70">
+                          <Clock className="h-3 w-3" />
+                          {t('chat.queued')}
+                        </p>
+                      )}
+                      {msg.isStreaming && (
+                        <span className="inline-block w-2 h-4 mt-1 bg-purple-300 animate-pulse" />
+                      )}
+                      {msg.role === 'bot' && !msg.isStreaming && msg.sources && msg.sources.length > 0 && (
+                        <CitationChips sources={msg.sources} />
+                      )}
+                      {msg.role === 'bot' && !msg.isStreaming && msg.suggestions && msg.suggestions.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {msg.suggestions.map(question => (
+                            <button
+                              key={question}
+                              type="button"
+                              onClick={() => { void sendMessage(question) }}
+                              disabled={isLoading}
+                              className="flex items-center gap-1.5 text-xs text-start px-3 py-1.5 rounded-full border border-purple-400/40 bg-purple-500/20 text-purple-100 hover:bg-purple-500/30 disabled:opacity-50 transition-all duration-200"
+                            >
+                              <Sparkles className="h-3 w-3 flex-shrink-0" />
+                              {question}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {msg.role === 'bot' && msg.isError && findQuestionFor(msg.id) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRegenerate(msg.id)}
+                          disabled={isLoading}
+                          className="mt-3 flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-all duration-200"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          {t('common.retry')}
+                        </button>
+                      )}
+                      {!msg.isStreaming && editingMessageId !== msg.id && (
+                        <MessageActions
+                          message={msg}
+                          disabled={isLoading}
+                          onEdit={msg.role === 'user' ? () => startEditing(msg) : undefined}
+                          onRegenerate={msg.role === 'bot' && !msg.isError && findQuestionFor(msg.id) ? () => handleRegenerate(msg.id) : undefined}
+                          onFeedback={msg.role === 'bot' ? (rating, comment) => handleFeedback(msg, rating, comment) : undefined}
+                        />
+                      )}
                     </div>
+                    {msg.role === 'user' && (
+                      <div className="bg-white/20 p-1 rounded-full flex-shrink-0">
+                        <User className="h-4 w-4 text-white" />
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            </motion.div>
-          )}
-        </AnimatePresence>
-        <div ref={messagesEndRef} />
-      </div>
+              </motion.div>
+            ))}
+            {pendingThreadId === activeThreadId && !messages.some(m => m.isStreaming) && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex justify-start"
+              >
+                <div className="bg-white/10 backdrop-blur-sm border border-white/20 p-4 rounded-3xl rounded-es-md max-w-xs xs:max-w-sm sm:max-w-md">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-1 rounded-full">
+                      <Loader2 className="h-4 w-4 text-white animate-spin" />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm text-purple-300 font-medium">{t('chat.thinking')}</p>
+                      <div className="flex gap-1">
+                        <motion.div
+                          animate={{ scale: [1, 1.2, 1] }}
+                          transition={{ repeat: Infinity, duration: 1, delay: 0 }}
+                          className="w-1 h-1 bg-purple-400 rounded-full"
+                        />
+                        <motion.div
+                          animate={{ scale: [1, 1.2, 1] }}
+                          transition={{ repeat: Infinity, duration: 1, delay: 0.2 }}
+                          className="w-1 h-1 bg-purple-400 rounded-full"
+                        />
+                        <motion.div
+                          animate={{ scale: [1, 1.2, 1] }}
+                          transition={{ repeat: Infinity, duration: 1, delay: 0.4 }}
+                          className="w-1 h-1 bg-purple-400 rounded-full"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input Area */}
-      <motion.footer
-        initial={{ y: 50 }}
-        animate={{ y: 0 }}
-        className="bg-white/10 backdrop-blur-lg border-t border-white/20 p-4 sm:p-6"
-      >
-        <div className="flex space-x-3 max-w-4xl mx-auto">
-          <div className="flex-1 relative">
-            <input
-              ref={inputRef}
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Ask about your documents..."
-              className="w-full bg-white/10 border border-white/20 rounded-2xl px-4 sm:px-6 py-3 sm:py-4 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent backdrop-blur-sm text-sm sm:text-base"
-              disabled={isLoading}
-            />
-          </div>
-          <motion.button
-            whileHover={{ scale: input.trim() && !isLoading ? 1.05 : 1 }}
-            whileTap={{ scale: input.trim() && !isLoading ? 0.95 : 1 }}
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white p-3 sm:p-4 rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center shadow-lg shadow-purple-500/25"
-          >
+        {/* Input Area */}
+        <motion.footer
+          initial={{ y: 50 }}
+          animate={{ y: 0 }}
+          className="bg-white/10 backdrop-blur-lg border-t border-white/20 p-4 sm:p-6"
+        >
+          <div className="flex gap-3 max-w-4xl mx-auto">
+            <div className="flex-1 relative">
+              <input
+                ref={inputRef}
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder={isLoading ? t('chat.placeholderPending') : t('chat.placeholder')}
+                className="w-full bg-white/10 border border-white/20 rounded-2xl px-4 sm:px-6 py-3 sm:py-4 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent backdrop-blur-sm text-sm sm:text-base"
+              />
+            </div>
             {isLoading ? (
-              <Loader2 className="h-5 w-5 animate-spin" />
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={handleStop}
+                className="bg-white/20 hover:bg-white/30 border border-white/30 text-white p-3 sm:p-4 rounded-2xl transition-all duration-200 flex items-center justify-center"
+                aria-label={t('chat.stop')}
+                title={t('chat.stop')}
+              >
+                <Square className="h-5 w-5 fill-current" />
+              </motion.button>
             ) : (
-              <Send className="h-5 w-5" />
+              <motion.button
+                whileHover={{ scale: input.trim() ? 1.05 : 1 }}
+                whileTap={{ scale: input.trim() ? 0.95 : 1 }}
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white p-3 sm:p-4 rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center shadow-lg shadow-purple-500/25"
+                aria-label={t('chat.send')}
+              >
+                <Send className="h-5 w-5" />
+              </motion.button>
             )}
-          </motion.button>
-        </div>
-        <div className="text-center mt-3">
-          <p className="text-white/40 text-xs">
-            Press Enter to send • Shift + Enter for new line
-          </p>
-        </div>
-      </motion.footer>
+          </div>
+          <div className="text-center mt-3">
+            <p className="text-white/40 text-xs">
+              {isLoading ? t('chat.hintPending') : t('chat.hint')}
+              {selectedDocumentIds.length > 0 && (
+                <> • {t('chat.answeringFromSelection', { count: selectedDocumentIds.length })}</>
+              )}
+            </p>
+          </div>
+        </motion.footer>
+      </div>
     </motion.div>
   )
 }
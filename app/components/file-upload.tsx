@@ -1,269 +1,511 @@
 'use client'
-import { Upload, CheckCircle, XCircle, Loader2, FileText } from 'lucide-react'
+import { Upload, CheckCircle, XCircle, Loader2, FileText, RotateCw, Clock, X, Eye, AlertTriangle, Ban, WifiOff } from 'lucide-react'
 import * as React from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAuthToast } from '@/hooks/useAuthToast'
-import sessionManager from '@/utils/session';
+import { useI18n } from '@/hooks/useI18n'
+import { usePdfViewer } from '@/hooks/usePdfViewer'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import api, { CancelledError, type PdfFileStatus } from '@/utils/api'
+import {
+  DOCUMENT_DELETED_EVENT,
+  QUEUED_UPLOAD_SETTLED_EVENT,
+  UPLOAD_REQUESTED_EVENT,
+  notifyDocumentAdded,
+  type DocumentDeletedDetail,
+  type QueuedUploadSettledDetail,
+  type UploadRequestedDetail,
+} from '@/utils/documentEvents'
+import fileRegistry from '@/utils/fileRegistry'
+import type { MessageKey } from '@/utils/i18n'
+import offlineQueue, { isConnectionError } from '@/utils/offlineQueue'
+import {
+  hasBlockingIssue,
+  inspectPdf,
+  type PdfInspection,
+  type PreflightIssue,
+} from '@/utils/pdfPreflight'
 
-interface PdfFileStatus {
+// Files are inspected before they're queued; "rejected" ones never upload.
+// "waiting" ones are in the offline queue until the connection returns.
+type QueueItemStatus = 'inspecting' | 'rejected' | 'queued' | 'waiting' | 'uploading' | PdfFileStatus['status']
+
+interface QueueItem {
+  id: string
   filename: string
-  status: 'processing' | 'ready' | 'failed'
+  // Only present for files picked in this browser, needed to retry
+  file?: File
+  status: QueueItemStatus
+  error?: string
+  // ID in the offline queue while waiting for the connection
+  offlineQueueId?: string
+  processingStartedAt?: number
+  // Bytes sent so far, 0-100
+  uploadProgress?: number
+  progress?: number
+  stage?: string
+  // Pre-flight results for files picked in this browser
+  inspection?: PdfInspection
+}
+
+interface FileUploadComponentProps {
+  // How many PDFs upload at the same time
+  concurrency?: number
+}
+
+const DEFAULT_CONCURRENCY = Number(process.env.NEXT_PUBLIC_PDF_UPLOAD_CONCURRENCY) || 2
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000
+
+const STATUS_BADGES: Record<QueueItemStatus, { label: MessageKey; className: string }> = {
+  inspecting: { label: 'status.checking', className: 'bg-white/10 text-white/70' },
+  rejected: { label: 'status.rejected', className: 'bg-red-500/20 text-red-300' },
+  queued: { label: 'status.queued', className: 'bg-white/10 text-white/70' },
+  waiting: { label: 'status.offline', className: 'bg-amber-500/20 text-amber-200' },
+  uploading: { label: 'status.uploading', className: 'bg-blue-500/20 text-blue-200' },
+  processing: { label: 'status.processing', className: 'bg-yellow-500/20 text-yellow-200' },
+  ready: { label: 'status.ready', className: 'bg-green-500/20 text-green-300' },
+  failed: { label: 'status.failed', className: 'bg-red-500/20 text-red-300' },
+}
+
+const createQueueId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+const describeProgress = (item: QueueItem, formatPercent: (percent: number) => string): string | null => {
+  if (item.status !== 'processing') return null
+  const parts = [item.stage, item.progress !== undefined ? formatPercent(item.progress) : null]
+  const text = parts.filter(Boolean).join(' · ')
+  return text || null
 }
 
-const FileUploadComponent: React.FC = () => {
-  const [uploadedFile, setUploadedFile] = React.useState<File | null>(null)
-  const [isUploading, setIsUploading] = React.useState(false)
-  const [isUploaded, setIsUploaded] = React.useState(false)
-  const [isProcessing, setIsProcessing] = React.useState(false)
+const FileUploadComponent: React.FC<FileUploadComponentProps> = ({ concurrency = DEFAULT_CONCURRENCY }) => {
+  const [items, setItems] = React.useState<QueueItem[]>([])
+  // In-flight uploads by queue item ID, so they can be cancelled
+  const abortControllers = React.useRef(new Map<string, AbortController>())
   const { showAuthToast, isSignedIn } = useAuthToast()
-  
-  // Get or create session ID
-  
-
-  const sessionId = sessionManager.getSessionId();
-
-  // Poll backend for PDF processing status - FIXED: Accept filename as parameter
-  async function waitUntilProcessed(filename: string) {
-    return new Promise<void>((resolve, reject) => {
-      const interval = setInterval(async () => {
-        try {
-          console.log('🔄 Polling PDF status for session:', sessionId);
-          console.log('🔍 Looking for filename:', filename); // Use the parameter
-          
-          const res = await fetch(
-            `${process.env.NEXT_PUBLIC_SERVER_URL}/pdf/status?sessionId=${encodeURIComponent(sessionId)}`
-          );
-          
-          if (!res.ok) {
-            throw new Error(`HTTP error! status: ${res.status}`);
-          }
-          
-          const data = await res.json();
-          const files: PdfFileStatus[] = data.files || [];
-          
-          console.log('📊 Full status response:', data);
-          console.log('📁 All files in session:', files);
-
-          // FIXED: Use the filename parameter instead of uploadedFile?.name
-          const currentFile = files.find(f => f.filename === filename);
-
-          console.log('✅ Found file:', currentFile);
-
-          if (!currentFile) {
-            console.log('❌ PDF file not found in status response. Available files:', files.map(f => f.filename));
-            return; // Continue polling
-          }
-
-          console.log('📋 Current file status:', currentFile.status);
-
-          if (currentFile.status === 'ready') {
-            console.log('🎉 PDF processing completed!');
-            clearInterval(interval);
-            setIsProcessing(false);
-            setIsUploaded(true);
-            resolve();
-          } else if (currentFile.status === 'failed') {
-            console.log('💥 PDF processing failed');
-            clearInterval(interval);
-            setIsProcessing(false);
-            setIsUploaded(false);
-            reject(new Error('PDF processing failed'));
-          } else {
-            console.log('⏳ PDF still processing...');
-          }
-        } catch (err) {
-          console.error('❌ PDF status poll error', err);
-          // Don't clear interval on temporary errors, keep polling
+  const { t, formatFileSize, formatPercent, describeError } = useI18n()
+  const { documents: pdfDocuments } = useProcessingStatus('pdf')
+  const { openPdf } = usePdfViewer()
+
+  const updateItem = React.useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item))
+  }, [])
+
+  // Hand the upload to the offline queue, which sends it once the connection returns
+  const queueOffline = React.useCallback(async (item: QueueItem, file: File) => {
+    console.log('📥 Offline, queueing upload for file:', item.filename);
+    const offlineQueueId = await offlineQueue.queueUpload('pdf', file)
+    updateItem(item.id, { status: 'waiting', offlineQueueId, error: undefined })
+  }, [updateItem])
+
+  const uploadItem = React.useCallback(async (item: QueueItem) => {
+    if (!item.file) return
+    if (!navigator.onLine) {
+      await queueOffline(item, item.file)
+      return
+    }
+
+    console.log('📤 Starting upload for file:', item.filename);
+    const controller = new AbortController()
+    abortControllers.current.set(item.id, controller)
+
+    try {
+      const result = await api.uploadPdf(item.file, {
+        signal: controller.signal,
+        onProgress: ({ percent }) => updateItem(item.id, { uploadProgress: percent }),
+      })
+      console.log('✅ Upload successful, waiting for processing ⏳', item.filename);
+      updateItem(item.id, { status: 'processing', processingStartedAt: Date.now() })
+      notifyDocumentAdded({ type: 'pdf', filename: result.filename ?? item.filename })
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        console.log('🛑 Upload cancelled', item.filename);
+        return
+      }
+      if (isConnectionError(err)) {
+        await queueOffline(item, item.file)
+        return
+      }
+      console.error('❌ Error uploading file:', err)
+      updateItem(item.id, { status: 'failed', error: describeError(err, 'upload.failed') })
+    } finally {
+      abortControllers.current.delete(item.id)
+    }
+  }, [updateItem, queueOffline, describeError])
+
+  // Abort anything still uploading when the card unmounts
+  React.useEffect(() => {
+    const controllers = abortControllers.current
+    return () => controllers.forEach(controller => controller.abort())
+  }, [])
+
+  // Start queued uploads while there is free capacity
+  React.useEffect(() => {
+    const inFlight = items.filter(item => item.status === 'uploading').length
+    const available = Math.max(0, concurrency - inFlight)
+    if (available === 0) return
+
+    const toStart = items.filter(item => item.status === 'queued' && item.file).slice(0, available)
+    if (toStart.length === 0) return
+
+    const startIds = new Set(toStart.map(item => item.id))
+    setItems(prev => prev.map(item => startIds.has(item.id) ? { ...item, status: 'uploading', error: undefined, uploadProgress: 0 } : item))
+    toStart.forEach(item => { void uploadItem(item) })
+  }, [items, concurrency, uploadItem])
+
+  // Follow server-side processing of the files uploaded from this card
+  React.useEffect(() => {
+    setItems(prev => {
+      let changed = false
+      const next = prev.map(item => {
+        if (item.status !== 'processing') return item
+        const serverFile = pdfDocuments.find(doc => doc.filename === item.filename)
+
+        if (serverFile?.status === 'ready') {
+          console.log('🎉 PDF processing completed!', item.filename);
+          changed = true
+          return { ...item, status: 'ready' as const }
         }
-      }, 2000); // Check every 2 seconds
-
-      // Timeout after 5 minutes
-      setTimeout(() => {
-        console.log('⏰ PDF processing timeout');
-        clearInterval(interval);
-        setIsProcessing(false);
-        setIsUploaded(false);
-        reject(new Error('PDF processing timeout'));
-      }, 5 * 60 * 1000);
-    });
-  }
+        if (serverFile?.status === 'failed') {
+          console.log('💥 PDF processing failed', item.filename);
+          changed = true
+          return { ...item, status: 'failed' as const, error: t('upload.processingFailed') }
+        }
+        return item
+      })
+      return changed ? next : prev
+    })
+  }, [pdfDocuments, t])
+
+  // Fail files whose processing never finishes
+  React.useEffect(() => {
+    const deadlines = items
+      .filter(item => item.status === 'processing' && item.processingStartedAt)
+      .map(item => item.processingStartedAt! + PROCESSING_TIMEOUT_MS)
+    if (deadlines.length === 0) return
+
+    const timer = setTimeout(() => {
+      const now = Date.now()
+      setItems(prev => prev.map(item => {
+        if (item.status === 'processing' && item.processingStartedAt && now - item.processingStartedAt >= PROCESSING_TIMEOUT_MS) {
+          console.log('⏰ PDF processing timeout', item.filename);
+          return { ...item, status: 'failed' as const, error: t('upload.processingTimedOut') }
+        }
+        return item
+      }))
+    }, Math.max(0, Math.min(...deadlines) - Date.now()))
+    return () => clearTimeout(timer)
+  }, [items, t])
+
+  // Drop files removed from the index through the document library
+  React.useEffect(() => {
+    const handleDeleted = (event: Event) => {
+      const { type, filename } = (event as CustomEvent<DocumentDeletedDetail>).detail
+      if (type !== 'pdf') return
+      setItems(prev => prev.filter(item => item.filename !== filename))
+    }
+    window.addEventListener(DOCUMENT_DELETED_EVENT, handleDeleted)
+    return () => window.removeEventListener(DOCUMENT_DELETED_EVENT, handleDeleted)
+  }, [])
+
+  // Pick up uploads the offline queue sent (or gave up on) after reconnecting
+  React.useEffect(() => {
+    const handleSettled = (event: Event) => {
+      const { queueId, error } = (event as CustomEvent<QueuedUploadSettledDetail>).detail
+      setItems(prev => prev.map(item => {
+        if (item.offlineQueueId !== queueId) return item
+        return error
+          ? { ...item, status: 'failed' as const, offlineQueueId: undefined, error: describeError(error, 'upload.failed') }
+          : { ...item, status: 'processing' as const, offlineQueueId: undefined, processingStartedAt: Date.now() }
+      }))
+    }
+    window.addEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled)
+    return () => window.removeEventListener(QUEUED_UPLOAD_SETTLED_EVENT, handleSettled)
+  }, [describeError])
+
+  // Check a picked file before it's queued, so unusable PDFs never reach the server
+  const inspectItem = React.useCallback(async (item: QueueItem) => {
+    if (!item.file) return
+    let inspection: PdfInspection
+    try {
+      inspection = await inspectPdf(item.file)
+    } catch (err) {
+      // pdf.js failed to load; let the server be the judge
+      console.warn('⚠️ Skipping PDF pre-flight check:', err)
+      inspection = { sizeBytes: item.file.size, encrypted: false, issues: [] }
+    }
+
+    if (hasBlockingIssue(inspection)) {
+      console.log('🚫 PDF rejected before upload', item.filename, inspection.issues);
+      updateItem(item.id, { status: 'rejected', inspection })
+      return
+    }
+
+    // Keep the picked file around so the viewer can open it without a download
+    fileRegistry.register('pdf', item.file)
+    updateItem(item.id, { status: 'queued', inspection })
+  }, [updateItem])
+
+  const enqueueFiles = React.useCallback((files: File[]) => {
+    const newItems: QueueItem[] = files.map(file => ({
+      id: createQueueId(),
+      filename: file.name,
+      file,
+      status: 'inspecting',
+    }))
+
+    setItems(prev => {
+      // Re-picking a file with the same name replaces its old entry
+      const names = new Set(newItems.map(item => item.filename))
+      return [...prev.filter(item => !names.has(item.filename)), ...newItems]
+    })
+    newItems.forEach(item => { void inspectItem(item) })
+  }, [inspectItem])
+
+  // Take PDFs dropped or pasted onto the page
+  React.useEffect(() => {
+    const handleUploadRequested = (event: Event) => {
+      const { type, files } = (event as CustomEvent<UploadRequestedDetail>).detail
+      if (type === 'pdf' && files.length > 0) enqueueFiles(files)
+    }
+    window.addEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested)
+    return () => window.removeEventListener(UPLOAD_REQUESTED_EVENT, handleUploadRequested)
+  }, [enqueueFiles])
 
   const handleFileUploadButtonClick = () => {
     if (!isSignedIn) {
-      showAuthToast('upload PDF files')
+      showAuthToast('uploadPdf')
       return
     }
     const el = document.createElement('input')
     el.setAttribute('type', 'file')
     el.setAttribute('accept', 'application/pdf')
+    el.multiple = true
 
-    el.addEventListener('change', async () => {
+    el.addEventListener('change', () => {
       if (el.files && el.files.length > 0) {
-        const file = el.files.item(0)
-        if (file) {
-          console.log('📤 Starting upload for file:', file.name);
-          console.log('📝 File details:', {
-            name: file.name,
-            size: file.size,
-            type: file.type
-          });
-          
-          setIsUploading(true)
-          setIsUploaded(false)
-          setIsProcessing(false)
-          const formData = new FormData()
-          formData.append('pdf', file)
-
-          try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_SERVER_URL}/upload/pdf`, {
-              method: 'POST',
-              body: formData,
-              headers: {
-                'x-session-id': sessionId
-              }
-            })
-
-            if (res.ok) {
-              const result = await res.json();
-              console.log('✅ Upload successful, server response:', result);
-              setUploadedFile(file)
-              setIsUploading(false)
-              setIsProcessing(true)
-              
-              console.log('PDF uploaded, waiting for processing ⏳')
-              
-              // FIXED: Pass the filename directly to waitUntilProcessed
-              await waitUntilProcessed(file.name)
-              
-              console.log('PDF processed successfully ✅')
-            } else {
-              const errorText = await res.text();
-              console.error('❌ Upload failed with status:', res.status, 'Response:', errorText);
-              setIsUploading(false)
-            }
-          } catch (err) {
-            console.error('❌ Error uploading file:', err)
-            setIsUploading(false)
-          }
-        }
+        enqueueFiles(Array.from(el.files))
       }
     })
 
     el.click()
   }
 
-  const handleRemoveFile = () => {
-    setUploadedFile(null)
-    setIsUploaded(false)
-    setIsProcessing(false)
+  const handleRetry = (id: string) => {
+    updateItem(id, { status: 'queued', error: undefined, processingStartedAt: undefined })
+  }
+
+  const handleRemoveFile = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  const handleCancel = (id: string) => {
+    abortControllers.current.get(id)?.abort()
+    const offlineQueueId = items.find(item => item.id === id)?.offlineQueueId
+    if (offlineQueueId) void offlineQueue.remove(offlineQueueId)
+    handleRemoveFile(id)
+  }
+
+  // Local queue entries enriched with live progress, plus session files uploaded elsewhere
+  const listItems = React.useMemo<QueueItem[]>(() => {
+    const local = items.map(item => {
+      const serverFile = pdfDocuments.find(doc => doc.filename === item.filename)
+      return item.status === 'processing' && serverFile
+        ? { ...item, progress: serverFile.progress, stage: serverFile.stage }
+        : item
+    })
+    const known = new Set(items.map(item => item.filename))
+    const serverOnly: QueueItem[] = pdfDocuments
+      .filter(doc => !known.has(doc.filename))
+      .map(doc => ({
+        id: `server-${doc.filename}`,
+        filename: doc.filename,
+        status: doc.status,
+        progress: doc.progress,
+        stage: doc.stage,
+      }))
+    return [...local, ...serverOnly]
+  }, [items, pdfDocuments])
+
+  // Pre-flight results in the user's language
+  const describeInspection = (inspection: PdfInspection): string => {
+    const parts = [
+      inspection.pageCount !== undefined ? t('pdf.pages', { count: inspection.pageCount }) : null,
+      formatFileSize(inspection.sizeBytes),
+      inspection.hasTextLayer === true ? t('pdf.text') : inspection.hasTextLayer === false ? t('pdf.scanned') : null,
+    ]
+    return parts.filter(Boolean).join(' · ')
   }
 
+  const describeIssue = (issue: PreflightIssue): string => t(`preflight.${issue.code}`, {
+    size: formatFileSize(issue.params?.sizeBytes ?? 0),
+    limit: formatFileSize(issue.params?.limitBytes ?? 0),
+    count: issue.params?.pageCount ?? 0,
+  })
+
+  const inspectingCount = items.filter(item => item.status === 'inspecting').length
+  const waitingCount = items.filter(item => item.status === 'waiting').length
+  const activeCount = items.filter(item => item.status === 'queued' || item.status === 'uploading').length
+  const processingCount = listItems.filter(item => item.status === 'processing').length
+
   return (
-    <motion.div
-      whileHover={{ scale: !isUploaded && !isUploading && !isProcessing ? 1.02 : 1 }}
-      whileTap={{ scale: !isUploaded && !isUploading && !isProcessing ? 0.98 : 1 }}
-      className={`relative bg-gradient-to-br from-indigo-600 via-purple-600 to-pink-500 text-white shadow-2xl shadow-purple-500/20 
-        flex justify-center items-center p-6 rounded-3xl border-2 border-white/20 transition-all duration-300 
-        backdrop-blur-sm hover:shadow-purple-500/30 ${
-        isUploaded || isUploading || isProcessing ? 'cursor-default' : 'cursor-pointer hover:bg-gradient-to-br hover:from-indigo-700 hover:via-purple-700 hover:to-pink-600'
-      }`}
-      onClick={!isUploaded && !isUploading && !isProcessing ? handleFileUploadButtonClick : undefined}
-    >
-      {/* File Upload Idle State */}
-      {!isUploaded && !isUploading && !isProcessing && (
+    <div className="flex flex-col gap-3">
+      <motion.div
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        className="relative bg-gradient-to-br from-indigo-600 via-purple-600 to-pink-500 text-white shadow-2xl shadow-purple-500/20
+          flex justify-center items-center p-6 rounded-3xl border-2 border-white/20 transition-all duration-300
+          backdrop-blur-sm hover:shadow-purple-500/30 cursor-pointer hover:bg-gradient-to-br hover:from-indigo-700 hover:via-purple-700 hover:to-pink-600"
+        onClick={handleFileUploadButtonClick}
+      >
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
           className="flex flex-col justify-center items-center space-y-4 text-center w-full"
         >
           <div className="bg-white/20 p-4 rounded-2xl backdrop-blur-sm">
-            <Upload className="h-8 w-8 sm:h-10 sm:w-10 text-white" />
+            {inspectingCount > 0 || activeCount > 0 || processingCount > 0 ? (
+              <Loader2 className="h-8 w-8 sm:h-10 sm:w-10 text-white animate-spin" />
+            ) : (
+              <Upload className="h-8 w-8 sm:h-10 sm:w-10 text-white" />
+            )}
           </div>
           <div className="space-y-2">
-            <h3 className="text-lg sm:text-xl font-bold tracking-wide">Upload PDF</h3>
+            <h3 className="text-lg sm:text-xl font-bold tracking-wide">{t('upload.pdf.title')}</h3>
             <p className="text-white/70 text-sm sm:text-base max-w-xs">
-              Click to select a PDF document
+              {inspectingCount > 0
+                ? t('upload.checkingFiles', { count: inspectingCount })
+                : activeCount > 0
+                  ? t('upload.uploadingFiles', { count: activeCount })
+                  : processingCount > 0
+                    ? t('upload.processingFiles', { count: processingCount })
+                    : waitingCount > 0
+                      ? t('upload.waitingFiles', { count: waitingCount })
+                      : t('upload.pdf.hint')}
             </p>
           </div>
           <div className="flex items-center gap-2 text-xs text-white/50">
             <FileText className="h-3 w-3" />
-            <span>PDF files only</span>
+            <span>{t('upload.pdf.formats')}</span>
           </div>
         </motion.div>
-      )}
+      </motion.div>
 
-      {/* Uploading State */}
-      {isUploading && (
-        <motion.div
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          className="text-center text-white/90 space-y-4 w-full"
-        >
-          <div className="relative">
-            <div className="animate-spin border-4 border-white/30 border-t-white rounded-full h-12 w-12 mx-auto"></div>
-          </div>
-          <div className="space-y-1">
-            <p className="text-sm font-medium">Uploading PDF...</p>
-            <p className="text-xs text-white/60">Please wait</p>
-          </div>
-        </motion.div>
-      )}
+      {/* Per-file status list */}
+      {listItems.length > 0 && (
+        <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-2">
+          <AnimatePresence initial={false}>
+            {listItems.map(item => {
+              const badge = STATUS_BADGES[item.status]
+              const isPending = item.status === 'inspecting' || item.status === 'queued' || item.status === 'waiting' || item.status === 'uploading'
+              const isBusy = isPending || item.status === 'processing'
+              const progressText = describeProgress(item, formatPercent)
+              const warnings = item.inspection?.issues.filter(issue => issue.severity === 'warning') ?? []
+              const rejection = item.status === 'rejected'
+                ? item.inspection?.issues.find(issue => issue.severity === 'error')
+                : undefined
 
-      {/* Processing State */}
-      {isProcessing && !isUploaded && (
-        <motion.div
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          className="flex flex-col justify-center items-center space-y-4 text-center w-full"
-        >
-          <Loader2 className="h-12 w-12 animate-spin text-white" />
-          <div className="space-y-2">
-            <h3 className="text-lg font-semibold">Processing PDF</h3>
-            <p className="text-white/70 text-sm">Extracting text content...</p>
-          </div>
-          <div className="w-24 h-1 bg-white/20 rounded-full overflow-hidden">
-            <motion.div 
-              className="h-full bg-white rounded-full"
-              animate={{ x: [-50, 50] }}
-              transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
-            />
-          </div>
-        </motion.div>
+              return (
+                <motion.div
+                  key={item.id}
+                  layout
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="flex items-center gap-3 text-white text-sm"
+                >
+                  {item.status === 'ready' && <CheckCircle className="h-4 w-4 text-green-400 flex-shrink-0" />}
+                  {item.status === 'failed' && <XCircle className="h-4 w-4 text-red-400 flex-shrink-0" />}
+                  {item.status === 'rejected' && <Ban className="h-4 w-4 text-red-400 flex-shrink-0" />}
+                  {item.status === 'queued' && <Clock className="h-4 w-4 text-white/50 flex-shrink-0" />}
+                  {item.status === 'waiting' && <WifiOff className="h-4 w-4 text-amber-300 flex-shrink-0" />}
+                  {(item.status === 'inspecting' || item.status === 'uploading' || item.status === 'processing') && (
+                    <Loader2 className="h-4 w-4 animate-spin text-white/70 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate" title={item.inspection?.title}>{item.filename}</p>
+                    {item.inspection && (
+                      <p className="text-xs text-white/50">{describeInspection(item.inspection)}</p>
+                    )}
+                    {item.error && <p className="text-xs text-white/50">{item.error}</p>}
+                    {rejection && <p className="text-xs text-white/50">{describeIssue(rejection)}</p>}
+                    {item.status === 'waiting' && (
+                      <p className="text-xs text-white/50">{t('upload.waitingHint')}</p>
+                    )}
+                    {item.status !== 'rejected' && warnings.map(warning => (
+                      <p key={warning.code} className="flex items-start gap-1 text-xs text-amber-200/80">
+                        <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        <span>{describeIssue(warning)}</span>
+                      </p>
+                    ))}
+                    {progressText && <p className="text-xs text-white/50 capitalize">{progressText}</p>}
+                    {item.status === 'uploading' && (
+                      <div className="mt-1 flex items-center gap-2">
+                        <div className="flex-1 h-1 bg-white/20 rounded-full overflow-hidden">
+                          <motion.div
+                            className="h-full bg-gradient-to-r from-indigo-300 to-pink-300 rounded-full"
+                            animate={{ width: `${item.uploadProgress ?? 0}%` }}
+                            transition={{ ease: 'easeOut', duration: 0.2 }}
+                          />
+                        </div>
+                        <span className="text-xs text-white/50">{formatPercent(item.uploadProgress ?? 0)}</span>
+                      </div>
+                    )}
+                    {item.status === 'processing' && item.progress !== undefined && (
+                      <div className="mt-1 h-1 bg-white/20 rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full bg-white rounded-full"
+                          animate={{ width: `${item.progress}%` }}
+                          transition={{ ease: 'easeOut', duration: 0.3 }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${badge.className}`}>
+                    {t(badge.label)}
+                  </span>
+                  {item.status === 'ready' && (
+                    <button
+                      onClick={() => openPdf({ filename: item.filename })}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/70"
+                      aria-label={t('upload.view', { filename: item.filename })}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </button>
+                  )}
+                  {item.status === 'failed' && item.file && (
+                    <button
+                      onClick={() => handleRetry(item.id)}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/70"
+                      aria-label={t('upload.retry', { filename: item.filename })}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </button>
+                  )}
+                  {isPending && (
+                    <button
+                      onClick={() => handleCancel(item.id)}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/70"
+                      aria-label={t('upload.cancel', { filename: item.filename })}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!isBusy && item.file && (
+                    <button
+                      onClick={() => handleRemoveFile(item.id)}
+                      className="p-1 rounded-full hover:bg-white/10 text-white/50"
+                      aria-label={t('upload.remove', { filename: item.filename })}
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </button>
+                  )}
+                </motion.div>
+              )
+            })}
+          </AnimatePresence>
+        </div>
       )}
-
-      {/* Uploaded State */}
-      <AnimatePresence>
-        {isUploaded && uploadedFile && (
-          <motion.div
-            key="uploaded"
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            exit={{ opacity: 0 }}
-            className="flex flex-col justify-center items-center space-y-4 text-center w-full"
-          >
-            <div className="relative">
-              <CheckCircle className="h-12 w-12 text-green-400" />
-              <div className="absolute -top-1 -right-1 w-4 h-4 bg-green-400 rounded-full animate-ping"></div>
-            </div>
-            <div className="space-y-2">
-              <h3 className="text-lg font-semibold truncate max-w-[200px] sm:max-w-[250px]">
-                {uploadedFile.name}
-              </h3>
-              <p className="text-white/70 text-sm">Ready for chatting</p>
-            </div>
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={handleRemoveFile}
-              className="mt-2 bg-white/20 hover:bg-white/30 text-sm px-4 py-2 rounded-full flex items-center gap-2 transition-all duration-200 backdrop-blur-sm"
-            >
-              <XCircle className="h-4 w-4" /> Upload New
-            </motion.button>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </motion.div>
+    </div>
   )
 }
 
-export default FileUploadComponent
\ No newline at end of file
+export default FileUploadComponent
@@ -11,6 +11,10 @@ import {
   UserButton,
 } from '@clerk/nextjs'
 import { Toaster } from 'sonner'
+import AuthSync from './components/AuthSync'
+import LanguageSwitcher from './components/LanguageSwitcher'
+import LocaleSync from './components/LocaleSync'
+import Translated from './components/Translated'
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,7 +38,8 @@ export default function RootLayout({
 }>) {
   return (
     <ClerkProvider>
-      <html lang="en">
+      {/* LocaleSync switches lang and dir to the user's language once the page loads */}
+      <html lang="en" dir="ltr">
         <body
           className={`${geistSans.variable} ${geistMono.variable} antialiased bg-gradient-to-br from-slate-900 via-purple-900 to-indigo-900 min-h-screen`}
         >
@@ -44,7 +49,7 @@ export default function RootLayout({
               <div className="flex justify-between items-center h-16">
                 {/* Logo/Brand */}
                 <div className="flex items-center">
-                  <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-2 rounded-2xl mr-3">
+                  <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-2 rounded-2xl me-3">
                     <svg className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
@@ -56,22 +61,23 @@ export default function RootLayout({
 
                 {/* Auth Buttons */}
                 <div className="flex items-center gap-3">
+                  <LanguageSwitcher />
                   <SignedOut>
                     <SignInButton>
                       <button className="text-white/80 hover:text-white font-medium text-sm sm:text-base px-4 py-2 rounded-full hover:bg-white/10 transition-all duration-200 cursor-pointer">
-                        Sign In
+                        <Translated id="auth.signIn" />
                       </button>
                     </SignInButton>
                     <SignUpButton>
                       <button className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-6 rounded-full cursor-pointer transition-all duration-200 shadow-lg shadow-purple-500/25">
-                        Get Started
+                        <Translated id="header.getStarted" />
                       </button>
                     </SignUpButton>
                   </SignedOut>
                   <SignedIn>
                     <div className="flex items-center gap-4">
                       <span className="text-white/70 text-sm hidden sm:block">
-                        Welcome back!
+                        <Translated id="header.welcomeBack" />
                       </span>
                       <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-full p-1">
                         <UserButton 
@@ -105,16 +111,19 @@ export default function RootLayout({
                     </svg>
                   </div>
                   <span className="text-white font-semibold text-sm">
-                    AI Document Assistant
+                    <Translated id="app.name" />
                   </span>
                 </div>
                 <div className="text-white/60 text-xs sm:text-sm">
-                  © 2024 DocAI. All rights reserved.
+                  <Translated id="footer.copyright" params={{ year: '2024' }} />
                 </div>
               </div>
             </div>
           </footer>
 
+          <AuthSync />
+          <LocaleSync />
+
           {/* Toast Component */}
           <Toaster 
             position="top-center"
@@ -0,0 +1,235 @@
+'use client'
+import * as React from 'react'
+import type { MessageKey } from '@/utils/i18n'
+
+export type RecorderState = 'idle' | 'recording' | 'paused' | 'stopped'
+
+// Preferred container formats, best first; the browser picks the first it supports
+const MIME_TYPE_CANDIDATES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+}
+
+const TIMER_INTERVAL_MS = 250
+
+const pickMimeType = (): string | undefined =>
+  MIME_TYPE_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type))
+
+// Errors are message keys, so the recorder can show them in the user's language
+const describeMediaError = (err: unknown): MessageKey => {
+  const name = (err as DOMException)?.name
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'recorder.error.denied'
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'recorder.error.notFound'
+  }
+  if (name === 'NotReadableError') {
+    return 'recorder.error.inUse'
+  }
+  return 'recorder.error.failed'
+}
+
+const recordingFilename = (mimeType: string) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '')
+  const extension = FILE_EXTENSIONS[mimeType.split(';')[0]] ?? 'webm'
+  return `recording-${stamp}.${extension}`
+}
+
+export const useAudioRecorder = () => {
+  const [state, setState] = React.useState<RecorderState>('idle')
+  const [elapsedMs, setElapsedMs] = React.useState(0)
+  const [level, setLevel] = React.useState(0)
+  const [recording, setRecording] = React.useState<File | null>(null)
+  const [previewUrl, setPreviewUrl] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<MessageKey | null>(null)
+
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+  const streamRef = React.useRef<MediaStream | null>(null)
+  const audioContextRef = React.useRef<AudioContext | null>(null)
+  const animationFrameRef = React.useRef<number | null>(null)
+  const timerRef = React.useRef<ReturnType<typeof setInterval> | null>(null)
+  const chunksRef = React.useRef<Blob[]>([])
+  // Time recorded before the current running segment, and when that segment started
+  const accumulatedMsRef = React.useRef(0)
+  const segmentStartRef = React.useRef(0)
+  // Bumped by reset so a start() still waiting on the microphone knows it was abandoned
+  const attemptRef = React.useRef(0)
+
+  const isSupported = typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia
+
+  const stopTimer = React.useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    timerRef.current = null
+  }, [])
+
+  const startTimer = React.useCallback(() => {
+    stopTimer()
+    segmentStartRef.current = Date.now()
+    timerRef.current = setInterval(() => {
+      setElapsedMs(accumulatedMsRef.current + Date.now() - segmentStartRef.current)
+    }, TIMER_INTERVAL_MS)
+  }, [stopTimer])
+
+  const pauseTimer = React.useCallback(() => {
+    stopTimer()
+    accumulatedMsRef.current += Date.now() - segmentStartRef.current
+    setElapsedMs(accumulatedMsRef.current)
+  }, [stopTimer])
+
+  // Release the microphone and audio graph
+  const releaseInput = React.useCallback(() => {
+    if (animationFrameRef.current !== null) cancelAnimationFrame(animationFrameRef.current)
+    animationFrameRef.current = null
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    void audioContextRef.current?.close()
+    audioContextRef.current = null
+    setLevel(0)
+  }, [])
+
+  // Sample the input's RMS level every frame for the meter
+  const startLevelMeter = React.useCallback((stream: MediaStream) => {
+    const audioContext = new AudioContext()
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 512
+    audioContext.createMediaStreamSource(stream).connect(analyser)
+    audioContextRef.current = audioContext
+
+    const samples = new Uint8Array(analyser.fftSize)
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples)
+      let sumSquares = 0
+      for (const sample of samples) {
+        const normalized = (sample - 128) / 128
+        sumSquares += normalized * normalized
+      }
+      // Scale up so normal speech fills most of the meter
+      setLevel(Math.min(1, Math.sqrt(sumSquares / samples.length) * 3))
+      animationFrameRef.current = requestAnimationFrame(tick)
+    }
+    tick()
+  }, [])
+
+  const start = React.useCallback(async () => {
+    if (!isSupported) {
+      setError('recorder.error.unsupported')
+      return
+    }
+
+    setError(null)
+    const attempt = ++attemptRef.current
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      if (attempt !== attemptRef.current) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+      streamRef.current = stream
+
+      const mimeType = pickMimeType()
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+      recorderRef.current = recorder
+      chunksRef.current = []
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data)
+      }
+      recorder.onstop = () => {
+        const type = recorder.mimeType || mimeType || 'audio/webm'
+        const blob = new Blob(chunksRef.current, { type })
+        const file = new File([blob], recordingFilename(type), { type: type.split(';')[0] })
+        setRecording(file)
+        setPreviewUrl(URL.createObjectURL(file))
+        setState('stopped')
+        releaseInput()
+        console.log('🎙️ Recording finished:', file.name, `${Math.round(file.size / 1024)} KB`)
+      }
+
+      // Emit data every second so a long recording isn't held in one buffer
+      recorder.start(1000)
+      startLevelMeter(stream)
+      accumulatedMsRef.current = 0
+      setElapsedMs(0)
+      startTimer()
+      setState('recording')
+    } catch (err) {
+      console.error('❌ Could not start recording:', err)
+      releaseInput()
+      setError(describeMediaError(err))
+    }
+  }, [isSupported, releaseInput, startLevelMeter, startTimer])
+
+  const pause = React.useCallback(() => {
+    if (recorderRef.current?.state !== 'recording') return
+    recorderRef.current.pause()
+    pauseTimer()
+    setState('paused')
+  }, [pauseTimer])
+
+  const resume = React.useCallback(() => {
+    if (recorderRef.current?.state !== 'paused') return
+    recorderRef.current.resume()
+    startTimer()
+    setState('recording')
+  }, [startTimer])
+
+  const stop = React.useCallback(() => {
+    const recorder = recorderRef.current
+    if (!recorder || recorder.state === 'inactive') return
+    if (recorder.state === 'recording') pauseTimer()
+    recorder.stop()
+  }, [pauseTimer])
+
+  // Discard the current recording and return to idle
+  const reset = React.useCallback(() => {
+    attemptRef.current++
+    const recorder = recorderRef.current
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null
+      recorder.stop()
+    }
+    recorderRef.current = null
+    chunksRef.current = []
+    stopTimer()
+    releaseInput()
+    accumulatedMsRef.current = 0
+    setElapsedMs(0)
+    setRecording(null)
+    setState('idle')
+    setError(null)
+  }, [releaseInput, stopTimer])
+
+  // Revoke each preview URL once it's replaced or the recorder unmounts
+  React.useEffect(() => {
+    if (!previewUrl) return
+    return () => URL.revokeObjectURL(previewUrl)
+  }, [previewUrl])
+
+  React.useEffect(() => {
+    if (state === 'idle') setPreviewUrl(null)
+  }, [state])
+
+  // Never leave the microphone open after unmount
+  React.useEffect(() => reset, [reset])
+
+  return {
+    state,
+    elapsedMs,
+    level,
+    recording,
+    previewUrl,
+    error,
+    isSupported,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+  }
+}
@@ -1,17 +1,30 @@
 'use client'
 import { useAuth } from '@clerk/nextjs'
 import { toast } from 'sonner'
+import { useI18n } from '@/hooks/useI18n'
+
+// What the user tried to do, used to finish the "please sign in to..." sentence
+export type AuthAction =
+  | 'chat'
+  | 'uploadFiles'
+  | 'uploadPdf'
+  | 'uploadAudio'
+  | 'recordAudio'
+  | 'uploadDocuments'
+  | 'importLinks'
+  | 'deleteDocuments'
 
 export const useAuthToast = () => {
   const { isSignedIn } = useAuth()
+  const { t } = useI18n()
 
-  const checkAuth = (action: string): boolean => {
+  const checkAuth = (action: AuthAction): boolean => {
     if (!isSignedIn) {
-      toast.error('Authentication Required', {
-        description: `Please sign in to ${action}`,
+      toast.error(t('auth.requiredTitle'), {
+        description: t('auth.requiredBody', { action: t(`auth.action.${action}`) }),
         duration: 4000,
         action: {
-          label: 'Sign In',
+          label: t('auth.signIn'),
           onClick: () => {
             // This will trigger the sign-in flow
             const signInEvent = new Event('triggerSignIn');
@@ -24,12 +37,12 @@ export const useAuthToast = () => {
     return true
   }
 
-  const showAuthToast = (action: string) => {
-    toast.warning('Login Required', {
-      description: `Please login or sign up to ${action}`,
+  const showAuthToast = (action: AuthAction) => {
+    toast.warning(t('auth.loginTitle'), {
+      description: t('auth.loginBody', { action: t(`auth.action.${action}`) }),
       duration: 5000,
       action: {
-        label: 'Sign In',
+        label: t('auth.signIn'),
         onClick: () => {
           // This will trigger the sign-in flow
           const signInEvent = new Event('triggerSignIn');
@@ -40,4 +53,4 @@ export const useAuthToast = () => {
   }
 
   return { checkAuth, showAuthToast, isSignedIn }
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+'use client'
+import * as React from 'react'
+import { useProcessingStatus } from '@/hooks/useProcessingStatus'
+import type { DocumentStatus } from '@/utils/api'
+import { DOCUMENT_ADDED_EVENT, type DocumentAddedDetail } from '@/utils/documentEvents'
+
+const documentKey = (doc: { type: string; filename: string }) => `${doc.type}:${doc.filename}`
+
+// Calls `onReady` once for each document seen finishing processing while the page is open.
+// Documents added from this page count even when they are already ready the first time
+// they are listed; others that were ready when first listed don't.
+export const useDocumentReady = (onReady: (doc: DocumentStatus) => void) => {
+  const { documents } = useProcessingStatus()
+  const previousStatuses = React.useRef(new Map<string, DocumentStatus['status']>())
+  // Added from this page and not listed yet
+  const addedKeys = React.useRef(new Set<string>())
+  const onReadyRef = React.useRef(onReady)
+
+  React.useEffect(() => {
+    onReadyRef.current = onReady
+  }, [onReady])
+
+  React.useEffect(() => {
+    const handleAdded = (event: Event) => {
+      addedKeys.current.add(documentKey((event as CustomEvent<DocumentAddedDetail>).detail))
+    }
+    window.addEventListener(DOCUMENT_ADDED_EVENT, handleAdded)
+    return () => window.removeEventListener(DOCUMENT_ADDED_EVENT, handleAdded)
+  }, [])
+
+  React.useEffect(() => {
+    const previous = previousStatuses.current
+    const added = addedKeys.current
+    const next = new Map<string, DocumentStatus['status']>()
+
+    documents.forEach(doc => {
+      const key = documentKey(doc)
+      next.set(key, doc.status)
+      const finished = previous.get(key) === 'processing' || (added.has(key) && previous.get(key) !== 'ready')
+      added.delete(key)
+      if (finished && doc.status === 'ready') {
+        console.log('📄 Document ready:', doc.filename);
+        onReadyRef.current(doc)
+      }
+    })
+
+    previousStatuses.current = next
+  }, [documents])
+}
@@ -0,0 +1,21 @@
+'use client'
+import * as React from 'react'
+import documentSelection from '@/utils/documentSelection'
+
+const EMPTY_SELECTION: string[] = []
+
+export const useDocumentSelection = () => {
+  const selectedIds = React.useSyncExternalStore(
+    documentSelection.subscribe,
+    documentSelection.getSelectedIds,
+    () => EMPTY_SELECTION
+  )
+
+  return {
+    selectedIds,
+    toggle: documentSelection.toggle,
+    setSelectedIds: documentSelection.setSelectedIds,
+    remove: documentSelection.remove,
+    clear: documentSelection.clear,
+  }
+}
@@ -0,0 +1,34 @@
+'use client'
+import * as React from 'react'
+import localeStore, {
+  DEFAULT_LOCALE,
+  LOCALES,
+  errorMessageKey,
+  formatDateTime,
+  formatFileSize,
+  formatList,
+  formatNumber,
+  formatPercent,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from '@/utils/i18n'
+
+export const useI18n = () => {
+  const locale = React.useSyncExternalStore(localeStore.subscribe, localeStore.getLocale, () => DEFAULT_LOCALE)
+
+  // Stable per locale, so `t` can sit in hook dependency lists
+  return React.useMemo(() => ({
+    locale,
+    dir: LOCALES[locale].dir,
+    setLocale: localeStore.setLocale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+    formatPercent: (percent: number) => formatPercent(locale, percent),
+    formatFileSize: (bytes: number) => formatFileSize(locale, bytes),
+    formatDateTime: (value: number | Date, options?: Intl.DateTimeFormatOptions) => formatDateTime(locale, value, options),
+    formatList: (items: string[]) => formatList(locale, items),
+    // What went wrong with an API call, in the user's language
+    describeError: (error: unknown, fallback: MessageKey) => translate(locale, errorMessageKey(error, fallback)),
+  }), [locale])
+}
@@ -0,0 +1,28 @@
+'use client'
+import * as React from 'react'
+import offlineQueue from '@/utils/offlineQueue'
+import sessionManager from '@/utils/session'
+
+const SERVER_SNAPSHOT = offlineQueue.getSnapshot()
+
+export const useOfflineQueue = () => {
+  const state = React.useSyncExternalStore(
+    offlineQueue.subscribe,
+    offlineQueue.getSnapshot,
+    () => SERVER_SNAPSHOT
+  )
+  // Items queued under another account wait until it signs back in
+  const items = React.useMemo(() => {
+    const sessionId = sessionManager.getSessionId()
+    return state.items.filter(item => item.sessionId === sessionId)
+  }, [state])
+
+  return {
+    items,
+    isReplaying: state.isReplaying,
+    nextRetryAt: state.nextRetryAt,
+    queueChatMessage: offlineQueue.queueChatMessage,
+    queueUpload: offlineQueue.queueUpload,
+    remove: offlineQueue.remove,
+  }
+}
@@ -0,0 +1,15 @@
+'use client'
+import * as React from 'react'
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('online', listener)
+  window.addEventListener('offline', listener)
+  return () => {
+    window.removeEventListener('online', listener)
+    window.removeEventListener('offline', listener)
+  }
+}
+
+// Whether the browser believes it has a network connection
+export const useOnlineStatus = () =>
+  React.useSyncExternalStore(subscribe, () => navigator.onLine, () => true)
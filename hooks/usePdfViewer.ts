@@ -0,0 +1,17 @@
+'use client'
+import * as React from 'react'
+import pdfViewerStore from '@/utils/pdfViewerStore'
+
+export const usePdfViewer = () => {
+  const target = React.useSyncExternalStore(
+    pdfViewerStore.subscribe,
+    pdfViewerStore.getTarget,
+    () => null
+  )
+
+  return {
+    target,
+    openPdf: pdfViewerStore.open,
+    closePdf: pdfViewerStore.close,
+  }
+}
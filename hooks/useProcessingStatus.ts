@@ -0,0 +1,39 @@
+'use client'
+import * as React from 'react'
+import statusSubscription from '@/utils/statusSubscription'
+import type { DocumentStatus, DocumentType } from '@/utils/api'
+
+const EMPTY_DOCUMENTS: DocumentStatus[] = []
+
+// Live processing status for the session's documents, optionally limited to one type
+export const useProcessingStatus = (type?: DocumentType) => {
+  const allDocuments = React.useSyncExternalStore(
+    statusSubscription.subscribe,
+    statusSubscription.getDocuments,
+    () => EMPTY_DOCUMENTS
+  )
+  const connection = React.useSyncExternalStore(
+    statusSubscription.subscribe,
+    statusSubscription.getConnection,
+    () => 'idle' as const
+  )
+
+  const documents = React.useMemo(
+    () => (type ? allDocuments.filter(doc => doc.type === type) : allDocuments),
+    [allDocuments, type]
+  )
+
+  const getStatus = React.useCallback(
+    (docType: DocumentType, filename: string) =>
+      allDocuments.find(doc => doc.type === docType && doc.filename === filename),
+    [allDocuments]
+  )
+
+  return {
+    documents,
+    connection,
+    getStatus,
+    refresh: statusSubscription.refresh,
+    forget: statusSubscription.forget,
+  }
+}
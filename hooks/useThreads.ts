@@ -0,0 +1,143 @@
+'use client'
+import * as React from 'react'
+import { useAuth } from '@clerk/nextjs'
+import sessionManager from '@/utils/session'
+import threadStore, {
+  DEFAULT_THREAD_TITLE,
+  THREADS_MIGRATED_EVENT,
+  type ChatMessage,
+  type ChatThread,
+  type ThreadsMigratedDetail,
+} from '@/utils/threads'
+
+type MessagesUpdater = (messages: ChatMessage[]) => ChatMessage[]
+
+// Delay before writing to storage, so streamed tokens don't each trigger a save
+const PERSIST_DELAY_MS = 300
+
+export const useThreads = () => {
+  const { userId, isLoaded } = useAuth()
+  const [threads, setThreads] = React.useState<ChatThread[]>([])
+  const [activeThreadId, setActiveThreadId] = React.useState<string | null>(null)
+  const [isHydrated, setIsHydrated] = React.useState(false)
+  const sessionId = React.useSyncExternalStore(sessionManager.subscribe, sessionManager.getSessionId, () => 'server-default')
+  const sessionUserId = React.useSyncExternalStore(sessionManager.subscribe, sessionManager.getUserId, () => null)
+  // Wait until the session has switched to the signed-in user, so threads are never read from the wrong one
+  const isSessionReady = isLoaded && sessionUserId === (userId ?? null)
+
+  // Load the threads for this session/user, creating a first one if needed
+  React.useEffect(() => {
+    if (!isSessionReady) {
+      setIsHydrated(false)
+      return
+    }
+
+    let stored = threadStore.loadThreads(sessionId, userId)
+    if (stored.length === 0) {
+      stored = [threadStore.createThread()]
+    }
+
+    const storedActiveId = threadStore.loadActiveThreadId(sessionId, userId)
+    const activeId = stored.some(t => t.id === storedActiveId) ? storedActiveId! : stored[0].id
+
+    setThreads(stored)
+    setActiveThreadId(activeId)
+    setIsHydrated(true)
+  }, [isSessionReady, sessionId, userId])
+
+  // Threads carried over from the anonymous session after signing in
+  React.useEffect(() => {
+    const handleMigrated = (event: Event) => {
+      const { threads: migrated } = (event as CustomEvent<ThreadsMigratedDetail>).detail
+      setThreads(prev => {
+        const known = new Set(prev.map(t => t.id))
+        // Drop the untouched starter thread so migrated chats aren't buried under it
+        const kept = prev.filter(t => t.messages.length > 0 || t.title !== DEFAULT_THREAD_TITLE)
+        return [...migrated.filter(t => !known.has(t.id)), ...kept]
+      })
+      if (migrated.length > 0) setActiveThreadId(migrated[0].id)
+    }
+    window.addEventListener(THREADS_MIGRATED_EVENT, handleMigrated)
+    return () => window.removeEventListener(THREADS_MIGRATED_EVENT, handleMigrated)
+  }, [])
+
+  React.useEffect(() => {
+    if (!isHydrated) return
+    const timer = setTimeout(() => {
+      threadStore.saveThreads(sessionId, userId, threads)
+    }, PERSIST_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [threads, isHydrated, sessionId, userId])
+
+  React.useEffect(() => {
+    if (!isHydrated || !activeThreadId) return
+    threadStore.saveActiveThreadId(sessionId, userId, activeThreadId)
+  }, [activeThreadId, isHydrated, sessionId, userId])
+
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null
+
+  const createThread = React.useCallback(() => {
+    const thread = threadStore.createThread()
+    setThreads(prev => [thread, ...prev])
+    setActiveThreadId(thread.id)
+    return thread
+  }, [])
+
+  // Add a thread restored from an export and switch to it
+  const importThread = React.useCallback((thread: ChatThread) => {
+    setThreads(prev => [thread, ...prev])
+    setActiveThreadId(thread.id)
+  }, [])
+
+  const renameThread = React.useCallback((threadId: string, title: string) => {
+    const trimmed = title.trim()
+    setThreads(prev => prev.map(t =>
+      t.id === threadId ? { ...t, title: trimmed || DEFAULT_THREAD_TITLE, updatedAt: Date.now() } : t
+    ))
+  }, [])
+
+  const deleteThread = React.useCallback((threadId: string) => {
+    // Created outside the updater so it stays pure; only kept when nothing else is left
+    const fallback = threadStore.createThread()
+    setThreads(prev => {
+      const remaining = prev.filter(t => t.id !== threadId)
+      // Always keep at least one thread to chat in
+      return remaining.length > 0 ? remaining : [fallback]
+    })
+  }, [])
+
+  // When the active thread is gone, open the one the sidebar lists first, which is the most recently updated
+  React.useEffect(() => {
+    if (!isHydrated || threads.length === 0) return
+    if (activeThreadId && threads.some(t => t.id === activeThreadId)) return
+    const newest = threads.reduce((latest, t) => t.updatedAt > latest.updatedAt ? t : latest)
+    setActiveThreadId(newest.id)
+  }, [threads, activeThreadId, isHydrated])
+
+  // Update a specific thread's messages; targets the thread by ID so a reply
+  // that finishes after the user switched threads still lands in the right one
+  const updateThreadMessages = React.useCallback((threadId: string, updater: MessagesUpdater) => {
+    setThreads(prev => prev.map(t => {
+      if (t.id !== threadId) return t
+      const messages = updater(t.messages)
+      const firstQuestion = messages.find(m => m.role === 'user')
+      const title = t.title === DEFAULT_THREAD_TITLE && firstQuestion
+        ? threadStore.titleFromMessage(firstQuestion.content)
+        : t.title
+      return { ...t, title, messages, updatedAt: Date.now() }
+    }))
+  }, [])
+
+  return {
+    threads,
+    activeThread,
+    activeThreadId,
+    isHydrated,
+    selectThread: setActiveThreadId,
+    createThread,
+    importThread,
+    renameThread,
+    deleteThread,
+    updateThreadMessages,
+  }
+}
@@ -0,0 +1,17 @@
+'use client'
+import * as React from 'react'
+import transcriptViewerStore from '@/utils/transcriptViewerStore'
+
+export const useTranscriptViewer = () => {
+  const target = React.useSyncExternalStore(
+    transcriptViewerStore.subscribe,
+    transcriptViewerStore.getTarget,
+    () => null
+  )
+
+  return {
+    target,
+    openTranscript: transcriptViewerStore.open,
+    closeTranscript: transcriptViewerStore.close,
+  }
+}
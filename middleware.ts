@@ -1,6 +1,41 @@
-import { clerkMiddleware } from '@clerk/nextjs/server';
+import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import type { Role } from '@/types/globals';
 
-export default clerkMiddleware();
+// Reachable without signing in; every other route requires a session
+const isPublicRoute = createRouteMatcher([
+  '/',
+  '/sign-in(.*)',
+  '/sign-up(.*)',
+  '/api/health',
+]);
+
+const isApiRoute = createRouteMatcher(['/api(.*)', '/trpc(.*)']);
+
+// Routes that additionally require a role from the session claims
+const ROLE_RULES: { matches: ReturnType<typeof createRouteMatcher>; role: Role }[] = [
+  { matches: createRouteMatcher(['/admin(.*)', '/api/admin(.*)']), role: 'admin' },
+];
+
+const jsonError = (status: number, error: string) => NextResponse.json({ error }, { status });
+
+export default clerkMiddleware(async (auth, req) => {
+  if (isPublicRoute(req)) return;
+
+  const { userId, sessionClaims, redirectToSignIn } = await auth();
+
+  if (!userId) {
+    // API callers get a status they can handle; pages go through the sign-in flow and come back
+    if (isApiRoute(req)) return jsonError(401, 'Authentication required');
+    return redirectToSignIn({ returnBackUrl: req.url });
+  }
+
+  const requiredRole = ROLE_RULES.find(rule => rule.matches(req))?.role;
+  if (requiredRole && sessionClaims?.metadata?.role !== requiredRole) {
+    if (isApiRoute(req)) return jsonError(403, 'You do not have access to this resource');
+    return NextResponse.redirect(new URL('/', req.url));
+  }
+});
 
 export const config = {
   matcher: [
@@ -9,4 +44,4 @@ export const config = {
     // Always run for API routes
     '/(api|trpc)(.*)',
   ],
-};
\ No newline at end of file
+};
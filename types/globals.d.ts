@@ -0,0 +1,13 @@
+export {}
+
+export type Role = 'admin'
+
+declare global {
+  // Roles are set in Clerk's public metadata and exposed through a custom session token claim:
+  // { "metadata": "{{user.public_metadata}}" }
+  interface CustomJwtSessionClaims {
+    metadata?: {
+      role?: Role
+    }
+  }
+}
@@ -0,0 +1,76 @@
+'use client';
+// utils/accountMigration.ts
+
+/**
+ * Moving work done while signed out into the user's account
+ * Features:
+ * - Finds documents and chats left in this browser's anonymous session
+ * - Moves documents on the server and chats in local storage
+ * - Remembers the user's answer per account and anonymous session, so the offer is made once
+ */
+
+import api, { type DocumentType } from '@/utils/api';
+import sessionManager from '@/utils/session';
+import threadStore, { notifyThreadsMigrated, type ChatThread } from '@/utils/threads';
+import { notifyDocumentsChanged } from '@/utils/documentEvents';
+
+const DECISION_KEY_PREFIX = 'pdfrag_migration';
+const DOCUMENT_TYPES: DocumentType[] = ['pdf', 'audio', 'text'];
+
+type MigrationDecision = 'migrated' | 'declined';
+
+export interface AnonymousContent {
+  sessionId: string
+  documentCount: number
+  threads: ChatThread[]
+}
+
+const decisionKey = (userId: string, sessionId: string) => `${DECISION_KEY_PREFIX}:${userId}:${sessionId}`;
+
+const hasDecision = (userId: string, sessionId: string): boolean => {
+  try {
+    return localStorage.getItem(decisionKey(userId, sessionId)) !== null;
+  } catch {
+    return false;
+  }
+};
+
+const recordDecision = (userId: string, sessionId: string, decision: MigrationDecision): void => {
+  try {
+    localStorage.setItem(decisionKey(userId, sessionId), decision);
+  } catch {
+    // Without storage the offer may simply be shown again next time
+  }
+};
+
+// Anything worth moving from the anonymous session, or null when there's nothing to offer
+export async function findAnonymousContent(userId: string): Promise<AnonymousContent | null> {
+  const sessionId = sessionManager.getAnonymousSessionId();
+  if (!sessionId || hasDecision(userId, sessionId)) return null;
+
+  const threads = threadStore.loadThreads(sessionId, null).filter(thread => thread.messages.length > 0);
+  const results = await Promise.allSettled(DOCUMENT_TYPES.map(type => api.getStatus(type, { sessionId })));
+  const documentCount = results.reduce(
+    (count, result) => count + (result.status === 'fulfilled' ? result.value.files.length : 0),
+    0
+  );
+
+  if (documentCount === 0 && threads.length === 0) return null;
+  return { sessionId, documentCount, threads };
+}
+
+export async function migrateAnonymousContent(userId: string, content: AnonymousContent): Promise<void> {
+  if (content.documentCount > 0) {
+    await api.migrateSession(content.sessionId);
+    notifyDocumentsChanged();
+  }
+  if (content.threads.length > 0) {
+    notifyThreadsMigrated(content.threads);
+    threadStore.saveThreads(content.sessionId, null, []);
+  }
+  recordDecision(userId, content.sessionId, 'migrated');
+}
+
+export const declineMigration = (userId: string, content: AnonymousContent): void => {
+  recordDecision(userId, content.sessionId, 'declined');
+};
@@ -0,0 +1,27 @@
+// utils/api/auth.ts
+
+/**
+ * Bearer token for API requests
+ * The client can't call Clerk hooks, so the app registers Clerk's getToken
+ * here once auth has loaded. Tokens are fetched per request; Clerk caches and
+ * refreshes them, so this stays cheap.
+ */
+
+export type AuthTokenProvider = () => Promise<string | null>
+
+let tokenProvider: AuthTokenProvider | null = null
+
+export const setAuthTokenProvider = (provider: AuthTokenProvider | null): void => {
+  tokenProvider = provider
+}
+
+export const getAuthToken = async (): Promise<string | null> => {
+  if (!tokenProvider) return null
+  try {
+    return await tokenProvider()
+  } catch (error) {
+    // Send the request unauthenticated and let the server answer 401
+    console.warn('Failed to get auth token:', error)
+    return null
+  }
+}
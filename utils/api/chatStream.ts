@@ -0,0 +1,160 @@
+// utils/api/chatStream.ts
+
+/**
+ * Reads a /chat response body incrementally.
+ * Supports three response shapes from the server:
+ * - Server-Sent Events (text/event-stream) with `data:` lines carrying
+ *   either JSON ({ token } / { delta } / { content }) or raw text
+ * - Chunked plain text bodies, appended as they arrive
+ * - The classic JSON response ({ message, sources }) when the server does not stream
+ * Citations arrive as a `sources` array, either in the JSON body or as an
+ * SSE payload ({ sources: [...] }, optionally under `event: sources`).
+ */
+
+import type { ChatSource, ChatStreamHandlers } from './types'
+
+interface StreamEvent {
+  token?: string
+  sources?: ChatSource[]
+  done?: boolean
+}
+
+const DONE_SENTINEL = '[DONE]'
+
+export const isStreamingResponse = (response: Response): boolean => {
+  const contentType = response.headers.get('content-type') || ''
+  return !contentType.includes('application/json') && !!response.body
+}
+
+// Keep only well-formed citation entries from an untyped payload
+export const normalizeSources = (raw: unknown): ChatSource[] => {
+  if (!Array.isArray(raw)) return []
+  return raw.filter(
+    (s): s is ChatSource => !!s && typeof s === 'object' && typeof (s as ChatSource).filename === 'string'
+  )
+}
+
+// Only plain objects carry { token, sources, ... }; arrays and primitives are payloads
+const isEnvelope = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+// Parse one SSE event block into answer text, citations or the completion signal
+const parseEventBlock = (block: string): StreamEvent => {
+  const dataLines: string[] = []
+  let eventName = 'message'
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''))
+    } else if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim()
+    }
+  }
+
+  if (dataLines.length === 0) return {}
+
+  const data = dataLines.join('\n')
+  if (data.trim() === DONE_SENTINEL || eventName === 'done') return { done: true }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(data)
+  } catch {
+    // Not JSON, treat as raw text
+    return { token: data }
+  }
+
+  if (eventName === 'sources') return { sources: normalizeSources(isEnvelope(parsed) ? parsed.sources : parsed) }
+  if (typeof parsed === 'string') return { token: parsed }
+  // Numbers, booleans and null are answer text that happens to be valid JSON
+  if (!isEnvelope(parsed)) return { token: data }
+  return {
+    token: String(parsed.token ?? parsed.delta ?? parsed.content ?? parsed.message ?? ''),
+    sources: parsed.sources ? normalizeSources(parsed.sources) : undefined,
+  }
+}
+
+const dispatchEvent = (event: StreamEvent, handlers: ChatStreamHandlers): string => {
+  if (event.sources) handlers.onSources?.(event.sources)
+  if (event.token) handlers.onToken(event.token)
+  return event.token ?? ''
+}
+
+async function readEventStream(body: ReadableStream<Uint8Array>, handlers: ChatStreamHandlers): Promise<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let fullText = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ''
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block)
+        if (event.done) return fullText
+        fullText += dispatchEvent(event, handlers)
+      }
+    }
+
+    // Flush a trailing event without a blank line terminator
+    buffer += decoder.decode()
+    const event = parseEventBlock(buffer)
+    if (!event.done) fullText += dispatchEvent(event, handlers)
+    return fullText
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function readTextStream(body: ReadableStream<Uint8Array>, handlers: ChatStreamHandlers): Promise<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let fullText = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      const token = decoder.decode(value, { stream: true })
+      if (token) {
+        fullText += token
+        handlers.onToken(token)
+      }
+    }
+    // Flush a multi-byte character split across the last chunk
+    const tail = decoder.decode()
+    if (tail) {
+      fullText += tail
+      handlers.onToken(tail)
+    }
+    return fullText
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Consume a /chat response and return the full answer text
+export async function readChatResponse(response: Response, handlers: ChatStreamHandlers): Promise<string> {
+  if (!isStreamingResponse(response)) {
+    const data = await response.json()
+    const message: string = data.message || ''
+    const sources = normalizeSources(data.sources)
+    if (sources.length > 0) handlers.onSources?.(sources)
+    if (message) handlers.onToken(message)
+    return message
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  if (contentType.includes('text/event-stream')) {
+    return readEventStream(response.body!, handlers)
+  }
+
+  return readTextStream(response.body!, handlers)
+}
@@ -0,0 +1,231 @@
+// utils/api/client.ts
+
+/**
+ * Low-level HTTP plumbing for the RAG backend
+ * Features:
+ * - Shared axios instance with base URL, timeouts, the x-session-id header and
+ *   the signed-in user's bearer token
+ * - Conversion of every failure into the typed ApiError hierarchy
+ * - Retry with exponential backoff (and Retry-After support) for transient errors
+ * - fetch-based requests for streamed responses, which axios can't read in the browser
+ */
+
+import axios, { type AxiosRequestConfig } from 'axios'
+import sessionManager from '@/utils/session'
+import { getAuthToken } from './auth'
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  QuotaError,
+  TimeoutError,
+  errorFromStatus,
+} from './errors'
+
+// With the proxy enabled, the browser only talks to this app's own /api routes
+// and the backend address stays on the server. The mock backend is served
+// from those same routes.
+export const USE_API_PROXY =
+  process.env.NEXT_PUBLIC_USE_API_PROXY === 'true' || process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true'
+
+export const API_BASE_URL = USE_API_PROXY ? '/api' : process.env.NEXT_PUBLIC_SERVER_URL || ''
+
+// The app is built with `trailingSlash`, so proxy routes are addressed with a
+// trailing slash up front instead of through a redirect on every request
+const withTrailingSlash = (path: string): string =>
+  USE_API_PROXY && !path.endsWith('/') ? `${path}/` : path
+
+// Absolute URL of an API path, for callers that can't use the shared axios instance
+export const apiUrl = (path: string, params?: URLSearchParams): string => {
+  const query = params?.toString()
+  return `${API_BASE_URL}${withTrailingSlash(path)}${query ? `?${query}` : ''}`
+}
+
+export const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+}
+
+export const NO_RETRY: RetryOptions = { ...DEFAULT_RETRY, retries: 0 }
+
+const http = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: DEFAULT_TIMEOUT_MS,
+})
+
+http.interceptors.request.use(async config => {
+  if (config.url) config.url = withTrailingSlash(config.url)
+  config.headers.set('x-session-id', sessionManager.getSessionId())
+  const token = await getAuthToken()
+  if (token) config.headers.set('Authorization', `Bearer ${token}`)
+  return config
+})
+
+const extractServerMessage = (data: unknown): string | undefined => {
+  if (typeof data === 'string') return data || undefined
+  if (data && typeof data === 'object') {
+    const body = data as { error?: unknown; message?: unknown }
+    if (typeof body.error === 'string') return body.error
+    if (typeof body.message === 'string') return body.message
+  }
+  return undefined
+}
+
+// Normalize anything thrown by axios or fetch into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error
+
+  if (axios.isCancel(error)) return new CancelledError(undefined, error)
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return errorFromStatus(
+        error.response.status,
+        extractServerMessage(error.response.data),
+        error.response.headers['retry-after']
+      )
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(undefined, error)
+    }
+    return new NetworkError(undefined, error)
+  }
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new CancelledError(undefined, error)
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the network request fails
+    return new NetworkError(undefined, error)
+  }
+
+  const message = error instanceof Error ? error.message : 'Unexpected error'
+  return new ApiError(message, { cause: error })
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CancelledError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+const backoffDelay = (attempt: number, error: ApiError, options: RetryOptions): number => {
+  if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs)
+  }
+  const exponential = options.baseDelayMs * 2 ** attempt
+  // Full jitter keeps many clients from retrying in lockstep
+  return Math.min(options.maxDelayMs, Math.random() * exponential + options.baseDelayMs / 2)
+}
+
+// Run `fn`, retrying transient failures with exponential backoff
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      const error = toApiError(err)
+      if (!error.retryable || attempt >= options.retries || signal?.aborted) {
+        throw error
+      }
+      const delay = backoffDelay(attempt, error, options)
+      console.warn(`Request failed (${error.name}), retrying in ${Math.round(delay)}ms`, error)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+// JSON request through the shared axios instance
+export async function request<T>(config: AxiosRequestConfig, retry: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  const signal = config.signal as AbortSignal | undefined
+  return withRetry(async () => {
+    const response = await http.request<T>(config)
+    return response.data
+  }, retry, signal)
+}
+
+export interface StreamRequestOptions {
+  signal?: AbortSignal
+  // Maximum wait for the response headers; the body itself may stream for longer
+  timeoutMs?: number
+  retry?: RetryOptions
+}
+
+// fetch a response whose body will be read incrementally
+export async function streamRequest(
+  path: string,
+  params: URLSearchParams,
+  options: StreamRequestOptions = {}
+): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retry = DEFAULT_RETRY } = options
+
+  return withRetry(async () => {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      const headers: Record<string, string> = {
+        'x-session-id': sessionManager.getSessionId(),
+        'Accept': 'text/event-stream, application/json'
+      }
+      const token = await getAuthToken()
+      if (token) headers['Authorization'] = `Bearer ${token}`
+
+      const response = await fetch(apiUrl(path, params), {
+        method: 'GET',
+        headers,
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        let serverMessage: string | undefined
+        try {
+          const text = await response.text()
+          serverMessage = extractServerMessage(text ? JSON.parse(text) : undefined)
+        } catch {
+          serverMessage = undefined
+        }
+        throw errorFromStatus(response.status, serverMessage, response.headers.get('retry-after'))
+      }
+
+      return response
+    } catch (err) {
+      // On success the listener stays attached so the caller can still abort the body
+      signal?.removeEventListener('abort', onAbort)
+      if (timedOut) throw new TimeoutError(undefined, err)
+      throw toApiError(err)
+    } finally {
+      clearTimeout(timer)
+    }
+  }, retry, signal)
+}
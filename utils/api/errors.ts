@@ -0,0 +1,99 @@
+// utils/api/errors.ts
+
+/**
+ * Typed error hierarchy for backend calls
+ * Every failure surfaced by the API client is an ApiError subclass, so
+ * components can branch on `instanceof` instead of parsing status codes.
+ */
+
+export class ApiError extends Error {
+  readonly status?: number
+  // Whether repeating the same request may succeed
+  readonly retryable: boolean
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'ApiError'
+    this.status = options.status
+    this.retryable = options.retryable ?? false
+  }
+}
+
+// The request never reached the server or the connection dropped
+export class NetworkError extends ApiError {
+  constructor(message = 'Network error. Check your connection and try again.', cause?: unknown) {
+    super(message, { retryable: true, cause })
+    this.name = 'NetworkError'
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(message = 'The server took too long to respond.', cause?: unknown) {
+    super(message, cause)
+    this.name = 'TimeoutError'
+  }
+}
+
+// The request was deliberately aborted by the caller
+export class CancelledError extends ApiError {
+  constructor(message = 'Request cancelled.', cause?: unknown) {
+    super(message, { retryable: false, cause })
+    this.name = 'CancelledError'
+  }
+}
+
+// 401 / 403
+export class AuthError extends ApiError {
+  constructor(message = 'You are not allowed to do that. Please sign in again.', status = 401) {
+    super(message, { status })
+    this.name = 'AuthError'
+  }
+}
+
+// 429, or a usage limit reported by the server
+export class QuotaError extends ApiError {
+  readonly retryAfterMs?: number
+
+  constructor(message = 'Too many requests. Please wait a moment.', retryAfterMs?: number) {
+    super(message, { status: 429, retryable: true })
+    this.name = 'QuotaError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// 400 / 413 / 415 / 422: the request itself is wrong, retrying won't help
+export class ValidationError extends ApiError {
+  constructor(message = 'The request was rejected by the server.', status = 400) {
+    super(message, { status })
+    this.name = 'ValidationError'
+  }
+}
+
+// 5xx
+export class ServerError extends ApiError {
+  constructor(message = 'The server ran into a problem. Please try again.', status = 500) {
+    super(message, { status, retryable: true })
+    this.name = 'ServerError'
+  }
+}
+
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Map an HTTP error status (and optional server message) to the matching ApiError
+export const errorFromStatus = (
+  status: number,
+  serverMessage?: string,
+  retryAfter?: string | null
+): ApiError => {
+  if (status === 401 || status === 403) return new AuthError(serverMessage, status)
+  if (status === 429) return new QuotaError(serverMessage, parseRetryAfter(retryAfter))
+  if (status >= 500) return new ServerError(serverMessage, status)
+  if (status >= 400) return new ValidationError(serverMessage, status)
+  return new ApiError(serverMessage || `Unexpected response status ${status}`, { status })
+}
@@ -0,0 +1,241 @@
+// utils/api/index.ts
+
+/**
+ * Typed client for the RAG backend endpoints
+ * Components should go through `api` rather than building URLs themselves.
+ */
+
+import { NO_RETRY, request, streamRequest, toApiError } from './client'
+import { isStreamingResponse, readChatResponse } from './chatStream'
+import { readStatusStream } from './statusStream'
+import { ApiError, TimeoutError } from './errors'
+import { uploadFile, type UploadOptions } from './uploads'
+import type {
+  AnswerFeedback,
+  AudioFileStatus,
+  ChatRequest,
+  ChatResponse,
+  ChatSource,
+  ChatStreamHandlers,
+  DocumentSummary,
+  DocumentType,
+  FileStatus,
+  IngestUrlResponse,
+  PdfFileStatus,
+  StatusResponse,
+  StatusStreamEvent,
+} from './types'
+import sessionManager from '@/utils/session'
+
+export * from './errors'
+export * from './types'
+export { readChatResponse, normalizeSources } from './chatStream'
+export { API_BASE_URL, USE_API_PROXY, apiUrl } from './client'
+export { getAuthToken, setAuthTokenProvider, type AuthTokenProvider } from './auth'
+export { CHUNKED_UPLOAD_THRESHOLD, type UploadOptions } from './uploads'
+
+// How long a chat answer may go without sending anything before it is abandoned
+const CHAT_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_CHAT_TIMEOUT_SECONDS) || 60) * 1000
+const DOWNLOAD_TIMEOUT_MS = 2 * 60 * 1000
+const SUMMARY_TIMEOUT_MS = 60 * 1000
+// The server downloads the link before uploading it, so allow for both
+const INGEST_TIMEOUT_MS = 2 * 60 * 1000
+// Link imports always run on this app's own server, even without the proxy
+const INGEST_URL_PATH = '/api/ingest/url/'
+
+export interface RequestOptions {
+  signal?: AbortSignal
+}
+
+export interface StatusRequestOptions extends RequestOptions {
+  // Another session of this browser to list, e.g. the anonymous one before sign-in
+  sessionId?: string
+}
+
+async function getStatus<T extends FileStatus = FileStatus>(
+  type: DocumentType,
+  options: StatusRequestOptions = {}
+): Promise<StatusResponse<T>> {
+  const sessionId = options.sessionId ?? sessionManager.getSessionId()
+  const data = await request<Partial<StatusResponse<T>>>({
+    method: 'GET',
+    url: `/${type}/status`,
+    params: { sessionId },
+    signal: options.signal,
+  })
+  return { sessionId: data.sessionId ?? sessionId, files: data.files ?? [] }
+}
+
+export interface StatusStreamOptions extends RequestOptions {
+  // Called once the server has accepted the stream
+  onOpen?: () => void
+}
+
+// Follow processing-status changes of this session's documents until the
+// server closes the stream; rejects when the server has no stream endpoint
+async function streamStatus(
+  onEvents: (events: StatusStreamEvent[]) => void,
+  options: StatusStreamOptions = {}
+): Promise<void> {
+  const params = new URLSearchParams({ sessionId: sessionManager.getSessionId() })
+  const response = await streamRequest('/status/stream', params, { signal: options.signal, retry: NO_RETRY })
+  if (!isStreamingResponse(response)) {
+    throw new ApiError('The server does not stream status updates')
+  }
+  options.onOpen?.()
+  try {
+    await readStatusStream(response.body!, onEvents)
+  } catch (err) {
+    throw toApiError(err)
+  }
+}
+
+async function deleteDocument(type: DocumentType, id: string, options: RequestOptions = {}): Promise<void> {
+  await request<unknown>({
+    method: 'DELETE',
+    url: `/${type}/${encodeURIComponent(id)}`,
+    signal: options.signal,
+  })
+}
+
+// Download the original file of an indexed document
+async function downloadDocument(type: DocumentType, id: string, options: RequestOptions = {}): Promise<Blob> {
+  return request<Blob>({
+    method: 'GET',
+    url: `/${type}/${encodeURIComponent(id)}/file`,
+    responseType: 'blob',
+    timeout: DOWNLOAD_TIMEOUT_MS,
+    signal: options.signal,
+  })
+}
+
+export interface SummaryRequestOptions extends RequestOptions {
+  // Language to write the summary in, as a BCP 47 tag
+  locale?: string
+}
+
+// Short summary and suggested questions for a ready document
+async function getDocumentSummary(type: DocumentType, id: string, options: SummaryRequestOptions = {}): Promise<DocumentSummary> {
+  const data = await request<Partial<DocumentSummary>>({
+    method: 'GET',
+    url: `/${type}/${encodeURIComponent(id)}/summary`,
+    params: options.locale ? { locale: options.locale } : undefined,
+    timeout: SUMMARY_TIMEOUT_MS,
+    signal: options.signal,
+  })
+  return {
+    summary: typeof data.summary === 'string' ? data.summary : '',
+    suggestedQuestions: Array.isArray(data.suggestedQuestions)
+      ? data.suggestedQuestions.filter((q): q is string => typeof q === 'string')
+      : [],
+  }
+}
+
+// Move an anonymous session's documents into the signed-in user's current session
+async function migrateSession(fromSessionId: string, options: RequestOptions = {}): Promise<void> {
+  await request<unknown>({
+    method: 'POST',
+    url: '/session/migrate',
+    data: { fromSessionId, toSessionId: sessionManager.getSessionId() },
+    signal: options.signal,
+  })
+}
+
+// Have the server fetch a web page, PDF or audio link and index it like an upload
+async function ingestUrl(url: string, options: RequestOptions = {}): Promise<IngestUrlResponse> {
+  return request<IngestUrlResponse>({
+    method: 'POST',
+    url: new URL(INGEST_URL_PATH, window.location.origin).toString(),
+    data: { url },
+    timeout: INGEST_TIMEOUT_MS,
+    signal: options.signal,
+  }, NO_RETRY)
+}
+
+// Record a rating of an answer so answer quality can be tracked
+async function sendFeedback(feedback: AnswerFeedback, options: RequestOptions = {}): Promise<void> {
+  await request<unknown>({
+    method: 'POST',
+    url: '/feedback',
+    data: feedback,
+    signal: options.signal,
+  })
+}
+
+// Ask a question; streamed text is delivered through `handlers` as it arrives
+async function chat(
+  chatRequest: ChatRequest,
+  handlers: ChatStreamHandlers,
+  options: RequestOptions = {}
+): Promise<ChatResponse> {
+  const params = new URLSearchParams({ message: chatRequest.message, stream: 'true' })
+  if (chatRequest.threadId) params.set('threadId', chatRequest.threadId)
+  if (chatRequest.locale) params.set('locale', chatRequest.locale)
+  chatRequest.documentIds?.forEach(id => params.append('documentIds', id))
+
+  // The timeout restarts whenever part of the answer arrives, so a long answer
+  // that keeps streaming is never cut off but a stalled one is
+  const controller = new AbortController()
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const restartTimer = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, CHAT_TIMEOUT_MS)
+  }
+  const onAbort = () => controller.abort()
+  if (options.signal?.aborted) controller.abort()
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+  restartTimer()
+
+  let sources: ChatSource[] = []
+  try {
+    const response = await streamRequest('/chat', params, {
+      signal: controller.signal,
+      timeoutMs: CHAT_TIMEOUT_MS,
+      // A question may already have reached the server, and the user can retry a failed answer
+      retry: NO_RETRY,
+    })
+    const message = await readChatResponse(response, {
+      onToken: (token) => {
+        restartTimer()
+        handlers.onToken(token)
+      },
+      onSources: (received) => {
+        restartTimer()
+        sources = received
+        handlers.onSources?.(received)
+      },
+    })
+    return { message, sources }
+  } catch (err) {
+    if (timedOut) throw new TimeoutError('No answer arrived in time. The server may be busy.', err)
+    // The connection can still drop while the body is streaming
+    throw toApiError(err)
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+export const api = {
+  uploadPdf: (file: File, options?: UploadOptions) => uploadFile('pdf', file, options),
+  uploadAudio: (file: File, options?: UploadOptions) => uploadFile('audio', file, options),
+  uploadText: (file: File, options?: UploadOptions) => uploadFile('text', file, options),
+  uploadFile,
+  ingestUrl,
+  getPdfStatus: (options?: RequestOptions) => getStatus<PdfFileStatus>('pdf', options),
+  getAudioStatus: (options?: RequestOptions) => getStatus<AudioFileStatus>('audio', options),
+  getStatus,
+  streamStatus,
+  deleteDocument,
+  downloadDocument,
+  getDocumentSummary,
+  migrateSession,
+  sendFeedback,
+  chat,
+}
+
+export default api
@@ -0,0 +1,66 @@
+// utils/api/statusStream.ts
+
+/**
+ * Reads a /status/stream response body incrementally.
+ * Each Server-Sent Event carries one StatusStreamEvent, or an array of them,
+ * as JSON in its `data:` lines. The stream is fetched rather than opened with
+ * EventSource so the bearer token travels in a header instead of the URL.
+ */
+
+import type { StatusStreamEvent } from './types'
+
+const isStatusEvent = (value: unknown): value is StatusStreamEvent =>
+  !!value && typeof value === 'object' &&
+  typeof (value as StatusStreamEvent).type === 'string' &&
+  typeof (value as StatusStreamEvent).filename === 'string'
+
+// Parse one SSE event block into the status changes it announces
+const parseStatusBlock = (block: string): StatusStreamEvent[] => {
+  const data = block
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+    .join('\n')
+  if (!data) return []
+
+  try {
+    const parsed: unknown = JSON.parse(data)
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(isStatusEvent)
+  } catch (error) {
+    console.warn('Ignoring malformed status event:', error)
+    return []
+  }
+}
+
+// Deliver status events from `body` until the server closes the stream
+export async function readStatusStream(
+  body: ReadableStream<Uint8Array>,
+  onEvents: (events: StatusStreamEvent[]) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (block: string) => {
+    const events = parseStatusBlock(block)
+    if (events.length > 0) onEvents(events)
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ''
+      blocks.forEach(dispatch)
+    }
+
+    // Flush a trailing event without a blank line terminator
+    buffer += decoder.decode()
+    dispatch(buffer)
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,150 @@
+// utils/api/types.ts
+
+/**
+ * Request and response shapes shared by the API client and the components
+ */
+
+// "text" covers documents converted to plain text in the browser (DOCX, Markdown, HTML, ...)
+export type DocumentType = 'pdf' | 'audio' | 'text'
+
+// The form field name the backend expects for each upload type
+export const UPLOAD_FIELDS: Record<DocumentType, string> = {
+  pdf: 'pdf',
+  audio: 'audio',
+  text: 'text',
+}
+
+export type ProcessingStatus = 'processing' | 'ready' | 'failed'
+
+export interface FileStatus {
+  // Explicit document ID; the server falls back to the filename when absent
+  id?: string
+  filename: string
+  status: ProcessingStatus
+  // Processing progress, 0-100, when the server reports it
+  progress?: number
+  // Current processing step, e.g. "extracting", "embedding"
+  stage?: string
+  uploadedAt?: number
+  updatedAt?: number
+  // Web address the document was imported from, for link imports
+  sourceUrl?: string
+}
+
+export type PdfFileStatus = FileStatus
+
+// One timed piece of a transcript, in seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number
+  end?: number
+  text: string
+  speaker?: string
+}
+
+export interface AudioFileStatus extends FileStatus {
+  transcript?: string
+  // Timed segments, when the transcription service provides them
+  segments?: TranscriptSegment[]
+}
+
+export interface StatusResponse<T extends FileStatus = FileStatus> {
+  sessionId: string
+  files: T[]
+}
+
+// A file status tagged with its document type, as tracked by the status subscription
+export type DocumentStatus = (PdfFileStatus | AudioFileStatus) & {
+  type: DocumentType
+}
+
+// Incremental update pushed by the status stream
+export interface StatusStreamEvent extends Partial<AudioFileStatus> {
+  type: DocumentType
+  filename: string
+  // The document was removed from the index
+  deleted?: boolean
+}
+
+export interface UploadResponse {
+  message?: string
+  filename?: string
+  id?: string
+}
+
+export interface UploadProgress {
+  loadedBytes: number
+  totalBytes: number
+  // 0-100
+  percent: number
+}
+
+export interface IngestUrlResponse {
+  // The pipeline the link's content went into
+  type: DocumentType
+  filename: string
+  title?: string
+  sourceUrl: string
+}
+
+// Server-side state of a chunked upload, used to resume it
+export interface ChunkedUploadSession {
+  uploadId: string
+  chunkSize: number
+  // Indexes of the chunks the server already has
+  receivedChunks: number[]
+}
+
+// A document passage the answer was drawn from
+export interface ChatSource {
+  filename: string
+  type?: DocumentType
+  page?: number
+  // Audio segment bounds, in seconds
+  startTime?: number
+  endTime?: number
+  snippet?: string
+  score?: number
+  // Web address of the document, for link imports
+  url?: string
+}
+
+export interface ChatRequest {
+  message: string
+  threadId?: string
+  // Restrict the answer to these documents; empty means all of them
+  documentIds?: string[]
+  // Language to answer in, as a BCP 47 tag
+  locale?: string
+}
+
+export interface ChatResponse {
+  message: string
+  sources: ChatSource[]
+}
+
+export type FeedbackRating = 'up' | 'down'
+
+// A rating of one answer, sent together with the exchange it refers to
+export interface AnswerFeedback {
+  messageId: string
+  threadId?: string
+  rating: FeedbackRating
+  comment?: string
+  question: string
+  answer: string
+  sources: ChatSource[]
+}
+
+// Overview generated once a document is ready
+export interface DocumentSummary {
+  summary: string
+  // Follow-up questions the user might ask about the document
+  suggestedQuestions: string[]
+}
+
+export interface ChatStreamHandlers {
+  // Called with each new piece of answer text
+  onToken: (token: string) => void
+  // Called when the server sends the citations for the answer
+  onSources?: (sources: ChatSource[]) => void
+}
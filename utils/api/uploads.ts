@@ -0,0 +1,203 @@
+// utils/api/uploads.ts
+
+/**
+ * File uploads with real progress, cancellation and resumable chunking
+ * Features:
+ * - Byte-level progress from XHR upload events (via axios)
+ * - AbortSignal cancellation for both single and chunked uploads
+ * - Files above CHUNKED_UPLOAD_THRESHOLD are sent in chunks; each chunk is
+ *   retried with backoff, and the upload ID is remembered in localStorage so
+ *   a dropped connection or a reload resumes from the last stored chunk
+ * - Falls back to a single request when the server has no chunked endpoints
+ */
+
+import { NO_RETRY, request, toApiError, withRetry, type RetryOptions } from './client'
+import { ApiError, CancelledError } from './errors'
+import { UPLOAD_FIELDS, type ChunkedUploadSession, type DocumentType, type UploadProgress, type UploadResponse } from './types'
+
+export const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024
+const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000
+const CHUNK_TIMEOUT_MS = 60 * 1000
+
+// Chunks are idempotent, so they get a more patient retry policy than other requests
+const CHUNK_RETRY: RetryOptions = {
+  retries: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+}
+
+const RESUME_KEY_PREFIX = 'pdfrag_upload'
+
+export interface UploadOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: UploadProgress) => void
+}
+
+const toProgress = (loadedBytes: number, totalBytes: number): UploadProgress => ({
+  loadedBytes,
+  totalBytes,
+  percent: totalBytes > 0 ? Math.min(100, Math.round((loadedBytes / totalBytes) * 100)) : 0,
+})
+
+// Identifies "the same file" across page loads so its upload can be resumed
+const fileFingerprint = (type: DocumentType, file: File) =>
+  `${RESUME_KEY_PREFIX}:${type}:${file.name}:${file.size}:${file.lastModified}`
+
+const loadResumeId = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+const saveResumeId = (key: string, uploadId: string | null): void => {
+  try {
+    if (uploadId) localStorage.setItem(key, uploadId)
+    else localStorage.removeItem(key)
+  } catch {
+    // Without storage the upload still works, it just can't resume after a reload
+  }
+}
+
+async function uploadSingle(type: DocumentType, file: File, options: UploadOptions): Promise<UploadResponse> {
+  const formData = new FormData()
+  formData.append(UPLOAD_FIELDS[type], file)
+
+  // Uploads are not idempotent, so they are never retried automatically
+  return request<UploadResponse>({
+    method: 'POST',
+    url: `/upload/${type}`,
+    data: formData,
+    timeout: UPLOAD_TIMEOUT_MS,
+    signal: options.signal,
+    onUploadProgress: (event) => {
+      options.onProgress?.(toProgress(event.loaded, event.total ?? file.size))
+    },
+  }, NO_RETRY)
+}
+
+// Reuse a stored upload session if the server still knows it, otherwise start one
+async function openChunkedSession(
+  type: DocumentType,
+  file: File,
+  resumeKey: string,
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession> {
+  const storedId = loadResumeId(resumeKey)
+  if (storedId) {
+    try {
+      const session = await request<ChunkedUploadSession>({
+        method: 'GET',
+        url: `/upload/chunked/${encodeURIComponent(storedId)}`,
+        signal,
+      })
+      console.log('↩️ Resuming upload', file.name, `(${session.receivedChunks.length} chunks already stored)`)
+      return session
+    } catch (err) {
+      if (err instanceof CancelledError) throw err
+      // Expired or unknown upload: start over
+      saveResumeId(resumeKey, null)
+    }
+  }
+
+  const session = await request<ChunkedUploadSession>({
+    method: 'POST',
+    url: '/upload/chunked/init',
+    data: {
+      type,
+      filename: file.name,
+      size: file.size,
+      mimeType: file.type,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+    },
+    signal,
+  }, NO_RETRY)
+  saveResumeId(resumeKey, session.uploadId)
+  return { ...session, receivedChunks: session.receivedChunks ?? [] }
+}
+
+async function uploadChunked(type: DocumentType, file: File, options: UploadOptions): Promise<UploadResponse> {
+  const { signal, onProgress } = options
+  const resumeKey = fileFingerprint(type, file)
+  const session = await openChunkedSession(type, file, resumeKey, signal)
+  const chunkSize = session.chunkSize || DEFAULT_CHUNK_SIZE
+  const totalChunks = Math.ceil(file.size / chunkSize)
+  const received = new Set(session.receivedChunks)
+
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize)
+  let confirmedBytes = Array.from(received).reduce((sum, index) => sum + chunkBytes(index), 0)
+  onProgress?.(toProgress(confirmedBytes, file.size))
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue
+
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkBytes(index))
+    await withRetry(() => request<unknown>({
+      method: 'PUT',
+      url: `/upload/chunked/${encodeURIComponent(session.uploadId)}/${index}`,
+      data: chunk,
+      headers: { 'Content-Type': 'application/octet-stream' },
+      timeout: CHUNK_TIMEOUT_MS,
+      signal,
+      onUploadProgress: (event) => {
+        onProgress?.(toProgress(confirmedBytes + event.loaded, file.size))
+      },
+    }, NO_RETRY), CHUNK_RETRY, signal)
+
+    confirmedBytes += chunk.size
+    onProgress?.(toProgress(confirmedBytes, file.size))
+  }
+
+  const result = await request<UploadResponse>({
+    method: 'POST',
+    url: `/upload/chunked/${encodeURIComponent(session.uploadId)}/complete`,
+    signal,
+  })
+  saveResumeId(resumeKey, null)
+  return result
+}
+
+// Tell the server to drop a chunked upload the user cancelled
+const discardChunkedUpload = async (type: DocumentType, file: File): Promise<void> => {
+  const resumeKey = fileFingerprint(type, file)
+  const uploadId = loadResumeId(resumeKey)
+  saveResumeId(resumeKey, null)
+  if (!uploadId) return
+
+  try {
+    await request<unknown>({ method: 'DELETE', url: `/upload/chunked/${encodeURIComponent(uploadId)}` }, NO_RETRY)
+  } catch (err) {
+    console.warn('Failed to discard cancelled upload:', err)
+  }
+}
+
+const isMissingEndpoint = (error: ApiError) => error.status === 404 || error.status === 405
+
+export async function uploadFile(
+  type: DocumentType,
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadResponse> {
+  if (file.size < CHUNKED_UPLOAD_THRESHOLD) {
+    return uploadSingle(type, file, options)
+  }
+
+  try {
+    return await uploadChunked(type, file, options)
+  } catch (err) {
+    const error = toApiError(err)
+    if (error instanceof CancelledError) {
+      void discardChunkedUpload(type, file)
+      throw error
+    }
+    if (isMissingEndpoint(error)) {
+      console.warn('Chunked uploads not supported by the server, uploading in one request')
+      saveResumeId(fileFingerprint(type, file), null)
+      return uploadSingle(type, file, options)
+    }
+    // Keep the resume record so retrying continues where this attempt stopped
+    throw error
+  }
+}
@@ -0,0 +1,177 @@
+'use client';
+// utils/conversationExport.ts
+
+/**
+ * Conversation export and import
+ * Features:
+ * - Markdown export with numbered citations under each answer, written in the UI language
+ * - Structured JSON export (messages, timestamps, citations, document names)
+ * - JSON import that validates the file and restores it as a new thread
+ */
+
+import type { ChatSource } from './api/types';
+import { formatDateTime, translate, type Locale, type MessageKey } from './i18n';
+import { createId, DEFAULT_THREAD_TITLE, type ChatMessage, type ChatThread } from './threads';
+import { formatTimestamp } from './transcript';
+
+const EXPORT_FORMAT = 'documind-conversation';
+const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  // Every document cited anywhere in the conversation
+  documents: string[]
+  messages: {
+    role: ChatMessage['role']
+    content: string
+    createdAt?: string
+    sources?: ChatSource[]
+  }[]
+}
+
+const toIso = (timestamp: number | undefined): string | undefined =>
+  timestamp ? new Date(timestamp).toISOString() : undefined;
+
+const fromIso = (value: unknown): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// Messages worth exporting: finished, non-empty turns
+const exportableMessages = (thread: ChatThread): ChatMessage[] =>
+  thread.messages.filter(message => !message.isStreaming && message.content.trim());
+
+export const getCitedDocuments = (thread: ChatThread): string[] =>
+  Array.from(new Set(thread.messages.flatMap(message => message.sources?.map(source => source.filename) ?? [])));
+
+export const describeSource = (source: ChatSource, locale: Locale): string => {
+  if (source.startTime !== undefined) {
+    const end = source.endTime !== undefined ? `–${formatTimestamp(source.endTime)}` : '';
+    return `${source.filename} · ${formatTimestamp(source.startTime)}${end}`;
+  }
+  return source.page !== undefined
+    ? `${source.filename} · ${translate(locale, 'citations.page', { page: source.page })}`
+    : source.filename;
+};
+
+export const conversationToMarkdown = (thread: ChatThread, locale: Locale): string => {
+  const exportedAt = translate(locale, 'export.exportedAt', { date: formatDateTime(locale, Date.now()) });
+  const lines: string[] = [`# ${thread.title}`, '', `_${exportedAt}_`, ''];
+
+  const documents = getCitedDocuments(thread);
+  if (documents.length > 0) {
+    lines.push(`**${translate(locale, 'export.documents')}:** ${documents.join(', ')}`, '');
+  }
+
+  for (const message of exportableMessages(thread)) {
+    const author = translate(locale, message.role === 'user' ? 'export.you' : 'export.assistant');
+    const time = message.createdAt ? ` (${formatDateTime(locale, message.createdAt)})` : '';
+    lines.push(`## ${author}${time}`, '', message.content.trim(), '');
+
+    if (message.sources?.length) {
+      lines.push(`**${translate(locale, 'export.sources')}:**`, '');
+      message.sources.forEach((source, index) => {
+        const label = describeSource(source, locale);
+        lines.push(`${index + 1}. ${source.url ? `[${label}](${source.url})` : label}`);
+        if (source.snippet) lines.push(`   > ${source.snippet.replace(/\s+/g, ' ').trim()}`);
+      });
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+export const conversationToJson = (thread: ChatThread): string => {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: thread.title,
+    createdAt: new Date(thread.createdAt).toISOString(),
+    updatedAt: new Date(thread.updatedAt).toISOString(),
+    documents: getCitedDocuments(thread),
+    messages: exportableMessages(thread).map(message => ({
+      role: message.role,
+      content: message.content,
+      createdAt: toIso(message.createdAt),
+      sources: message.sources?.length ? message.sources : undefined,
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// Thrown with the message key that explains what is wrong with the file
+export class ConversationImportError extends Error {
+  constructor(readonly messageKey: MessageKey) {
+    super(translate('en', messageKey));
+    this.name = 'ConversationImportError';
+  }
+}
+
+// Parse an exported JSON file into a new thread; throws a ConversationImportError
+export const parseConversationImport = (text: string): ChatThread => {
+  let data: Partial<ConversationExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('import.invalidJson');
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.messages)) {
+    throw new ConversationImportError('import.notExport');
+  }
+  if ((data.version ?? 0) > EXPORT_VERSION) {
+    throw new ConversationImportError('import.newerVersion');
+  }
+
+  const messages: ChatMessage[] = data.messages
+    .filter(message =>
+      message &&
+      (message.role === 'user' || message.role === 'bot') &&
+      typeof message.content === 'string'
+    )
+    .map(message => ({
+      id: createId(),
+      role: message.role,
+      content: message.content,
+      createdAt: fromIso(message.createdAt),
+      sources: Array.isArray(message.sources)
+        ? message.sources.filter(source => source && typeof source.filename === 'string')
+        : undefined,
+    }));
+
+  if (messages.length === 0) {
+    throw new ConversationImportError('import.noMessages');
+  }
+
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: typeof data.title === 'string' && data.title.trim() ? data.title.trim() : DEFAULT_THREAD_TITLE,
+    messages,
+    createdAt: fromIso(data.createdAt) ?? now,
+    updatedAt: now,
+  };
+};
+
+export const exportFilename = (thread: ChatThread, extension: string): string => {
+  const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'conversation';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,72 @@
+'use client';
+// utils/documentEvents.ts
+
+/**
+ * Window events used to keep the upload cards and the document library in sync
+ * without lifting their state into a shared parent.
+ */
+
+import type { DocumentType } from './api/types';
+
+export type { DocumentType };
+
+export interface DocumentDeletedDetail {
+  type: DocumentType
+  filename: string
+}
+
+export interface DocumentAddedDetail {
+  type: DocumentType
+  // Name the server stores the document under
+  filename: string
+}
+
+export interface UploadRequestedDetail {
+  type: DocumentType
+  files: File[]
+}
+
+export interface QueuedUploadSettledDetail {
+  // ID the offline queue gave the upload
+  queueId: string
+  type: DocumentType
+  filename: string
+  // Why the upload was given up on; unset when it was sent
+  error?: unknown
+}
+
+export const DOCUMENTS_CHANGED_EVENT = 'documentsChanged';
+export const DOCUMENT_DELETED_EVENT = 'documentDeleted';
+export const DOCUMENT_ADDED_EVENT = 'documentAdded';
+export const UPLOAD_REQUESTED_EVENT = 'uploadRequested';
+export const QUEUED_UPLOAD_SETTLED_EVENT = 'queuedUploadSettled';
+
+// An upload finished or changed state; listeners should refetch statuses
+export const notifyDocumentsChanged = (): void => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new Event(DOCUMENTS_CHANGED_EVENT));
+};
+
+// A document was uploaded or imported from this page; statuses are refetched too
+export const notifyDocumentAdded = (detail: DocumentAddedDetail): void => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<DocumentAddedDetail>(DOCUMENT_ADDED_EVENT, { detail }));
+  notifyDocumentsChanged();
+};
+
+export const notifyDocumentDeleted = (detail: DocumentDeletedDetail): void => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<DocumentDeletedDetail>(DOCUMENT_DELETED_EVENT, { detail }));
+};
+
+// Hand files dropped or pasted elsewhere to the upload card for their type
+export const requestUpload = (detail: UploadRequestedDetail): void => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<UploadRequestedDetail>(UPLOAD_REQUESTED_EVENT, { detail }));
+};
+
+// An upload queued while offline was sent, or failed for good
+export const notifyQueuedUploadSettled = (detail: QueuedUploadSettledDetail): void => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<QueuedUploadSettledDetail>(QUEUED_UPLOAD_SETTLED_EVENT, { detail }));
+};
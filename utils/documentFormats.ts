@@ -0,0 +1,62 @@
+'use client';
+// utils/documentFormats.ts
+
+/**
+ * Which upload card a picked, dropped or pasted file belongs to
+ * Features:
+ * - Routes by extension first, then by MIME type, since browsers often leave the type empty
+ * - Lists the document formats converted to plain text before upload
+ * - `accept` strings for the file pickers
+ */
+
+import type { DocumentType } from './api/types';
+
+export type TextFormat = 'docx' | 'txt' | 'markdown' | 'html' | 'csv' | 'epub';
+
+interface FormatInfo {
+  extensions: string[]
+  mimeTypes: string[]
+}
+
+export const TEXT_FORMATS: Record<TextFormat, FormatInfo> = {
+  docx: {
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  txt: { extensions: ['.txt', '.text'], mimeTypes: ['text/plain'] },
+  markdown: { extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  html: { extensions: ['.html', '.htm'], mimeTypes: ['text/html'] },
+  csv: { extensions: ['.csv'], mimeTypes: ['text/csv'] },
+  epub: { extensions: ['.epub'], mimeTypes: ['application/epub+zip'] },
+};
+
+const TEXT_FORMAT_ENTRIES = Object.entries(TEXT_FORMATS) as Array<[TextFormat, FormatInfo]>;
+
+export const TEXT_ACCEPT = TEXT_FORMAT_ENTRIES
+  .flatMap(([, info]) => [...info.extensions, ...info.mimeTypes])
+  .join(',');
+
+// In display order; each has a `formats.*` label in the message catalogs
+export const TEXT_FORMAT_IDS = TEXT_FORMAT_ENTRIES.map(([format]) => format);
+
+const extensionOf = (filename: string): string => {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot).toLowerCase();
+};
+
+export const getTextFormat = (file: File): TextFormat | null => {
+  const extension = extensionOf(file.name);
+  const byExtension = TEXT_FORMAT_ENTRIES.find(([, info]) => info.extensions.includes(extension));
+  if (byExtension) return byExtension[0];
+  const byMimeType = TEXT_FORMAT_ENTRIES.find(([, info]) => info.mimeTypes.includes(file.type));
+  return byMimeType ? byMimeType[0] : null;
+};
+
+// The document type a file uploads as, or null when it isn't supported
+export const classifyFile = (file: File): DocumentType | null => {
+  const extension = extensionOf(file.name);
+  if (extension === '.pdf' || file.type === 'application/pdf') return 'pdf';
+  if (getTextFormat(file)) return 'text';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return null;
+};
@@ -0,0 +1,54 @@
+'use client';
+// utils/documentSelection.ts
+
+/**
+ * Shared store for the documents a chat question should be answered from
+ * Features:
+ * - Module-level state shared by the document library and the chat
+ * - Subscribe API compatible with React's useSyncExternalStore
+ * - An empty selection means "answer from every document in the session"
+ */
+
+type Listener = () => void;
+
+let selectedIds: string[] = [];
+const listeners = new Set<Listener>();
+
+const emit = (next: string[]): void => {
+  selectedIds = next;
+  listeners.forEach(listener => listener());
+};
+
+export const documentSelection = {
+  getSelectedIds: (): string[] => selectedIds,
+
+  isSelected: (id: string): boolean => selectedIds.includes(id),
+
+  toggle: (id: string): void => {
+    emit(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  },
+
+  setSelectedIds: (ids: string[]): void => {
+    emit(Array.from(new Set(ids)));
+  },
+
+  // Drop a document that no longer exists (e.g. deleted from the index)
+  remove: (id: string): void => {
+    if (selectedIds.includes(id)) {
+      emit(selectedIds.filter(s => s !== id));
+    }
+  },
+
+  clear: (): void => {
+    if (selectedIds.length > 0) emit([]);
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default documentSelection;
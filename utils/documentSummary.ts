@@ -0,0 +1,56 @@
+'use client';
+// utils/documentSummary.ts
+
+/**
+ * Summaries and suggested questions for documents that just finished processing
+ * Features:
+ * - Uses the backend's summary endpoint when it has one
+ * - Otherwise asks the chat endpoint, scoped to the document, and parses the answer
+ */
+
+import api, { ValidationError, type DocumentStatus, type DocumentSummary } from './api';
+
+const MAX_SUGGESTIONS = 4;
+const QUESTIONS_HEADING = 'Suggested questions:';
+
+const summaryPrompt = (filename: string): string =>
+  `Summarize the document "${filename}" in 3 or 4 sentences. ` +
+  `Then write "${QUESTIONS_HEADING}" on its own line and list ${MAX_SUGGESTIONS} short follow-up questions ` +
+  'a reader might ask about it, one per line, each starting with "- ".';
+
+// Split a chat answer written to `summaryPrompt` into the summary and its question list
+export const parseSummaryAnswer = (answer: string): DocumentSummary => {
+  const headingIndex = answer.toLowerCase().indexOf(QUESTIONS_HEADING.toLowerCase());
+  if (headingIndex === -1) return { summary: answer.trim(), suggestedQuestions: [] };
+
+  const suggestedQuestions = answer
+    .slice(headingIndex + QUESTIONS_HEADING.length)
+    .split('\n')
+    .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+    .filter((question): question is string => !!question);
+
+  return { summary: answer.slice(0, headingIndex).trim(), suggestedQuestions };
+};
+
+export async function summarizeDocument(
+  doc: DocumentStatus,
+  options: { locale?: string; signal?: AbortSignal } = {}
+): Promise<DocumentSummary> {
+  const { locale, signal } = options;
+  const id = doc.id ?? doc.filename;
+  let result: DocumentSummary;
+  try {
+    result = await api.getDocumentSummary(doc.type, id, { locale, signal });
+  } catch (err) {
+    // Backends without a summary endpoint still answer questions about the document
+    if (!(err instanceof ValidationError && err.status === 404)) throw err;
+    const { message } = await api.chat(
+      { message: summaryPrompt(doc.filename), documentIds: [id], locale },
+      { onToken: () => {} },
+      { signal }
+    );
+    result = parseSummaryAnswer(message);
+  }
+
+  return { ...result, suggestedQuestions: result.suggestedQuestions.slice(0, MAX_SUGGESTIONS) };
+}
@@ -0,0 +1,27 @@
+'use client';
+// utils/fileRegistry.ts
+
+/**
+ * Keeps the File objects picked in this browser tab, so previews and viewers
+ * can open a document without downloading it back from the server.
+ */
+
+import type { DocumentType } from './api/types';
+
+const files = new Map<string, File>();
+
+const fileKey = (type: DocumentType, filename: string) => `${type}:${filename}`;
+
+export const fileRegistry = {
+  register: (type: DocumentType, file: File): void => {
+    files.set(fileKey(type, file.name), file);
+  },
+
+  get: (type: DocumentType, filename: string): File | undefined => files.get(fileKey(type, filename)),
+
+  remove: (type: DocumentType, filename: string): void => {
+    files.delete(fileKey(type, filename));
+  },
+};
+
+export default fileRegistry;
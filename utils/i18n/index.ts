@@ -0,0 +1,185 @@
+// utils/i18n/index.ts
+
+/**
+ * UI languages, locale detection and locale-aware formatting
+ * Features:
+ * - One message catalog per locale, with {placeholders} and plural forms
+ * - The locale comes from the user's saved choice, then the browser's languages
+ * - Right-to-left layout for Arabic and Urdu
+ * - Numbers, percentages, file sizes and dates formatted for the locale
+ * - Failed API calls described by their kind, since server messages are English only
+ */
+
+import {
+  AuthError,
+  CancelledError,
+  NetworkError,
+  QuotaError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '@/utils/api/errors'
+import en, { type Catalog, type Message, type MessageKey } from './messages/en'
+import es from './messages/es'
+import ar from './messages/ar'
+import ur from './messages/ur'
+
+export type { Catalog, Message, MessageKey }
+
+export interface LocaleInfo {
+  // Name of the language in that language, for the switcher
+  label: string
+  dir: 'ltr' | 'rtl'
+  messages: Catalog
+}
+
+export const LOCALES = {
+  en: { label: 'English', dir: 'ltr', messages: en },
+  es: { label: 'Español', dir: 'ltr', messages: es },
+  ar: { label: 'العربية', dir: 'rtl', messages: ar },
+  ur: { label: 'اردو', dir: 'rtl', messages: ur },
+} satisfies Record<string, LocaleInfo>
+
+export type Locale = keyof typeof LOCALES
+
+export type MessageParams = Record<string, string | number>
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+const STORAGE_KEY = 'documind_locale'
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value)
+
+// Match a BCP 47 tag like "ar-EG" to a supported locale by its language
+const matchLocale = (tag: string): Locale | null => {
+  const language = tag.toLowerCase().split('-')[0]
+  return isLocale(language) ? language : null
+}
+
+// Saved choice first, then the browser's preferred languages in order
+export const detectLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(saved)) return saved
+  } catch {
+    // Storage can be blocked; fall through to the browser languages
+  }
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const tag of preferred) {
+    const match = tag ? matchLocale(tag) : null
+    if (match) return match
+  }
+  return DEFAULT_LOCALE
+}
+
+// ----- Formatting -----
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value)
+
+// `percent` is 0-100, as reported by uploads and processing
+export const formatPercent = (locale: Locale, percent: number): string =>
+  formatNumber(locale, percent / 100, { style: 'percent', maximumFractionDigits: 0 })
+
+const FILE_SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte'] as const
+
+export const formatFileSize = (locale: Locale, bytes: number): string => {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < FILE_SIZE_UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return formatNumber(locale, value, {
+    style: 'unit',
+    unit: FILE_SIZE_UNITS[unit],
+    unitDisplay: 'short',
+    maximumFractionDigits: unit >= 2 ? 1 : 0,
+  })
+}
+
+export const formatDateTime = (
+  locale: Locale,
+  value: number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string => new Intl.DateTimeFormat(locale, options).format(value)
+
+// Join items the way the language lists them, e.g. "a, b and c"
+export const formatList = (locale: Locale, items: string[]): string =>
+  new Intl.ListFormat(locale, { type: 'conjunction' }).format(items)
+
+// ----- Messages -----
+
+const selectForm = (locale: Locale, message: Message, count: unknown): string => {
+  if (typeof message === 'string') return message
+  if (typeof count !== 'number') return message.other
+  // An exact zero form wins over the language's plural category
+  if (count === 0 && message.zero) return message.zero
+  return message[new Intl.PluralRules(locale).select(count)] ?? message.other
+}
+
+// Look up a message and fill in its {placeholders}; numbers are formatted for the locale
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = LOCALES[locale].messages[key] ?? en[key]
+  return selectForm(locale, message, params.count).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    if (value === undefined) return placeholder
+    return typeof value === 'number' ? formatNumber(locale, value) : value
+  })
+}
+
+// ----- Errors -----
+
+// The message for a failed API call, or `fallback` for anything that isn't one
+export const errorMessageKey = (error: unknown, fallback: MessageKey): MessageKey => {
+  if (error instanceof TimeoutError) return 'errors.timeout'
+  if (error instanceof NetworkError) return 'errors.network'
+  if (error instanceof CancelledError) return 'errors.cancelled'
+  if (error instanceof AuthError) return 'errors.auth'
+  if (error instanceof QuotaError) return 'errors.quota'
+  if (error instanceof ServerError) return 'errors.server'
+  if (error instanceof ValidationError) {
+    if (error.status === 404) return 'errors.notFound'
+    if (error.status === 413) return 'errors.tooLarge'
+    if (error.status === 415) return 'errors.unsupportedType'
+    return 'errors.rejected'
+  }
+  return fallback
+}
+
+// ----- Current locale -----
+
+type Listener = () => void
+
+let currentLocale: Locale | null = null
+const listeners = new Set<Listener>()
+
+export const localeStore = {
+  // Detected on first use, since storage and navigator only exist in the browser
+  getLocale: (): Locale => {
+    currentLocale ??= detectLocale()
+    return currentLocale
+  },
+
+  setLocale: (locale: Locale): void => {
+    if (locale === currentLocale) return
+    currentLocale = locale
+    try {
+      localStorage.setItem(STORAGE_KEY, locale)
+    } catch {
+      // The choice still applies for this page view
+    }
+    listeners.forEach(listener => listener())
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
+
+export default localeStore
@@ -0,0 +1,383 @@
+// utils/i18n/messages/ar.ts
+
+import type { Catalog } from './en'
+
+const ar: Catalog = {
+  'app.name': 'مساعد المستندات الذكي',
+  'header.getStarted': 'ابدأ الآن',
+  'header.welcomeBack': 'مرحبًا بعودتك!',
+  'footer.copyright': '© {year} DocAI. جميع الحقوق محفوظة.',
+  'language.label': 'اللغة',
+
+  'common.cancel': 'إلغاء',
+  'common.retry': 'إعادة المحاولة',
+  'common.tryAgain': 'يرجى المحاولة مرة أخرى.',
+
+  'auth.requiredTitle': 'تسجيل الدخول مطلوب',
+  'auth.requiredBody': 'يرجى تسجيل الدخول لـ{action}',
+  'auth.loginTitle': 'تسجيل الدخول مطلوب',
+  'auth.loginBody': 'يرجى تسجيل الدخول أو إنشاء حساب لـ{action}',
+  'auth.signIn': 'تسجيل الدخول',
+  'auth.action.chat': 'محادثة مستنداتك',
+  'auth.action.uploadFiles': 'رفع الملفات',
+  'auth.action.uploadPdf': 'رفع ملفات PDF',
+  'auth.action.uploadAudio': 'رفع الملفات الصوتية',
+  'auth.action.recordAudio': 'تسجيل الصوت',
+  'auth.action.uploadDocuments': 'رفع المستندات',
+  'auth.action.importLinks': 'استيراد الروابط',
+  'auth.action.deleteDocuments': 'حذف المستندات',
+
+  'info.title': 'حالة الرفع',
+  'info.pdf': 'يُستخرج النص من ملفات PDF',
+  'info.audio': 'تُفرَّغ الملفات الصوتية نصيًا تلقائيًا',
+  'info.text': 'تُحوَّل ملفات Word والنصوص وHTML وCSV وEPUB إلى نص داخل متصفحك',
+  'info.dragDrop': 'اسحب الملفات إلى أي مكان في هذه اللوحة أو الصقها لرفعها',
+  'info.links': 'الصق رابطًا لاستيراد صفحة ويب أو ملف PDF أو ملف صوتي من الإنترنت',
+  'info.chat': 'تحدّث مع جميع أنواع المحتوى المرفوعة',
+
+  'chat.title': 'المساعد الذكي',
+  'chat.subtitle': 'اسأل عن ملفاتك المرفوعة',
+  'chat.welcomeTitle': 'مرحبًا! أنا مساعدك الذكي',
+  'chat.welcomeBody': 'ارفع ملفات PDF أو ملفات صوتية، ثم اسألني أي شيء عن محتواها',
+  'chat.featurePdf': 'دعم PDF',
+  'chat.featureAudio': 'تفريغ الصوت',
+  'chat.hideConversations': 'إخفاء المحادثات',
+  'chat.showConversations': 'إظهار المحادثات',
+  'chat.placeholder': 'اسأل عن مستنداتك...',
+  'chat.placeholderPending': 'اكتب سؤالك التالي...',
+  'chat.send': 'إرسال',
+  'chat.stop': 'إيقاف الإجابة',
+  'chat.hint': 'اضغط Enter للإرسال • Shift + Enter لسطر جديد',
+  'chat.hintPending': 'اضغط إيقاف لإلغاء الإجابة',
+  'chat.answeringFromSelection': {
+    one: 'الإجابة من مستند واحد محدد',
+    two: 'الإجابة من مستندين محددين',
+    few: 'الإجابة من {count} مستندات محددة',
+    many: 'الإجابة من {count} مستندًا محددًا',
+    other: 'الإجابة من {count} مستند محدد',
+  },
+  'chat.thinking': 'جارٍ التفكير...',
+  'chat.queued': 'سيُرسل عند عودة الاتصال',
+  'chat.editMessage': 'تعديل الرسالة',
+  'chat.editWarning': 'سيتم استبدال الرسائل اللاحقة في هذه المحادثة.',
+  'chat.noAnswer': 'عذرًا، لم أتمكن من إنشاء إجابة.',
+  'chat.stopped': '_تم الإيقاف._',
+  'chat.interrupted': '[انقطعت الإجابة. يرجى المحاولة مرة أخرى.]',
+  'chat.stoppedBeforeAnswer': '_تم الإيقاف قبل وصول الإجابة._',
+  'chat.genericError': 'عذرًا، حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+  'chat.queuedFailed': 'تعذّر إرسال هذا السؤال. يرجى المحاولة مرة أخرى.',
+  'chat.summarizing': '_جارٍ تلخيص **{filename}**..._',
+  'chat.documentReady': '**{filename}** جاهز.',
+
+  'connection.offline': 'أنت غير متصل. ستُرسل الرسائل والملفات عند عودة الاتصال.',
+  'connection.offlineQueued': {
+    one: 'أنت غير متصل. سيُرسل عنصر واحد في الانتظار عند عودة الاتصال.',
+    two: 'أنت غير متصل. سيُرسل عنصران في الانتظار عند عودة الاتصال.',
+    few: 'أنت غير متصل. ستُرسل {count} عناصر في الانتظار عند عودة الاتصال.',
+    many: 'أنت غير متصل. سيُرسل {count} عنصرًا في الانتظار عند عودة الاتصال.',
+    other: 'أنت غير متصل. سيُرسل {count} عنصر في الانتظار عند عودة الاتصال.',
+  },
+  'connection.retrying': {
+    one: 'تعذّر الوصول إلى الخادم. إعادة محاولة إرسال عنصر واحد خلال {seconds} ث.',
+    two: 'تعذّر الوصول إلى الخادم. إعادة محاولة إرسال عنصرين خلال {seconds} ث.',
+    few: 'تعذّر الوصول إلى الخادم. إعادة محاولة إرسال {count} عناصر خلال {seconds} ث.',
+    many: 'تعذّر الوصول إلى الخادم. إعادة محاولة إرسال {count} عنصرًا خلال {seconds} ث.',
+    other: 'تعذّر الوصول إلى الخادم. إعادة محاولة إرسال {count} عنصر خلال {seconds} ث.',
+  },
+  'connection.sending': {
+    one: 'عاد الاتصال. جارٍ إرسال عنصر واحد...',
+    two: 'عاد الاتصال. جارٍ إرسال عنصرين...',
+    few: 'عاد الاتصال. جارٍ إرسال {count} عناصر...',
+    many: 'عاد الاتصال. جارٍ إرسال {count} عنصرًا...',
+    other: 'عاد الاتصال. جارٍ إرسال {count} عنصر...',
+  },
+
+  'status.checking': 'جارٍ الفحص',
+  'status.converting': 'جارٍ التحويل',
+  'status.rejected': 'مرفوض',
+  'status.queued': 'في الانتظار',
+  'status.offline': 'غير متصل',
+  'status.uploading': 'جارٍ الرفع',
+  'status.processing': 'قيد المعالجة',
+  'status.ready': 'جاهز',
+  'status.failed': 'فشل',
+
+  'upload.checkingFiles': {
+    one: 'جارٍ فحص ملف واحد...',
+    two: 'جارٍ فحص ملفين...',
+    few: 'جارٍ فحص {count} ملفات...',
+    many: 'جارٍ فحص {count} ملفًا...',
+    other: 'جارٍ فحص {count} ملف...',
+  },
+  'upload.preparingFiles': {
+    one: 'جارٍ تجهيز ملف واحد...',
+    two: 'جارٍ تجهيز ملفين...',
+    few: 'جارٍ تجهيز {count} ملفات...',
+    many: 'جارٍ تجهيز {count} ملفًا...',
+    other: 'جارٍ تجهيز {count} ملف...',
+  },
+  'upload.uploadingFiles': {
+    one: 'جارٍ رفع ملف واحد...',
+    two: 'جارٍ رفع ملفين...',
+    few: 'جارٍ رفع {count} ملفات...',
+    many: 'جارٍ رفع {count} ملفًا...',
+    other: 'جارٍ رفع {count} ملف...',
+  },
+  'upload.processingFiles': {
+    one: 'جارٍ معالجة ملف واحد...',
+    two: 'جارٍ معالجة ملفين...',
+    few: 'جارٍ معالجة {count} ملفات...',
+    many: 'جارٍ معالجة {count} ملفًا...',
+    other: 'جارٍ معالجة {count} ملف...',
+  },
+  'upload.waitingFiles': {
+    one: 'ملف واحد بانتظار الاتصال',
+    two: 'ملفان بانتظار الاتصال',
+    few: '{count} ملفات بانتظار الاتصال',
+    many: '{count} ملفًا بانتظار الاتصال',
+    other: '{count} ملف بانتظار الاتصال',
+  },
+  'upload.waitingHint': 'سيُرفع عند عودة الاتصال',
+  'upload.progress': 'تم رفع {percent}',
+  'upload.failed': 'فشل الرفع',
+  'upload.failedWithReason': 'فشل الرفع: {reason}',
+  'upload.failedTryAgain': 'فشل الرفع. يرجى المحاولة مرة أخرى.',
+  'upload.processingFailed': 'فشلت المعالجة',
+  'upload.processingTimedOut': 'انتهت مهلة المعالجة',
+  'upload.tooLarge': '"{filename}" كبير جدًا',
+  'upload.resume': 'استئناف الرفع',
+  'upload.tryAgain': 'حاول مرة أخرى',
+  'upload.view': 'عرض {filename}',
+  'upload.retry': 'إعادة محاولة {filename}',
+  'upload.cancel': 'إلغاء رفع {filename}',
+  'upload.remove': 'إزالة {filename} من القائمة',
+
+  'upload.pdf.title': 'رفع ملفات PDF',
+  'upload.pdf.hint': 'انقر لاختيار مستند PDF أو أكثر',
+  'upload.pdf.formats': 'ملفات PDF فقط',
+
+  'upload.audio.title': 'رفع ملف صوتي',
+  'upload.audio.hint': 'انقر لاختيار ملف صوتي',
+  'upload.audio.record': 'التسجيل من الميكروفون',
+  'upload.audio.formats': 'MP3 وWAV وغيرها • الحد الأقصى {size}',
+  'upload.audio.uploading': 'جارٍ رفع ملفك الصوتي...',
+  'upload.audio.transcribing': 'جارٍ تفريغ الصوت',
+  'upload.audio.transcribingHint': 'جارٍ تحويل الكلام إلى نص...',
+  'upload.audio.transcribed': 'تم التفريغ بنجاح',
+  'upload.audio.viewTranscript': 'عرض النص',
+  'upload.audio.uploadNew': 'رفع ملف جديد',
+  'upload.audio.processingFailedDetail': 'فشلت معالجة الصوت. يرجى المحاولة مرة أخرى بملف مختلف.',
+  'upload.audio.timeout': 'انتهت مهلة المعالجة. يرجى المحاولة مرة أخرى.',
+  'upload.audio.tooLargeHint': 'يرجى اختيار ملف أصغر من {size}.',
+  'upload.audio.notAudio': '"{filename}" ليس ملفًا صوتيًا',
+  'upload.audio.notAudioHint': 'يرجى اختيار ملف صوتي.',
+  'upload.audio.busy': 'تتم معالجة ملف صوتي بالفعل',
+  'upload.audio.busyHint': 'انتظر حتى ينتهي، ثم أضف "{filename}" مرة أخرى.',
+  'upload.audio.oneAtATime': 'تُرفع الملفات الصوتية واحدًا تلو الآخر',
+  'upload.audio.oneAtATimeHint': 'جارٍ رفع "{filename}". أضف البقية بعد انتهائه.',
+
+  'upload.text.title': 'رفع المستندات',
+  'upload.text.hint': 'انقر لاختيار ملفات Word أو نصوص أو صفحات ويب أو كتب إلكترونية',
+  'upload.text.converted': '{format} · {size} من النص',
+  'upload.text.unsupported': 'لا تُقبل هنا إلا ملفات {formats}.',
+  'upload.text.conversionFailed': 'تعذّر تحويل الملف إلى نص.',
+
+  'pdf.pages': {
+    one: 'صفحة واحدة',
+    two: 'صفحتان',
+    few: '{count} صفحات',
+    many: '{count} صفحة',
+    other: '{count} صفحة',
+  },
+  'pdf.text': 'نص',
+  'pdf.scanned': 'ممسوح ضوئيًا',
+
+  'preflight.empty': 'الملف فارغ.',
+  'preflight.tooLarge': 'حجم الملف {size}، والحد الأقصى {limit}.',
+  'preflight.notPdf': 'لا يبدو أن هذا ملف PDF.',
+  'preflight.noTextLayer': 'لا توجد طبقة نص. يبدو أنه ملف PDF ممسوح ضوئيًا، لذا قد تغفل الإجابات عن محتواه.',
+  'preflight.manyPages': 'عدد الصفحات {count}. قد تستغرق المعالجة عدة دقائق.',
+  'preflight.passwordProtected': 'ملف PDF هذا محمي بكلمة مرور. أزل كلمة المرور ثم ارفعه مرة أخرى.',
+  'preflight.damaged': 'ملف PDF هذا تالف ولا يمكن قراءته.',
+  'preflight.unchecked': 'تعذّر فحص الملف قبل رفعه.',
+
+  'recorder.paused': 'متوقف مؤقتًا',
+  'recorder.recording': 'جارٍ التسجيل...',
+  'recorder.waiting': 'بانتظار الميكروفون...',
+  'recorder.pause': 'إيقاف مؤقت',
+  'recorder.resume': 'استئناف',
+  'recorder.stop': 'إيقاف',
+  'recorder.upload': 'رفع',
+  'recorder.rerecord': 'إعادة التسجيل',
+  'recorder.discard': 'تجاهل',
+  'recorder.tooLarge': 'هذا التسجيل أكبر من أن يُرفع. يرجى تسجيل مقطع أقصر.',
+  'recorder.error.denied': 'تم رفض الوصول إلى الميكروفون. اسمح به في إعدادات المتصفح للتسجيل.',
+  'recorder.error.notFound': 'لم يُعثر على ميكروفون.',
+  'recorder.error.inUse': 'يستخدم تطبيق آخر الميكروفون.',
+  'recorder.error.failed': 'تعذّر بدء التسجيل.',
+  'recorder.error.unsupported': 'التسجيل غير مدعوم في هذا المتصفح.',
+
+  'dropZone.title': 'أفلت الملفات لرفعها',
+  'dropZone.unsupported': 'لا يمكن رفع {names}',
+  'dropZone.supportedFormats': 'الصيغ المدعومة: {formats}.',
+
+  'urlImport.placeholder': 'الصق رابطًا لصفحة ويب أو ملف PDF أو ملف صوتي',
+  'urlImport.label': 'الرابط المراد استيراده',
+  'urlImport.submit': 'استيراد',
+  'urlImport.invalid': 'أدخل عنوان ويب يبدأ بـ http:// أو https://',
+  'urlImport.failed': 'تعذّر استيراد الرابط.',
+  'urlImport.fetching': 'جارٍ الجلب...',
+  'urlImport.added': 'أُضيف بوصفه {type} "{filename}" · {status}',
+  'urlImport.cancel': 'إلغاء استيراد {filename}',
+  'urlImport.type.pdf': 'PDF',
+  'urlImport.type.audio': 'ملفًا صوتيًا',
+  'urlImport.type.text': 'صفحة ويب',
+
+  'errors.network': 'خطأ في الشبكة. تحقّق من اتصالك وحاول مرة أخرى.',
+  'errors.timeout': 'استغرق الخادم وقتًا طويلًا للرد.',
+  'errors.cancelled': 'أُلغي الطلب.',
+  'errors.auth': 'غير مسموح لك بذلك. يرجى تسجيل الدخول مرة أخرى.',
+  'errors.quota': 'طلبات كثيرة جدًا. يرجى الانتظار قليلًا.',
+  'errors.rejected': 'رفض الخادم الطلب.',
+  'errors.notFound': 'تعذّر العثور عليه. ربما تمت إزالته.',
+  'errors.tooLarge': 'الملف أكبر مما يقبله الخادم.',
+  'errors.unsupportedType': 'لا يقبل الخادم هذا النوع من الملفات.',
+  'errors.server': 'واجه الخادم مشكلة. يرجى المحاولة مرة أخرى.',
+
+  'export.exportedAt': 'صُدّرت في {date}',
+  'export.documents': 'المستندات',
+  'export.sources': 'المصادر',
+  'export.you': 'أنت',
+  'export.assistant': 'المساعد',
+
+  'citations.page': 'ص. {page}',
+
+  'conversion.damaged': 'الملف تالف ولا يمكن قراءته.',
+  'conversion.unsupportedCompression': 'يستخدم الملف طريقة ضغط غير مدعومة.',
+  'conversion.notWord': 'هذا ليس مستند Word.',
+  'conversion.notEpub': 'هذا ليس كتاب EPUB صالحًا.',
+  'conversion.noText': 'لم يُعثر على نص في هذا الملف.',
+
+  'library.title': 'مكتبة المستندات',
+  'library.refresh': 'تحديث المستندات',
+  'library.loading': 'جارٍ تحميل المستندات...',
+  'library.empty': 'لا توجد مستندات بعد. ارفع ملف PDF أو ملفًا صوتيًا للبدء.',
+  'library.answeringFromAll': 'الإجابة من جميع المستندات',
+  'library.answeringFromSelected': {
+    one: 'الإجابة من مستند واحد محدد',
+    two: 'الإجابة من مستندين محددين',
+    few: 'الإجابة من {count} مستندات محددة',
+    many: 'الإجابة من {count} مستندًا محددًا',
+    other: 'الإجابة من {count} مستند محدد',
+  },
+  'library.selectAll': 'تحديد الكل',
+  'library.clearSelection': 'مسح التحديد',
+  'library.useForAnswers': 'استخدام {filename} للإجابة عن الأسئلة',
+  'library.openSource': 'فتح مصدر {filename}',
+  'library.delete': 'حذف {filename}',
+  'library.confirmDelete': 'هل تريد إزالة "{filename}" من مستنداتك؟ لن يُستخدم بعد الآن للإجابة عن الأسئلة.',
+  'library.deleted': 'أُزيل المستند',
+  'library.deleteFailed': 'تعذّرت إزالة المستند',
+
+  'threads.new': 'محادثة جديدة',
+  'threads.confirmDelete': 'هل تريد حذف "{title}"؟ لا يمكن التراجع عن ذلك.',
+  'threads.saveTitle': 'حفظ العنوان',
+  'threads.cancelRename': 'إلغاء إعادة التسمية',
+  'threads.rename': 'إعادة تسمية المحادثة',
+  'threads.delete': 'حذف المحادثة',
+
+  'actions.copy': 'نسخ',
+  'actions.copyMessage': 'نسخ الرسالة',
+  'actions.copyFailed': 'تعذّر النسخ إلى الحافظة',
+  'actions.edit': 'تعديل',
+  'actions.editAndResend': 'تعديل وإعادة الإرسال',
+  'actions.regenerate': 'إعادة التوليد',
+  'actions.regenerateAnswer': 'إعادة توليد الإجابة',
+  'actions.goodAnswer': 'إجابة جيدة',
+  'actions.badAnswer': 'إجابة سيئة',
+
+  'feedback.placeholderUp': 'ما الذي كان مفيدًا؟ (اختياري)',
+  'feedback.placeholderDown': 'ما الخطأ أو الناقص؟ (اختياري)',
+  'feedback.comment': 'تعليق',
+  'feedback.send': 'إرسال الملاحظات',
+  'feedback.thanks': 'شكرًا على ملاحظاتك',
+  'feedback.failed': 'تعذّر إرسال ملاحظاتك',
+
+  'code.label': 'شيفرة',
+  'code.copy': 'نسخ الشيفرة',
+  'code.copied': 'تم النسخ',
+
+  'citations.title': 'المصادر',
+  'citations.relevance': 'الصلة {percent}',
+  'citations.noExcerpt': 'لا يوجد مقتطف',
+  'citations.playFrom': 'تشغيل من {time}',
+  'citations.openTranscript': 'فتح النص المكتوب',
+  'citations.openInViewer': 'فتح في العارض',
+
+  'exportMenu.label': 'تصدير المحادثة أو استيرادها',
+  'exportMenu.markdown': 'تصدير بصيغة Markdown',
+  'exportMenu.json': 'تصدير بصيغة JSON',
+  'exportMenu.print': 'طباعة / حفظ بصيغة PDF',
+  'exportMenu.import': 'استيراد من JSON',
+  'exportMenu.imported': 'اُستوردت المحادثة',
+  'exportMenu.importFailed': 'تعذّر استيراد المحادثة',
+  'exportMenu.importHint': 'يرجى اختيار ملف تصدير محادثة.',
+  'import.invalidJson': 'الملف ليس JSON صالحًا.',
+  'import.notExport': 'الملف ليس تصديرًا لمحادثة.',
+  'import.newerVersion': 'أُنشئ هذا التصدير بإصدار أحدث من التطبيق.',
+  'import.noMessages': 'لا يحتوي التصدير على أي رسائل.',
+
+  'pdfViewer.close': 'إغلاق عارض PDF',
+  'pdfViewer.previousPage': 'الصفحة السابقة',
+  'pdfViewer.nextPage': 'الصفحة التالية',
+  'pdfViewer.pageNumber': 'رقم الصفحة',
+  'pdfViewer.zoomOut': 'تصغير',
+  'pdfViewer.zoomIn': 'تكبير',
+  'pdfViewer.opening': 'جارٍ فتح ملف PDF...',
+  'pdfViewer.openFailed': 'تعذّر فتح ملف PDF هذا.',
+  'pdfViewer.highlightMissing': 'تعذّر تحديد موضع المقطع المقتبس بدقة في هذه الصفحة.',
+
+  'transcript.close': 'إغلاق النص المكتوب',
+  'transcript.loading': 'جارٍ تحميل التسجيل...',
+  'transcript.loadFailed': 'تعذّر تحميل التسجيل.',
+  'transcript.search': 'البحث في النص المكتوب',
+  'transcript.noMatches': 'لا توجد نتائج',
+  'transcript.matchPosition': '{current} من {total}',
+  'transcript.previousMatch': 'النتيجة السابقة',
+  'transcript.nextMatch': 'النتيجة التالية',
+  'transcript.pending': 'سيظهر النص المكتوب هنا بعد انتهاء التفريغ.',
+  'transcript.unavailable': 'لا يتوفر نص مكتوب لهذا التسجيل.',
+
+  'migration.documents': {
+    one: 'مستند واحد',
+    two: 'مستندان',
+    few: '{count} مستندات',
+    many: '{count} مستندًا',
+    other: '{count} مستند',
+  },
+  'migration.chats': {
+    one: 'محادثة واحدة',
+    two: 'محادثتان',
+    few: '{count} محادثات',
+    many: '{count} محادثة',
+    other: '{count} محادثة',
+  },
+  'migration.offerTitle': 'هل تريد الاحتفاظ بعملك السابق؟',
+  'migration.offerBody': 'لديك {content} من قبل تسجيل الدخول.',
+  'migration.move': 'نقل إلى الحساب',
+  'migration.notNow': 'ليس الآن',
+  'migration.moved': 'نُقل إلى حسابك',
+  'migration.failed': 'تعذّر نقل عملك السابق',
+  'migration.tryLater': 'يرجى المحاولة مرة أخرى لاحقًا.',
+
+  'formats.pdf': 'PDF',
+  'formats.audio': 'صوت',
+  'formats.docx': 'DOCX',
+  'formats.txt': 'TXT',
+  'formats.markdown': 'Markdown',
+  'formats.html': 'HTML',
+  'formats.csv': 'CSV',
+  'formats.epub': 'EPUB',
+}
+
+export default ar
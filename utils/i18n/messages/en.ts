@@ -0,0 +1,357 @@
+// utils/i18n/messages/en.ts
+
+/**
+ * English messages, the source catalog every other locale translates
+ * Keys are grouped by the part of the UI they belong to. Messages that
+ * depend on a count have one form per plural category, and can add a
+ * `zero` form for a count of exactly 0.
+ */
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+export type Message = string | PluralMessage
+
+const en = {
+  'app.name': 'AI Document Assistant',
+  'header.getStarted': 'Get Started',
+  'header.welcomeBack': 'Welcome back!',
+  'footer.copyright': '© {year} DocAI. All rights reserved.',
+  'language.label': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Please try again.',
+
+  'auth.requiredTitle': 'Authentication Required',
+  'auth.requiredBody': 'Please sign in to {action}',
+  'auth.loginTitle': 'Login Required',
+  'auth.loginBody': 'Please login or sign up to {action}',
+  'auth.signIn': 'Sign In',
+  'auth.action.chat': 'chat with documents',
+  'auth.action.uploadFiles': 'upload files',
+  'auth.action.uploadPdf': 'upload PDF files',
+  'auth.action.uploadAudio': 'upload audio files',
+  'auth.action.recordAudio': 'record audio',
+  'auth.action.uploadDocuments': 'upload documents',
+  'auth.action.importLinks': 'import links',
+  'auth.action.deleteDocuments': 'delete documents',
+
+  'info.title': 'Upload Status',
+  'info.pdf': 'PDF files are processed for text extraction',
+  'info.audio': 'Audio files are transcribed automatically',
+  'info.text': 'Word, text, HTML, CSV and EPUB files are converted to text in your browser',
+  'info.dragDrop': 'Drag files anywhere on this panel or paste them to upload',
+  'info.links': 'Paste a link to import a web page or an online PDF or audio file',
+  'info.chat': 'Chat with all uploaded content types',
+
+  'chat.title': 'AI Assistant',
+  'chat.subtitle': 'Ask about your uploaded files',
+  'chat.welcomeTitle': "Hello! I'm your AI Assistant",
+  'chat.welcomeBody': 'Upload PDFs or audio files, then ask me anything about their content',
+  'chat.featurePdf': 'PDF Support',
+  'chat.featureAudio': 'Audio Transcription',
+  'chat.hideConversations': 'Hide conversations',
+  'chat.showConversations': 'Show conversations',
+  'chat.placeholder': 'Ask about your documents...',
+  'chat.placeholderPending': 'Type your next question...',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop generating',
+  'chat.hint': 'Press Enter to send • Shift + Enter for new line',
+  'chat.hintPending': 'Press Stop to cancel the answer',
+  'chat.answeringFromSelection': {
+    one: 'Answering from {count} selected document',
+    other: 'Answering from {count} selected documents',
+  },
+  'chat.thinking': 'Thinking...',
+  'chat.queued': "Will send when you're back online",
+  'chat.editMessage': 'Edit message',
+  'chat.editWarning': 'Later messages in this conversation will be replaced.',
+  'chat.noAnswer': 'Sorry, I could not generate a response.',
+  'chat.stopped': '_Stopped._',
+  'chat.interrupted': '[Response interrupted. Please try again.]',
+  'chat.stoppedBeforeAnswer': '_Stopped before an answer arrived._',
+  'chat.genericError': 'Sorry, something went wrong. Please try again.',
+  'chat.queuedFailed': 'This question could not be sent. Please try again.',
+  'chat.summarizing': '_Summarizing **{filename}**..._',
+  'chat.documentReady': '**{filename}** is ready.',
+
+  'connection.offline': "You're offline. Messages and uploads will be sent when the connection returns.",
+  'connection.offlineQueued': {
+    one: "You're offline. {count} queued item will be sent when the connection returns.",
+    other: "You're offline. {count} queued items will be sent when the connection returns.",
+  },
+  'connection.retrying': {
+    one: "Couldn't reach the server. Retrying {count} queued item in {seconds}s.",
+    other: "Couldn't reach the server. Retrying {count} queued items in {seconds}s.",
+  },
+  'connection.sending': {
+    one: 'Back online. Sending {count} queued item...',
+    other: 'Back online. Sending {count} queued items...',
+  },
+
+  'status.checking': 'Checking',
+  'status.converting': 'Converting',
+  'status.rejected': 'Rejected',
+  'status.queued': 'Queued',
+  'status.offline': 'Offline',
+  'status.uploading': 'Uploading',
+  'status.processing': 'Processing',
+  'status.ready': 'Ready',
+  'status.failed': 'Failed',
+
+  'upload.checkingFiles': {
+    one: 'Checking {count} file...',
+    other: 'Checking {count} files...',
+  },
+  'upload.preparingFiles': {
+    one: 'Preparing {count} file...',
+    other: 'Preparing {count} files...',
+  },
+  'upload.uploadingFiles': {
+    one: 'Uploading {count} file...',
+    other: 'Uploading {count} files...',
+  },
+  'upload.processingFiles': {
+    one: 'Processing {count} file...',
+    other: 'Processing {count} files...',
+  },
+  'upload.waitingFiles': {
+    one: '{count} file waiting for a connection',
+    other: '{count} files waiting for a connection',
+  },
+  'upload.waitingHint': "Will upload when you're back online",
+  'upload.progress': '{percent} uploaded',
+  'upload.failed': 'Upload failed',
+  'upload.failedWithReason': 'Upload failed: {reason}',
+  'upload.failedTryAgain': 'Upload failed. Please try again.',
+  'upload.processingFailed': 'Processing failed',
+  'upload.processingTimedOut': 'Processing timed out',
+  'upload.tooLarge': '"{filename}" is too large',
+  'upload.resume': 'Resume Upload',
+  'upload.tryAgain': 'Try Again',
+  'upload.view': 'View {filename}',
+  'upload.retry': 'Retry {filename}',
+  'upload.cancel': 'Cancel upload of {filename}',
+  'upload.remove': 'Remove {filename} from list',
+
+  'upload.pdf.title': 'Upload PDFs',
+  'upload.pdf.hint': 'Click to select one or more PDF documents',
+  'upload.pdf.formats': 'PDF files only',
+
+  'upload.audio.title': 'Upload Audio',
+  'upload.audio.hint': 'Click to select audio file',
+  'upload.audio.record': 'Record from microphone',
+  'upload.audio.formats': 'MP3, WAV, etc. • Max {size}',
+  'upload.audio.uploading': 'Uploading your audio file...',
+  'upload.audio.transcribing': 'Transcribing Audio',
+  'upload.audio.transcribingHint': 'Converting speech to text...',
+  'upload.audio.transcribed': 'Transcribed successfully',
+  'upload.audio.viewTranscript': 'View Transcript',
+  'upload.audio.uploadNew': 'Upload New',
+  'upload.audio.processingFailedDetail': 'Audio processing failed. Please try again with a different file.',
+  'upload.audio.timeout': 'Processing timeout. Please try again.',
+  'upload.audio.tooLargeHint': 'Please select a file smaller than {size}.',
+  'upload.audio.notAudio': '"{filename}" is not an audio file',
+  'upload.audio.notAudioHint': 'Please select an audio file.',
+  'upload.audio.busy': 'An audio file is already being processed',
+  'upload.audio.busyHint': 'Wait for it to finish, then add "{filename}" again.',
+  'upload.audio.oneAtATime': 'Audio files are uploaded one at a time',
+  'upload.audio.oneAtATimeHint': 'Uploading "{filename}". Add the others once it\'s done.',
+
+  'upload.text.title': 'Upload Documents',
+  'upload.text.hint': 'Click to select Word, text, web pages or e-books',
+  'upload.text.converted': '{format} · {size} of text',
+  'upload.text.unsupported': 'Only {formats} files are supported here.',
+  'upload.text.conversionFailed': 'The file could not be converted to text.',
+
+  'pdf.pages': {
+    one: '{count} page',
+    other: '{count} pages',
+  },
+  'pdf.text': 'text',
+  'pdf.scanned': 'scanned',
+
+  'preflight.empty': 'The file is empty.',
+  'preflight.tooLarge': 'The file is {size}; the limit is {limit}.',
+  'preflight.notPdf': "This doesn't look like a PDF file.",
+  'preflight.noTextLayer': 'No text layer found. This looks like a scanned PDF, so answers may miss its content.',
+  'preflight.manyPages': '{count} pages. Processing may take several minutes.',
+  'preflight.passwordProtected': 'This PDF is password protected. Remove the password and upload it again.',
+  'preflight.damaged': 'This PDF is damaged and cannot be read.',
+  'preflight.unchecked': "The file couldn't be checked before upload.",
+
+  'recorder.paused': 'Paused',
+  'recorder.recording': 'Recording...',
+  'recorder.waiting': 'Waiting for microphone...',
+  'recorder.pause': 'Pause',
+  'recorder.resume': 'Resume',
+  'recorder.stop': 'Stop',
+  'recorder.upload': 'Upload',
+  'recorder.rerecord': 'Re-record',
+  'recorder.discard': 'Discard',
+  'recorder.tooLarge': 'This recording is too large to upload. Please record a shorter clip.',
+  'recorder.error.denied': 'Microphone access was denied. Allow it in your browser settings to record.',
+  'recorder.error.notFound': 'No microphone was found.',
+  'recorder.error.inUse': 'The microphone is being used by another application.',
+  'recorder.error.failed': 'Could not start recording.',
+  'recorder.error.unsupported': 'Recording is not supported in this browser.',
+
+  'dropZone.title': 'Drop files to upload',
+  'dropZone.unsupported': "Can't upload {names}",
+  'dropZone.supportedFormats': 'Supported formats: {formats}.',
+
+  'urlImport.placeholder': 'Paste a link to a web page, PDF or audio file',
+  'urlImport.label': 'Link to import',
+  'urlImport.submit': 'Import',
+  'urlImport.invalid': 'Enter a web address starting with http:// or https://',
+  'urlImport.failed': 'The link could not be imported.',
+  'urlImport.fetching': 'Fetching...',
+  'urlImport.added': 'Added as {type} "{filename}" · {status}',
+  'urlImport.cancel': 'Cancel import of {filename}',
+  'urlImport.type.pdf': 'PDF',
+  'urlImport.type.audio': 'audio',
+  'urlImport.type.text': 'web page',
+
+  'errors.network': 'Network error. Check your connection and try again.',
+  'errors.timeout': 'The server took too long to respond.',
+  'errors.cancelled': 'Request cancelled.',
+  'errors.auth': 'You are not allowed to do that. Please sign in again.',
+  'errors.quota': 'Too many requests. Please wait a moment.',
+  'errors.rejected': 'The request was rejected by the server.',
+  'errors.notFound': 'It could not be found. It may have been removed.',
+  'errors.tooLarge': 'The file is larger than the server accepts.',
+  'errors.unsupportedType': "The server doesn't accept this type of file.",
+  'errors.server': 'The server ran into a problem. Please try again.',
+
+  'export.exportedAt': 'Exported {date}',
+  'export.documents': 'Documents',
+  'export.sources': 'Sources',
+  'export.you': 'You',
+  'export.assistant': 'Assistant',
+
+  'citations.page': 'p. {page}',
+
+  'conversion.damaged': 'The file is damaged and cannot be read.',
+  'conversion.unsupportedCompression': 'The file uses an unsupported compression method.',
+  'conversion.notWord': "This isn't a Word document.",
+  'conversion.notEpub': "This isn't a valid EPUB book.",
+  'conversion.noText': 'No text found in this file.',
+
+  'library.title': 'Document Library',
+  'library.refresh': 'Refresh documents',
+  'library.loading': 'Loading documents...',
+  'library.empty': 'No documents yet. Upload a PDF or audio file to get started.',
+  'library.answeringFromAll': 'Answering from all documents',
+  'library.answeringFromSelected': {
+    one: 'Answering from {count} selected',
+    other: 'Answering from {count} selected',
+  },
+  'library.selectAll': 'Select all',
+  'library.clearSelection': 'Clear selection',
+  'library.useForAnswers': 'Use {filename} to answer questions',
+  'library.openSource': 'Open the source of {filename}',
+  'library.delete': 'Delete {filename}',
+  'library.confirmDelete': 'Remove "{filename}" from your documents? It will no longer be used to answer questions.',
+  'library.deleted': 'Document removed',
+  'library.deleteFailed': 'Could not remove document',
+
+  'threads.new': 'New chat',
+  'threads.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'threads.saveTitle': 'Save title',
+  'threads.cancelRename': 'Cancel rename',
+  'threads.rename': 'Rename chat',
+  'threads.delete': 'Delete chat',
+
+  'actions.copy': 'Copy',
+  'actions.copyMessage': 'Copy message',
+  'actions.copyFailed': 'Could not copy to the clipboard',
+  'actions.edit': 'Edit',
+  'actions.editAndResend': 'Edit and resend',
+  'actions.regenerate': 'Regenerate',
+  'actions.regenerateAnswer': 'Regenerate answer',
+  'actions.goodAnswer': 'Good answer',
+  'actions.badAnswer': 'Bad answer',
+
+  'feedback.placeholderUp': 'What was helpful? (optional)',
+  'feedback.placeholderDown': 'What was wrong or missing? (optional)',
+  'feedback.comment': 'Feedback comment',
+  'feedback.send': 'Send feedback',
+  'feedback.thanks': 'Thanks for the feedback',
+  'feedback.failed': 'Could not send your feedback',
+
+  'code.label': 'code',
+  'code.copy': 'Copy code',
+  'code.copied': 'Copied',
+
+  'citations.title': 'Sources',
+  'citations.relevance': 'Relevance {percent}',
+  'citations.noExcerpt': 'No excerpt available',
+  'citations.playFrom': 'Play from {time}',
+  'citations.openTranscript': 'Open transcript',
+  'citations.openInViewer': 'Open in viewer',
+
+  'exportMenu.label': 'Export or import conversation',
+  'exportMenu.markdown': 'Export as Markdown',
+  'exportMenu.json': 'Export as JSON',
+  'exportMenu.print': 'Print / Save as PDF',
+  'exportMenu.import': 'Import from JSON',
+  'exportMenu.imported': 'Conversation imported',
+  'exportMenu.importFailed': 'Could not import conversation',
+  'exportMenu.importHint': 'Please choose a conversation export file.',
+  'import.invalidJson': 'The file is not valid JSON.',
+  'import.notExport': 'The file is not a conversation export.',
+  'import.newerVersion': 'This export was made by a newer version of the app.',
+  'import.noMessages': 'The export contains no messages.',
+
+  'pdfViewer.close': 'Close PDF viewer',
+  'pdfViewer.previousPage': 'Previous page',
+  'pdfViewer.nextPage': 'Next page',
+  'pdfViewer.pageNumber': 'Page number',
+  'pdfViewer.zoomOut': 'Zoom out',
+  'pdfViewer.zoomIn': 'Zoom in',
+  'pdfViewer.opening': 'Opening PDF...',
+  'pdfViewer.openFailed': 'This PDF could not be opened.',
+  'pdfViewer.highlightMissing': "The cited passage couldn't be located exactly on this page.",
+
+  'transcript.close': 'Close transcript',
+  'transcript.loading': 'Loading recording...',
+  'transcript.loadFailed': 'The recording could not be loaded.',
+  'transcript.search': 'Search transcript',
+  'transcript.noMatches': 'No matches',
+  'transcript.matchPosition': '{current} of {total}',
+  'transcript.previousMatch': 'Previous match',
+  'transcript.nextMatch': 'Next match',
+  'transcript.pending': 'The transcript will appear here once transcription finishes.',
+  'transcript.unavailable': 'No transcript is available for this recording.',
+
+  'migration.documents': {
+    one: '{count} document',
+    other: '{count} documents',
+  },
+  'migration.chats': {
+    one: '{count} chat',
+    other: '{count} chats',
+  },
+  'migration.offerTitle': 'Keep your earlier work?',
+  'migration.offerBody': 'You have {content} from before you signed in.',
+  'migration.move': 'Move to account',
+  'migration.notNow': 'Not now',
+  'migration.moved': 'Moved to your account',
+  'migration.failed': 'Could not move your earlier work',
+  'migration.tryLater': 'Please try again later.',
+
+  'formats.pdf': 'PDF',
+  'formats.audio': 'audio',
+  'formats.docx': 'DOCX',
+  'formats.txt': 'TXT',
+  'formats.markdown': 'Markdown',
+  'formats.html': 'HTML',
+  'formats.csv': 'CSV',
+  'formats.epub': 'EPUB',
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+export type Catalog = Record<MessageKey, Message>
+
+export default en
@@ -0,0 +1,344 @@
+// utils/i18n/messages/es.ts
+
+import type { Catalog } from './en'
+
+const es: Catalog = {
+  'app.name': 'Asistente de documentos con IA',
+  'header.getStarted': 'Empezar',
+  'header.welcomeBack': '¡Hola de nuevo!',
+  'footer.copyright': '© {year} DocAI. Todos los derechos reservados.',
+  'language.label': 'Idioma',
+
+  'common.cancel': 'Cancelar',
+  'common.retry': 'Reintentar',
+  'common.tryAgain': 'Inténtalo de nuevo.',
+
+  'auth.requiredTitle': 'Inicio de sesión necesario',
+  'auth.requiredBody': 'Inicia sesión para {action}',
+  'auth.loginTitle': 'Inicio de sesión necesario',
+  'auth.loginBody': 'Inicia sesión o regístrate para {action}',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.action.chat': 'chatear con tus documentos',
+  'auth.action.uploadFiles': 'subir archivos',
+  'auth.action.uploadPdf': 'subir archivos PDF',
+  'auth.action.uploadAudio': 'subir archivos de audio',
+  'auth.action.recordAudio': 'grabar audio',
+  'auth.action.uploadDocuments': 'subir documentos',
+  'auth.action.importLinks': 'importar enlaces',
+  'auth.action.deleteDocuments': 'eliminar documentos',
+
+  'info.title': 'Estado de las subidas',
+  'info.pdf': 'Se extrae el texto de los archivos PDF',
+  'info.audio': 'Los archivos de audio se transcriben automáticamente',
+  'info.text': 'Los archivos de Word, texto, HTML, CSV y EPUB se convierten a texto en tu navegador',
+  'info.dragDrop': 'Arrastra archivos a cualquier parte de este panel o pégalos para subirlos',
+  'info.links': 'Pega un enlace para importar una página web o un PDF o audio en línea',
+  'info.chat': 'Chatea con todos los tipos de contenido subidos',
+
+  'chat.title': 'Asistente de IA',
+  'chat.subtitle': 'Pregunta sobre tus archivos subidos',
+  'chat.welcomeTitle': '¡Hola! Soy tu asistente de IA',
+  'chat.welcomeBody': 'Sube archivos PDF o de audio y pregúntame lo que quieras sobre su contenido',
+  'chat.featurePdf': 'Compatible con PDF',
+  'chat.featureAudio': 'Transcripción de audio',
+  'chat.hideConversations': 'Ocultar conversaciones',
+  'chat.showConversations': 'Mostrar conversaciones',
+  'chat.placeholder': 'Pregunta sobre tus documentos...',
+  'chat.placeholderPending': 'Escribe tu siguiente pregunta...',
+  'chat.send': 'Enviar',
+  'chat.stop': 'Detener la respuesta',
+  'chat.hint': 'Pulsa Intro para enviar • Mayús + Intro para una nueva línea',
+  'chat.hintPending': 'Pulsa Detener para cancelar la respuesta',
+  'chat.answeringFromSelection': {
+    one: 'Respondiendo a partir de {count} documento seleccionado',
+    other: 'Respondiendo a partir de {count} documentos seleccionados',
+  },
+  'chat.thinking': 'Pensando...',
+  'chat.queued': 'Se enviará cuando vuelvas a tener conexión',
+  'chat.editMessage': 'Editar mensaje',
+  'chat.editWarning': 'Los mensajes posteriores de esta conversación se reemplazarán.',
+  'chat.noAnswer': 'Lo siento, no he podido generar una respuesta.',
+  'chat.stopped': '_Detenido._',
+  'chat.interrupted': '[Respuesta interrumpida. Inténtalo de nuevo.]',
+  'chat.stoppedBeforeAnswer': '_Detenido antes de recibir una respuesta._',
+  'chat.genericError': 'Lo siento, algo ha fallado. Inténtalo de nuevo.',
+  'chat.queuedFailed': 'No se ha podido enviar esta pregunta. Inténtalo de nuevo.',
+  'chat.summarizing': '_Resumiendo **{filename}**..._',
+  'chat.documentReady': '**{filename}** está listo.',
+
+  'connection.offline': 'Sin conexión. Los mensajes y las subidas se enviarán cuando vuelva la conexión.',
+  'connection.offlineQueued': {
+    one: 'Sin conexión. {count} elemento en cola se enviará cuando vuelva la conexión.',
+    other: 'Sin conexión. {count} elementos en cola se enviarán cuando vuelva la conexión.',
+  },
+  'connection.retrying': {
+    one: 'No se pudo contactar con el servidor. Reintentando {count} elemento en cola en {seconds} s.',
+    other: 'No se pudo contactar con el servidor. Reintentando {count} elementos en cola en {seconds} s.',
+  },
+  'connection.sending': {
+    one: 'Conexión recuperada. Enviando {count} elemento en cola...',
+    other: 'Conexión recuperada. Enviando {count} elementos en cola...',
+  },
+
+  'status.checking': 'Comprobando',
+  'status.converting': 'Convirtiendo',
+  'status.rejected': 'Rechazado',
+  'status.queued': 'En cola',
+  'status.offline': 'Sin conexión',
+  'status.uploading': 'Subiendo',
+  'status.processing': 'Procesando',
+  'status.ready': 'Listo',
+  'status.failed': 'Error',
+
+  'upload.checkingFiles': {
+    one: 'Comprobando {count} archivo...',
+    other: 'Comprobando {count} archivos...',
+  },
+  'upload.preparingFiles': {
+    one: 'Preparando {count} archivo...',
+    other: 'Preparando {count} archivos...',
+  },
+  'upload.uploadingFiles': {
+    one: 'Subiendo {count} archivo...',
+    other: 'Subiendo {count} archivos...',
+  },
+  'upload.processingFiles': {
+    one: 'Procesando {count} archivo...',
+    other: 'Procesando {count} archivos...',
+  },
+  'upload.waitingFiles': {
+    one: '{count} archivo esperando conexión',
+    other: '{count} archivos esperando conexión',
+  },
+  'upload.waitingHint': 'Se subirá cuando vuelvas a tener conexión',
+  'upload.progress': '{percent} subido',
+  'upload.failed': 'Error al subir',
+  'upload.failedWithReason': 'Error al subir: {reason}',
+  'upload.failedTryAgain': 'Error al subir. Inténtalo de nuevo.',
+  'upload.processingFailed': 'Error al procesar',
+  'upload.processingTimedOut': 'El procesamiento ha tardado demasiado',
+  'upload.tooLarge': '"{filename}" es demasiado grande',
+  'upload.resume': 'Reanudar subida',
+  'upload.tryAgain': 'Intentar de nuevo',
+  'upload.view': 'Ver {filename}',
+  'upload.retry': 'Reintentar {filename}',
+  'upload.cancel': 'Cancelar la subida de {filename}',
+  'upload.remove': 'Quitar {filename} de la lista',
+
+  'upload.pdf.title': 'Subir PDF',
+  'upload.pdf.hint': 'Haz clic para seleccionar uno o varios documentos PDF',
+  'upload.pdf.formats': 'Solo archivos PDF',
+
+  'upload.audio.title': 'Subir audio',
+  'upload.audio.hint': 'Haz clic para seleccionar un archivo de audio',
+  'upload.audio.record': 'Grabar con el micrófono',
+  'upload.audio.formats': 'MP3, WAV, etc. • Máx. {size}',
+  'upload.audio.uploading': 'Subiendo tu archivo de audio...',
+  'upload.audio.transcribing': 'Transcribiendo audio',
+  'upload.audio.transcribingHint': 'Convirtiendo la voz en texto...',
+  'upload.audio.transcribed': 'Transcrito correctamente',
+  'upload.audio.viewTranscript': 'Ver transcripción',
+  'upload.audio.uploadNew': 'Subir otro',
+  'upload.audio.processingFailedDetail': 'No se pudo procesar el audio. Inténtalo de nuevo con otro archivo.',
+  'upload.audio.timeout': 'El procesamiento ha tardado demasiado. Inténtalo de nuevo.',
+  'upload.audio.tooLargeHint': 'Selecciona un archivo de menos de {size}.',
+  'upload.audio.notAudio': '"{filename}" no es un archivo de audio',
+  'upload.audio.notAudioHint': 'Selecciona un archivo de audio.',
+  'upload.audio.busy': 'Ya se está procesando un archivo de audio',
+  'upload.audio.busyHint': 'Espera a que termine y vuelve a añadir "{filename}".',
+  'upload.audio.oneAtATime': 'Los archivos de audio se suben de uno en uno',
+  'upload.audio.oneAtATimeHint': 'Subiendo "{filename}". Añade los demás cuando termine.',
+
+  'upload.text.title': 'Subir documentos',
+  'upload.text.hint': 'Haz clic para seleccionar Word, texto, páginas web o libros electrónicos',
+  'upload.text.converted': '{format} · {size} de texto',
+  'upload.text.unsupported': 'Aquí solo se admiten archivos {formats}.',
+  'upload.text.conversionFailed': 'No se pudo convertir el archivo a texto.',
+
+  'pdf.pages': {
+    one: '{count} página',
+    other: '{count} páginas',
+  },
+  'pdf.text': 'texto',
+  'pdf.scanned': 'escaneado',
+
+  'preflight.empty': 'El archivo está vacío.',
+  'preflight.tooLarge': 'El archivo ocupa {size}; el límite es {limit}.',
+  'preflight.notPdf': 'No parece un archivo PDF.',
+  'preflight.noTextLayer': 'No tiene capa de texto. Parece un PDF escaneado, así que las respuestas pueden omitir su contenido.',
+  'preflight.manyPages': '{count} páginas. El procesamiento puede tardar varios minutos.',
+  'preflight.passwordProtected': 'Este PDF está protegido con contraseña. Quítala y vuelve a subirlo.',
+  'preflight.damaged': 'Este PDF está dañado y no se puede leer.',
+  'preflight.unchecked': 'No se pudo comprobar el archivo antes de subirlo.',
+
+  'recorder.paused': 'En pausa',
+  'recorder.recording': 'Grabando...',
+  'recorder.waiting': 'Esperando al micrófono...',
+  'recorder.pause': 'Pausar',
+  'recorder.resume': 'Reanudar',
+  'recorder.stop': 'Detener',
+  'recorder.upload': 'Subir',
+  'recorder.rerecord': 'Volver a grabar',
+  'recorder.discard': 'Descartar',
+  'recorder.tooLarge': 'Esta grabación es demasiado grande para subirla. Graba un fragmento más corto.',
+  'recorder.error.denied': 'Se denegó el acceso al micrófono. Permítelo en la configuración del navegador para grabar.',
+  'recorder.error.notFound': 'No se encontró ningún micrófono.',
+  'recorder.error.inUse': 'Otra aplicación está usando el micrófono.',
+  'recorder.error.failed': 'No se pudo iniciar la grabación.',
+  'recorder.error.unsupported': 'Este navegador no permite grabar.',
+
+  'dropZone.title': 'Suelta los archivos para subirlos',
+  'dropZone.unsupported': 'No se puede subir {names}',
+  'dropZone.supportedFormats': 'Formatos admitidos: {formats}.',
+
+  'urlImport.placeholder': 'Pega un enlace a una página web, un PDF o un archivo de audio',
+  'urlImport.label': 'Enlace para importar',
+  'urlImport.submit': 'Importar',
+  'urlImport.invalid': 'Introduce una dirección web que empiece por http:// o https://',
+  'urlImport.failed': 'No se pudo importar el enlace.',
+  'urlImport.fetching': 'Descargando...',
+  'urlImport.added': 'Añadido como {type} "{filename}" · {status}',
+  'urlImport.cancel': 'Cancelar la importación de {filename}',
+  'urlImport.type.pdf': 'PDF',
+  'urlImport.type.audio': 'audio',
+  'urlImport.type.text': 'página web',
+
+  'errors.network': 'Error de red. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.timeout': 'El servidor ha tardado demasiado en responder.',
+  'errors.cancelled': 'Solicitud cancelada.',
+  'errors.auth': 'No tienes permiso para hacer eso. Vuelve a iniciar sesión.',
+  'errors.quota': 'Demasiadas solicitudes. Espera un momento.',
+  'errors.rejected': 'El servidor ha rechazado la solicitud.',
+  'errors.notFound': 'No se ha encontrado. Puede que se haya eliminado.',
+  'errors.tooLarge': 'El archivo supera el tamaño que acepta el servidor.',
+  'errors.unsupportedType': 'El servidor no acepta este tipo de archivo.',
+  'errors.server': 'El servidor ha tenido un problema. Inténtalo de nuevo.',
+
+  'export.exportedAt': 'Exportado el {date}',
+  'export.documents': 'Documentos',
+  'export.sources': 'Fuentes',
+  'export.you': 'Tú',
+  'export.assistant': 'Asistente',
+
+  'citations.page': 'pág. {page}',
+
+  'conversion.damaged': 'El archivo está dañado y no se puede leer.',
+  'conversion.unsupportedCompression': 'El archivo usa un método de compresión no compatible.',
+  'conversion.notWord': 'Esto no es un documento de Word.',
+  'conversion.notEpub': 'Esto no es un libro EPUB válido.',
+  'conversion.noText': 'No se encontró texto en este archivo.',
+
+  'library.title': 'Biblioteca de documentos',
+  'library.refresh': 'Actualizar documentos',
+  'library.loading': 'Cargando documentos...',
+  'library.empty': 'Todavía no hay documentos. Sube un PDF o un archivo de audio para empezar.',
+  'library.answeringFromAll': 'Respondiendo con todos los documentos',
+  'library.answeringFromSelected': {
+    one: 'Respondiendo con {count} seleccionado',
+    other: 'Respondiendo con {count} seleccionados',
+  },
+  'library.selectAll': 'Seleccionar todo',
+  'library.clearSelection': 'Borrar selección',
+  'library.useForAnswers': 'Usar {filename} para responder preguntas',
+  'library.openSource': 'Abrir el origen de {filename}',
+  'library.delete': 'Eliminar {filename}',
+  'library.confirmDelete': '¿Quitar "{filename}" de tus documentos? Ya no se usará para responder preguntas.',
+  'library.deleted': 'Documento eliminado',
+  'library.deleteFailed': 'No se pudo eliminar el documento',
+
+  'threads.new': 'Nuevo chat',
+  'threads.confirmDelete': '¿Eliminar "{title}"? Esta acción no se puede deshacer.',
+  'threads.saveTitle': 'Guardar título',
+  'threads.cancelRename': 'Cancelar cambio de nombre',
+  'threads.rename': 'Cambiar nombre del chat',
+  'threads.delete': 'Eliminar chat',
+
+  'actions.copy': 'Copiar',
+  'actions.copyMessage': 'Copiar mensaje',
+  'actions.copyFailed': 'No se pudo copiar al portapapeles',
+  'actions.edit': 'Editar',
+  'actions.editAndResend': 'Editar y reenviar',
+  'actions.regenerate': 'Regenerar',
+  'actions.regenerateAnswer': 'Regenerar respuesta',
+  'actions.goodAnswer': 'Buena respuesta',
+  'actions.badAnswer': 'Mala respuesta',
+
+  'feedback.placeholderUp': '¿Qué fue útil? (opcional)',
+  'feedback.placeholderDown': '¿Qué estuvo mal o faltó? (opcional)',
+  'feedback.comment': 'Comentario',
+  'feedback.send': 'Enviar comentario',
+  'feedback.thanks': 'Gracias por tu comentario',
+  'feedback.failed': 'No se pudo enviar tu comentario',
+
+  'code.label': 'código',
+  'code.copy': 'Copiar código',
+  'code.copied': 'Copiado',
+
+  'citations.title': 'Fuentes',
+  'citations.relevance': 'Relevancia {percent}',
+  'citations.noExcerpt': 'No hay fragmento disponible',
+  'citations.playFrom': 'Reproducir desde {time}',
+  'citations.openTranscript': 'Abrir transcripción',
+  'citations.openInViewer': 'Abrir en el visor',
+
+  'exportMenu.label': 'Exportar o importar conversación',
+  'exportMenu.markdown': 'Exportar como Markdown',
+  'exportMenu.json': 'Exportar como JSON',
+  'exportMenu.print': 'Imprimir / Guardar como PDF',
+  'exportMenu.import': 'Importar desde JSON',
+  'exportMenu.imported': 'Conversación importada',
+  'exportMenu.importFailed': 'No se pudo importar la conversación',
+  'exportMenu.importHint': 'Elige un archivo de exportación de conversación.',
+  'import.invalidJson': 'El archivo no es un JSON válido.',
+  'import.notExport': 'El archivo no es una exportación de conversación.',
+  'import.newerVersion': 'Esta exportación se hizo con una versión más reciente de la aplicación.',
+  'import.noMessages': 'La exportación no contiene mensajes.',
+
+  'pdfViewer.close': 'Cerrar visor de PDF',
+  'pdfViewer.previousPage': 'Página anterior',
+  'pdfViewer.nextPage': 'Página siguiente',
+  'pdfViewer.pageNumber': 'Número de página',
+  'pdfViewer.zoomOut': 'Alejar',
+  'pdfViewer.zoomIn': 'Acercar',
+  'pdfViewer.opening': 'Abriendo PDF...',
+  'pdfViewer.openFailed': 'No se pudo abrir este PDF.',
+  'pdfViewer.highlightMissing': 'No se pudo localizar exactamente el pasaje citado en esta página.',
+
+  'transcript.close': 'Cerrar transcripción',
+  'transcript.loading': 'Cargando grabación...',
+  'transcript.loadFailed': 'No se pudo cargar la grabación.',
+  'transcript.search': 'Buscar en la transcripción',
+  'transcript.noMatches': 'Sin coincidencias',
+  'transcript.matchPosition': '{current} de {total}',
+  'transcript.previousMatch': 'Coincidencia anterior',
+  'transcript.nextMatch': 'Coincidencia siguiente',
+  'transcript.pending': 'La transcripción aparecerá aquí cuando termine.',
+  'transcript.unavailable': 'No hay transcripción disponible para esta grabación.',
+
+  'migration.documents': {
+    one: '{count} documento',
+    other: '{count} documentos',
+  },
+  'migration.chats': {
+    one: '{count} chat',
+    other: '{count} chats',
+  },
+  'migration.offerTitle': '¿Conservar tu trabajo anterior?',
+  'migration.offerBody': 'Tienes {content} de antes de iniciar sesión.',
+  'migration.move': 'Mover a la cuenta',
+  'migration.notNow': 'Ahora no',
+  'migration.moved': 'Movido a tu cuenta',
+  'migration.failed': 'No se pudo mover tu trabajo anterior',
+  'migration.tryLater': 'Inténtalo de nuevo más tarde.',
+
+  'formats.pdf': 'PDF',
+  'formats.audio': 'audio',
+  'formats.docx': 'DOCX',
+  'formats.txt': 'TXT',
+  'formats.markdown': 'Markdown',
+  'formats.html': 'HTML',
+  'formats.csv': 'CSV',
+  'formats.epub': 'EPUB',
+}
+
+export default es
@@ -0,0 +1,344 @@
+// utils/i18n/messages/ur.ts
+
+import type { Catalog } from './en'
+
+const ur: Catalog = {
+  'app.name': 'اے آئی دستاویزی معاون',
+  'header.getStarted': 'شروع کریں',
+  'header.welcomeBack': 'خوش آمدید!',
+  'footer.copyright': '© {year} DocAI۔ جملہ حقوق محفوظ ہیں۔',
+  'language.label': 'زبان',
+
+  'common.cancel': 'منسوخ کریں',
+  'common.retry': 'دوبارہ کوشش کریں',
+  'common.tryAgain': 'براہ کرم دوبارہ کوشش کریں۔',
+
+  'auth.requiredTitle': 'سائن ان ضروری ہے',
+  'auth.requiredBody': '{action} کے لیے براہ کرم سائن ان کریں',
+  'auth.loginTitle': 'لاگ ان ضروری ہے',
+  'auth.loginBody': '{action} کے لیے براہ کرم لاگ ان کریں یا سائن اپ کریں',
+  'auth.signIn': 'سائن ان',
+  'auth.action.chat': 'دستاویزات سے گفتگو',
+  'auth.action.uploadFiles': 'فائلیں اپ لوڈ کرنے',
+  'auth.action.uploadPdf': 'PDF فائلیں اپ لوڈ کرنے',
+  'auth.action.uploadAudio': 'آڈیو فائلیں اپ لوڈ کرنے',
+  'auth.action.recordAudio': 'آڈیو ریکارڈ کرنے',
+  'auth.action.uploadDocuments': 'دستاویزات اپ لوڈ کرنے',
+  'auth.action.importLinks': 'لنکس درآمد کرنے',
+  'auth.action.deleteDocuments': 'دستاویزات حذف کرنے',
+
+  'info.title': 'اپ لوڈ کی صورتحال',
+  'info.pdf': 'PDF فائلوں سے متن نکالا جاتا ہے',
+  'info.audio': 'آڈیو فائلیں خود بخود تحریر میں بدلی جاتی ہیں',
+  'info.text': 'Word، ٹیکسٹ، HTML، CSV اور EPUB فائلیں آپ کے براؤزر میں متن میں بدلی جاتی ہیں',
+  'info.dragDrop': 'اپ لوڈ کرنے کے لیے فائلیں اس پینل پر کہیں بھی گھسیٹیں یا پیسٹ کریں',
+  'info.links': 'ویب صفحہ یا آن لائن PDF یا آڈیو فائل درآمد کرنے کے لیے لنک پیسٹ کریں',
+  'info.chat': 'اپ لوڈ کیے گئے ہر قسم کے مواد سے گفتگو کریں',
+
+  'chat.title': 'اے آئی معاون',
+  'chat.subtitle': 'اپنی اپ لوڈ کی گئی فائلوں کے بارے میں پوچھیں',
+  'chat.welcomeTitle': 'السلام علیکم! میں آپ کا اے آئی معاون ہوں',
+  'chat.welcomeBody': 'PDF یا آڈیو فائلیں اپ لوڈ کریں، پھر ان کے مواد کے بارے میں کچھ بھی پوچھیں',
+  'chat.featurePdf': 'PDF کی سہولت',
+  'chat.featureAudio': 'آڈیو سے تحریر',
+  'chat.hideConversations': 'گفتگوئیں چھپائیں',
+  'chat.showConversations': 'گفتگوئیں دکھائیں',
+  'chat.placeholder': 'اپنی دستاویزات کے بارے میں پوچھیں...',
+  'chat.placeholderPending': 'اپنا اگلا سوال لکھیں...',
+  'chat.send': 'بھیجیں',
+  'chat.stop': 'جواب روکیں',
+  'chat.hint': 'بھیجنے کے لیے Enter دبائیں • نئی لائن کے لیے Shift + Enter',
+  'chat.hintPending': 'جواب منسوخ کرنے کے لیے روکیں دبائیں',
+  'chat.answeringFromSelection': {
+    one: '{count} منتخب دستاویز سے جواب دیا جا رہا ہے',
+    other: '{count} منتخب دستاویزات سے جواب دیا جا رہا ہے',
+  },
+  'chat.thinking': 'سوچ رہا ہوں...',
+  'chat.queued': 'کنکشن بحال ہونے پر بھیجا جائے گا',
+  'chat.editMessage': 'پیغام میں ترمیم کریں',
+  'chat.editWarning': 'اس گفتگو کے بعد والے پیغامات بدل دیے جائیں گے۔',
+  'chat.noAnswer': 'معذرت، میں جواب تیار نہیں کر سکا۔',
+  'chat.stopped': '_روک دیا گیا۔_',
+  'chat.interrupted': '[جواب منقطع ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔]',
+  'chat.stoppedBeforeAnswer': '_جواب آنے سے پہلے روک دیا گیا۔_',
+  'chat.genericError': 'معذرت، کچھ غلط ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'chat.queuedFailed': 'یہ سوال نہیں بھیجا جا سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'chat.summarizing': '_**{filename}** کا خلاصہ تیار ہو رہا ہے..._',
+  'chat.documentReady': '**{filename}** تیار ہے۔',
+
+  'connection.offline': 'آپ آف لائن ہیں۔ پیغامات اور اپ لوڈز کنکشن بحال ہونے پر بھیجے جائیں گے۔',
+  'connection.offlineQueued': {
+    one: 'آپ آف لائن ہیں۔ قطار میں موجود {count} آئٹم کنکشن بحال ہونے پر بھیجا جائے گا۔',
+    other: 'آپ آف لائن ہیں۔ قطار میں موجود {count} آئٹمز کنکشن بحال ہونے پر بھیجے جائیں گے۔',
+  },
+  'connection.retrying': {
+    one: 'سرور تک رسائی نہیں ہو سکی۔ {count} آئٹم {seconds} سیکنڈ میں دوبارہ بھیجا جائے گا۔',
+    other: 'سرور تک رسائی نہیں ہو سکی۔ {count} آئٹمز {seconds} سیکنڈ میں دوبارہ بھیجے جائیں گے۔',
+  },
+  'connection.sending': {
+    one: 'کنکشن بحال ہو گیا۔ {count} آئٹم بھیجا جا رہا ہے...',
+    other: 'کنکشن بحال ہو گیا۔ {count} آئٹمز بھیجے جا رہے ہیں...',
+  },
+
+  'status.checking': 'جانچ جاری',
+  'status.converting': 'تبدیلی جاری',
+  'status.rejected': 'مسترد',
+  'status.queued': 'قطار میں',
+  'status.offline': 'آف لائن',
+  'status.uploading': 'اپ لوڈ جاری',
+  'status.processing': 'پروسیسنگ جاری',
+  'status.ready': 'تیار',
+  'status.failed': 'ناکام',
+
+  'upload.checkingFiles': {
+    one: '{count} فائل کی جانچ ہو رہی ہے...',
+    other: '{count} فائلوں کی جانچ ہو رہی ہے...',
+  },
+  'upload.preparingFiles': {
+    one: '{count} فائل تیار کی جا رہی ہے...',
+    other: '{count} فائلیں تیار کی جا رہی ہیں...',
+  },
+  'upload.uploadingFiles': {
+    one: '{count} فائل اپ لوڈ ہو رہی ہے...',
+    other: '{count} فائلیں اپ لوڈ ہو رہی ہیں...',
+  },
+  'upload.processingFiles': {
+    one: '{count} فائل پروسیس ہو رہی ہے...',
+    other: '{count} فائلیں پروسیس ہو رہی ہیں...',
+  },
+  'upload.waitingFiles': {
+    one: '{count} فائل کنکشن کی منتظر ہے',
+    other: '{count} فائلیں کنکشن کی منتظر ہیں',
+  },
+  'upload.waitingHint': 'کنکشن بحال ہونے پر اپ لوڈ ہو گی',
+  'upload.progress': '{percent} اپ لوڈ ہو گیا',
+  'upload.failed': 'اپ لوڈ ناکام',
+  'upload.failedWithReason': 'اپ لوڈ ناکام: {reason}',
+  'upload.failedTryAgain': 'اپ لوڈ ناکام ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'upload.processingFailed': 'پروسیسنگ ناکام',
+  'upload.processingTimedOut': 'پروسیسنگ کا وقت ختم ہو گیا',
+  'upload.tooLarge': '"{filename}" بہت بڑی ہے',
+  'upload.resume': 'اپ لوڈ جاری رکھیں',
+  'upload.tryAgain': 'دوبارہ کوشش کریں',
+  'upload.view': '{filename} دیکھیں',
+  'upload.retry': '{filename} دوبارہ آزمائیں',
+  'upload.cancel': '{filename} کا اپ لوڈ منسوخ کریں',
+  'upload.remove': '{filename} کو فہرست سے ہٹائیں',
+
+  'upload.pdf.title': 'PDF اپ لوڈ کریں',
+  'upload.pdf.hint': 'ایک یا زیادہ PDF دستاویزات منتخب کرنے کے لیے کلک کریں',
+  'upload.pdf.formats': 'صرف PDF فائلیں',
+
+  'upload.audio.title': 'آڈیو اپ لوڈ کریں',
+  'upload.audio.hint': 'آڈیو فائل منتخب کرنے کے لیے کلک کریں',
+  'upload.audio.record': 'مائیکروفون سے ریکارڈ کریں',
+  'upload.audio.formats': 'MP3، WAV وغیرہ • زیادہ سے زیادہ {size}',
+  'upload.audio.uploading': 'آپ کی آڈیو فائل اپ لوڈ ہو رہی ہے...',
+  'upload.audio.transcribing': 'آڈیو کو تحریر میں بدلا جا رہا ہے',
+  'upload.audio.transcribingHint': 'آواز کو متن میں بدلا جا رہا ہے...',
+  'upload.audio.transcribed': 'کامیابی سے تحریر میں بدل دیا گیا',
+  'upload.audio.viewTranscript': 'تحریر دیکھیں',
+  'upload.audio.uploadNew': 'نئی فائل اپ لوڈ کریں',
+  'upload.audio.processingFailedDetail': 'آڈیو پروسیسنگ ناکام ہو گئی۔ براہ کرم کسی دوسری فائل کے ساتھ دوبارہ کوشش کریں۔',
+  'upload.audio.timeout': 'پروسیسنگ کا وقت ختم ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'upload.audio.tooLargeHint': 'براہ کرم {size} سے چھوٹی فائل منتخب کریں۔',
+  'upload.audio.notAudio': '"{filename}" آڈیو فائل نہیں ہے',
+  'upload.audio.notAudioHint': 'براہ کرم آڈیو فائل منتخب کریں۔',
+  'upload.audio.busy': 'ایک آڈیو فائل پہلے ہی پروسیس ہو رہی ہے',
+  'upload.audio.busyHint': 'اس کے مکمل ہونے کا انتظار کریں، پھر "{filename}" دوبارہ شامل کریں۔',
+  'upload.audio.oneAtATime': 'آڈیو فائلیں ایک ایک کر کے اپ لوڈ ہوتی ہیں',
+  'upload.audio.oneAtATimeHint': '"{filename}" اپ لوڈ ہو رہی ہے۔ اس کے بعد باقی فائلیں شامل کریں۔',
+
+  'upload.text.title': 'دستاویزات اپ لوڈ کریں',
+  'upload.text.hint': 'Word، ٹیکسٹ، ویب صفحات یا ای بکس منتخب کرنے کے لیے کلک کریں',
+  'upload.text.converted': '{format} · {size} متن',
+  'upload.text.unsupported': 'یہاں صرف {formats} فائلیں قبول کی جاتی ہیں۔',
+  'upload.text.conversionFailed': 'فائل کو متن میں نہیں بدلا جا سکا۔',
+
+  'pdf.pages': {
+    one: '{count} صفحہ',
+    other: '{count} صفحات',
+  },
+  'pdf.text': 'متن',
+  'pdf.scanned': 'اسکین شدہ',
+
+  'preflight.empty': 'فائل خالی ہے۔',
+  'preflight.tooLarge': 'فائل کا سائز {size} ہے؛ حد {limit} ہے۔',
+  'preflight.notPdf': 'یہ PDF فائل معلوم نہیں ہوتی۔',
+  'preflight.noTextLayer': 'متن کی تہہ نہیں ملی۔ یہ اسکین شدہ PDF لگتی ہے، اس لیے جوابات میں اس کا مواد رہ سکتا ہے۔',
+  'preflight.manyPages': '{count} صفحات۔ پروسیسنگ میں کئی منٹ لگ سکتے ہیں۔',
+  'preflight.passwordProtected': 'یہ PDF پاس ورڈ سے محفوظ ہے۔ پاس ورڈ ہٹا کر دوبارہ اپ لوڈ کریں۔',
+  'preflight.damaged': 'یہ PDF خراب ہے اور پڑھی نہیں جا سکتی۔',
+  'preflight.unchecked': 'اپ لوڈ سے پہلے فائل کی جانچ نہیں ہو سکی۔',
+
+  'recorder.paused': 'موقوف',
+  'recorder.recording': 'ریکارڈنگ جاری ہے...',
+  'recorder.waiting': 'مائیکروفون کا انتظار ہے...',
+  'recorder.pause': 'موقوف کریں',
+  'recorder.resume': 'جاری رکھیں',
+  'recorder.stop': 'روکیں',
+  'recorder.upload': 'اپ لوڈ کریں',
+  'recorder.rerecord': 'دوبارہ ریکارڈ کریں',
+  'recorder.discard': 'رد کریں',
+  'recorder.tooLarge': 'یہ ریکارڈنگ اپ لوڈ کے لیے بہت بڑی ہے۔ براہ کرم مختصر کلپ ریکارڈ کریں۔',
+  'recorder.error.denied': 'مائیکروفون تک رسائی مسترد کر دی گئی۔ ریکارڈ کرنے کے لیے براؤزر کی ترتیبات میں اجازت دیں۔',
+  'recorder.error.notFound': 'کوئی مائیکروفون نہیں ملا۔',
+  'recorder.error.inUse': 'مائیکروفون کسی دوسری ایپلیکیشن کے زیر استعمال ہے۔',
+  'recorder.error.failed': 'ریکارڈنگ شروع نہیں ہو سکی۔',
+  'recorder.error.unsupported': 'یہ براؤزر ریکارڈنگ کی سہولت نہیں دیتا۔',
+
+  'dropZone.title': 'اپ لوڈ کرنے کے لیے فائلیں یہاں چھوڑیں',
+  'dropZone.unsupported': '{names} اپ لوڈ نہیں ہو سکتیں',
+  'dropZone.supportedFormats': 'معاون فارمیٹس: {formats}۔',
+
+  'urlImport.placeholder': 'ویب صفحہ، PDF یا آڈیو فائل کا لنک پیسٹ کریں',
+  'urlImport.label': 'درآمد کرنے کے لیے لنک',
+  'urlImport.submit': 'درآمد کریں',
+  'urlImport.invalid': 'ایسا ویب پتہ درج کریں جو http:// یا https:// سے شروع ہو',
+  'urlImport.failed': 'لنک درآمد نہیں ہو سکا۔',
+  'urlImport.fetching': 'حاصل کیا جا رہا ہے...',
+  'urlImport.added': '{type} "{filename}" کے طور پر شامل کیا گیا · {status}',
+  'urlImport.cancel': '{filename} کی درآمد منسوخ کریں',
+  'urlImport.type.pdf': 'PDF',
+  'urlImport.type.audio': 'آڈیو',
+  'urlImport.type.text': 'ویب صفحہ',
+
+  'errors.network': 'نیٹ ورک کی خرابی۔ اپنا کنکشن چیک کریں اور دوبارہ کوشش کریں۔',
+  'errors.timeout': 'سرور نے جواب دینے میں بہت دیر لگا دی۔',
+  'errors.cancelled': 'درخواست منسوخ کر دی گئی۔',
+  'errors.auth': 'آپ کو ایسا کرنے کی اجازت نہیں۔ براہ کرم دوبارہ سائن ان کریں۔',
+  'errors.quota': 'بہت زیادہ درخواستیں۔ براہ کرم تھوڑا انتظار کریں۔',
+  'errors.rejected': 'سرور نے درخواست مسترد کر دی۔',
+  'errors.notFound': 'یہ نہیں ملا۔ شاید اسے ہٹا دیا گیا ہے۔',
+  'errors.tooLarge': 'فائل اس سے بڑی ہے جتنی سرور قبول کرتا ہے۔',
+  'errors.unsupportedType': 'سرور اس قسم کی فائل قبول نہیں کرتا۔',
+  'errors.server': 'سرور کو ایک مسئلہ پیش آیا۔ براہ کرم دوبارہ کوشش کریں۔',
+
+  'export.exportedAt': '{date} کو برآمد کیا گیا',
+  'export.documents': 'دستاویزات',
+  'export.sources': 'ماخذ',
+  'export.you': 'آپ',
+  'export.assistant': 'اسسٹنٹ',
+
+  'citations.page': 'صفحہ {page}',
+
+  'conversion.damaged': 'فائل خراب ہے اور پڑھی نہیں جا سکتی۔',
+  'conversion.unsupportedCompression': 'فائل میں غیر معاون کمپریشن طریقہ استعمال ہوا ہے۔',
+  'conversion.notWord': 'یہ Word دستاویز نہیں ہے۔',
+  'conversion.notEpub': 'یہ درست EPUB کتاب نہیں ہے۔',
+  'conversion.noText': 'اس فائل میں کوئی متن نہیں ملا۔',
+
+  'library.title': 'دستاویزات کی لائبریری',
+  'library.refresh': 'دستاویزات تازہ کریں',
+  'library.loading': 'دستاویزات لوڈ ہو رہی ہیں...',
+  'library.empty': 'ابھی کوئی دستاویز نہیں۔ شروع کرنے کے لیے PDF یا آڈیو فائل اپ لوڈ کریں۔',
+  'library.answeringFromAll': 'تمام دستاویزات سے جواب دیا جا رہا ہے',
+  'library.answeringFromSelected': {
+    one: '{count} منتخب دستاویز سے جواب دیا جا رہا ہے',
+    other: '{count} منتخب دستاویزات سے جواب دیا جا رہا ہے',
+  },
+  'library.selectAll': 'سب منتخب کریں',
+  'library.clearSelection': 'انتخاب صاف کریں',
+  'library.useForAnswers': 'سوالات کے جواب کے لیے {filename} استعمال کریں',
+  'library.openSource': '{filename} کا ماخذ کھولیں',
+  'library.delete': '{filename} حذف کریں',
+  'library.confirmDelete': 'کیا "{filename}" کو اپنی دستاویزات سے ہٹانا ہے؟ یہ آئندہ سوالات کے جواب کے لیے استعمال نہیں ہوگی۔',
+  'library.deleted': 'دستاویز ہٹا دی گئی',
+  'library.deleteFailed': 'دستاویز ہٹائی نہیں جا سکی',
+
+  'threads.new': 'نئی چیٹ',
+  'threads.confirmDelete': 'کیا "{title}" حذف کرنا ہے؟ اسے واپس نہیں کیا جا سکتا۔',
+  'threads.saveTitle': 'عنوان محفوظ کریں',
+  'threads.cancelRename': 'نام بدلنا منسوخ کریں',
+  'threads.rename': 'چیٹ کا نام بدلیں',
+  'threads.delete': 'چیٹ حذف کریں',
+
+  'actions.copy': 'کاپی',
+  'actions.copyMessage': 'پیغام کاپی کریں',
+  'actions.copyFailed': 'کلپ بورڈ پر کاپی نہیں ہو سکا',
+  'actions.edit': 'ترمیم',
+  'actions.editAndResend': 'ترمیم کر کے دوبارہ بھیجیں',
+  'actions.regenerate': 'دوبارہ بنائیں',
+  'actions.regenerateAnswer': 'جواب دوبارہ بنائیں',
+  'actions.goodAnswer': 'اچھا جواب',
+  'actions.badAnswer': 'برا جواب',
+
+  'feedback.placeholderUp': 'کیا مددگار تھا؟ (اختیاری)',
+  'feedback.placeholderDown': 'کیا غلط تھا یا کیا کمی تھی؟ (اختیاری)',
+  'feedback.comment': 'تبصرہ',
+  'feedback.send': 'رائے بھیجیں',
+  'feedback.thanks': 'آپ کی رائے کا شکریہ',
+  'feedback.failed': 'آپ کی رائے بھیجی نہیں جا سکی',
+
+  'code.label': 'کوڈ',
+  'code.copy': 'کوڈ کاپی کریں',
+  'code.copied': 'کاپی ہو گیا',
+
+  'citations.title': 'ماخذ',
+  'citations.relevance': 'مطابقت {percent}',
+  'citations.noExcerpt': 'کوئی اقتباس دستیاب نہیں',
+  'citations.playFrom': '{time} سے چلائیں',
+  'citations.openTranscript': 'ٹرانسکرپٹ کھولیں',
+  'citations.openInViewer': 'ویور میں کھولیں',
+
+  'exportMenu.label': 'گفتگو ایکسپورٹ یا امپورٹ کریں',
+  'exportMenu.markdown': 'Markdown کے طور پر ایکسپورٹ کریں',
+  'exportMenu.json': 'JSON کے طور پر ایکسپورٹ کریں',
+  'exportMenu.print': 'پرنٹ / PDF کے طور پر محفوظ کریں',
+  'exportMenu.import': 'JSON سے امپورٹ کریں',
+  'exportMenu.imported': 'گفتگو امپورٹ ہو گئی',
+  'exportMenu.importFailed': 'گفتگو امپورٹ نہیں ہو سکی',
+  'exportMenu.importHint': 'براہ کرم گفتگو کی ایکسپورٹ فائل منتخب کریں۔',
+  'import.invalidJson': 'فائل درست JSON نہیں ہے۔',
+  'import.notExport': 'فائل گفتگو کی ایکسپورٹ نہیں ہے۔',
+  'import.newerVersion': 'یہ ایکسپورٹ ایپ کے نئے ورژن سے بنائی گئی تھی۔',
+  'import.noMessages': 'ایکسپورٹ میں کوئی پیغام نہیں ہے۔',
+
+  'pdfViewer.close': 'PDF ویور بند کریں',
+  'pdfViewer.previousPage': 'پچھلا صفحہ',
+  'pdfViewer.nextPage': 'اگلا صفحہ',
+  'pdfViewer.pageNumber': 'صفحہ نمبر',
+  'pdfViewer.zoomOut': 'چھوٹا کریں',
+  'pdfViewer.zoomIn': 'بڑا کریں',
+  'pdfViewer.opening': 'PDF کھل رہی ہے...',
+  'pdfViewer.openFailed': 'یہ PDF کھولی نہیں جا سکی۔',
+  'pdfViewer.highlightMissing': 'حوالہ دیا گیا اقتباس اس صفحے پر ٹھیک سے نہیں مل سکا۔',
+
+  'transcript.close': 'ٹرانسکرپٹ بند کریں',
+  'transcript.loading': 'ریکارڈنگ لوڈ ہو رہی ہے...',
+  'transcript.loadFailed': 'ریکارڈنگ لوڈ نہیں ہو سکی۔',
+  'transcript.search': 'ٹرانسکرپٹ میں تلاش کریں',
+  'transcript.noMatches': 'کوئی نتیجہ نہیں',
+  'transcript.matchPosition': '{total} میں سے {current}',
+  'transcript.previousMatch': 'پچھلا نتیجہ',
+  'transcript.nextMatch': 'اگلا نتیجہ',
+  'transcript.pending': 'ٹرانسکرپشن مکمل ہونے پر ٹرانسکرپٹ یہاں ظاہر ہوگا۔',
+  'transcript.unavailable': 'اس ریکارڈنگ کے لیے کوئی ٹرانسکرپٹ دستیاب نہیں۔',
+
+  'migration.documents': {
+    one: '{count} دستاویز',
+    other: '{count} دستاویزات',
+  },
+  'migration.chats': {
+    one: '{count} چیٹ',
+    other: '{count} چیٹس',
+  },
+  'migration.offerTitle': 'کیا اپنا پچھلا کام رکھنا ہے؟',
+  'migration.offerBody': 'آپ کے پاس سائن ان سے پہلے کی {content} ہیں۔',
+  'migration.move': 'اکاؤنٹ میں منتقل کریں',
+  'migration.notNow': 'ابھی نہیں',
+  'migration.moved': 'آپ کے اکاؤنٹ میں منتقل ہو گیا',
+  'migration.failed': 'آپ کا پچھلا کام منتقل نہیں ہو سکا',
+  'migration.tryLater': 'براہ کرم بعد میں دوبارہ کوشش کریں۔',
+
+  'formats.pdf': 'PDF',
+  'formats.audio': 'آڈیو',
+  'formats.docx': 'DOCX',
+  'formats.txt': 'TXT',
+  'formats.markdown': 'Markdown',
+  'formats.html': 'HTML',
+  'formats.csv': 'CSV',
+  'formats.epub': 'EPUB',
+}
+
+export default ur
@@ -0,0 +1,295 @@
+'use client';
+// utils/offlineQueue.ts
+
+/**
+ * Chat messages and uploads held back while the browser is offline
+ * Features:
+ * - Persisted in IndexedDB (files included), with an in-memory fallback
+ * - Replayed in order once the connection returns, with exponential backoff
+ * - Items are tied to the session they were queued in and only replay there
+ * - Uploads replay on their own; chat messages replay through the chat, which
+ *   registers a handler so the answer streams into the conversation
+ */
+
+import api, { NetworkError, TimeoutError } from './api';
+import type { DocumentType } from './api/types';
+import { notifyDocumentAdded, notifyQueuedUploadSettled } from './documentEvents';
+import sessionManager, { SESSION_CHANGED_EVENT } from './session';
+
+export interface QueuedChatMessage {
+  kind: 'chat'
+  id: string
+  sessionId: string
+  queuedAt: number
+  threadId: string
+  // The user message already shown in the thread
+  messageId: string
+  question: string
+  documentIds: string[]
+}
+
+export interface QueuedUpload {
+  kind: 'upload'
+  id: string
+  sessionId: string
+  queuedAt: number
+  type: DocumentType
+  file: File
+}
+
+export type QueuedItem = QueuedChatMessage | QueuedUpload;
+
+export interface QueueHandler<T extends QueuedItem = QueuedItem> {
+  // Resolves once the item is delivered; a connection error means "try again later"
+  run: (item: T) => Promise<void>
+  // Called when the item is dropped after failing for good
+  onFailed?: (item: T, error: unknown) => void
+}
+
+export interface OfflineQueueSnapshot {
+  items: QueuedItem[]
+  isReplaying: boolean
+  // When the next replay attempt is due, after a failed one
+  nextRetryAt: number | null
+}
+
+type Listener = () => void;
+
+const DB_NAME = 'documind_offline';
+const STORE_NAME = 'queue';
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+let snapshot: OfflineQueueSnapshot = { items: [], isReplaying: false, nextRetryAt: null };
+const listeners = new Set<Listener>();
+const handlers = new Map<QueuedItem['kind'], QueueHandler>();
+// Failed attempts per item since it was queued
+const attempts = new Map<string, number>();
+let loadPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const emit = (patch: Partial<OfflineQueueSnapshot>): void => {
+  snapshot = { ...snapshot, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The connection itself failed, as opposed to the server rejecting the request
+export const isConnectionError = (error: unknown): boolean =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  (error instanceof NetworkError && !(error instanceof TimeoutError));
+
+const retryDelay = (attempt: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+
+// ----- Persistence -----
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  dbPromise ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ Offline queue storage unavailable, keeping it in memory:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('⚠️ Offline queue storage unavailable, keeping it in memory:', error);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+};
+
+// Run one request against the queue store; storage failures only cost persistence
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    try {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ Offline queue storage failed:', request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.warn('⚠️ Offline queue storage failed:', error);
+      resolve(undefined);
+    }
+  });
+};
+
+const isQueuedItem = (value: unknown): value is QueuedItem => {
+  const item = value as Partial<QueuedItem> | null;
+  if (!item || typeof item.id !== 'string' || typeof item.sessionId !== 'string') return false;
+  if (item.kind === 'chat') return typeof item.threadId === 'string' && typeof item.question === 'string';
+  if (item.kind === 'upload') return item.file instanceof Blob;
+  return false;
+};
+
+const load = (): Promise<void> => {
+  loadPromise ??= withStore('readonly', store => store.getAll()).then(stored => {
+    const restored = (stored ?? []).filter(isQueuedItem);
+    if (restored.length === 0) return;
+    console.log(`📥 Restored ${restored.length} queued item(s)`);
+    const known = new Set(snapshot.items.map(item => item.id));
+    const items = [...restored.filter(item => !known.has(item.id)), ...snapshot.items]
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+    emit({ items });
+  });
+  return loadPromise;
+};
+
+const add = async (item: QueuedItem): Promise<void> => {
+  emit({ items: [...snapshot.items, item] });
+  await withStore('readwrite', store => store.put(item));
+};
+
+const remove = async (id: string): Promise<void> => {
+  attempts.delete(id);
+  if (snapshot.items.some(item => item.id === id)) {
+    emit({ items: snapshot.items.filter(item => item.id !== id) });
+  }
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// ----- Replay -----
+
+const clearRetry = (): void => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (snapshot.nextRetryAt !== null) emit({ nextRetryAt: null });
+};
+
+// The next item this session can deliver, oldest first
+const nextItem = (): QueuedItem | undefined => {
+  const sessionId = sessionManager.getSessionId();
+  return snapshot.items.find(item => item.sessionId === sessionId && handlers.has(item.kind));
+};
+
+const replay = async (): Promise<void> => {
+  if (snapshot.isReplaying || retryTimer || typeof navigator === 'undefined' || !navigator.onLine) return;
+  await load();
+  if (snapshot.isReplaying || !nextItem()) return;
+
+  emit({ isReplaying: true });
+  try {
+    for (let item = nextItem(); item && navigator.onLine; item = nextItem()) {
+      const handler = handlers.get(item.kind)!;
+      try {
+        console.log(`🔁 Replaying queued ${item.kind}:`, item.id);
+        await handler.run(item);
+        await remove(item.id);
+      } catch (error) {
+        const attempt = (attempts.get(item.id) ?? 0) + 1;
+        if (isConnectionError(error) && attempt < MAX_ATTEMPTS) {
+          attempts.set(item.id, attempt);
+          const delay = retryDelay(attempt);
+          console.warn(`📡 Replay failed, retrying in ${delay}ms`, error);
+          retryTimer = setTimeout(() => {
+            retryTimer = null;
+            emit({ nextRetryAt: null });
+            void replay();
+          }, delay);
+          emit({ nextRetryAt: Date.now() + delay });
+          return;
+        }
+        console.error(`❌ Dropping queued ${item.kind} after ${attempt} attempt(s):`, error);
+        await remove(item.id);
+        handler.onFailed?.(item, error);
+      }
+    }
+  } finally {
+    emit({ isReplaying: false });
+  }
+};
+
+// Uploads need no UI to replay; the card that queued them listens for the outcome
+handlers.set('upload', {
+  run: async item => {
+    const upload = item as QueuedUpload;
+    const result = await api.uploadFile(upload.type, upload.file);
+    notifyDocumentAdded({ type: upload.type, filename: result.filename ?? upload.file.name });
+    notifyQueuedUploadSettled({ queueId: upload.id, type: upload.type, filename: upload.file.name });
+  },
+  onFailed: (item, error) => {
+    const upload = item as QueuedUpload;
+    notifyQueuedUploadSettled({
+      queueId: upload.id,
+      type: upload.type,
+      filename: upload.file.name,
+      error: error ?? new Error('Upload failed'),
+    });
+  },
+});
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    console.log('🌐 Back online, replaying queued items');
+    // Connectivity just came back, so don't wait out an old backoff
+    clearRetry();
+    void replay();
+  });
+  // Items queued in the new session may now be deliverable
+  window.addEventListener(SESSION_CHANGED_EVENT, () => {
+    emit({});
+    clearRetry();
+    void replay();
+  });
+}
+
+export const offlineQueue = {
+  getSnapshot: (): OfflineQueueSnapshot => snapshot,
+
+  queueChatMessage: async (message: Omit<QueuedChatMessage, 'kind' | 'id' | 'sessionId' | 'queuedAt'>): Promise<string> => {
+    const id = createId();
+    await add({ ...message, kind: 'chat', id, sessionId: sessionManager.getSessionId(), queuedAt: Date.now() });
+    void replay();
+    return id;
+  },
+
+  queueUpload: async (type: DocumentType, file: File): Promise<string> => {
+    const id = createId();
+    await add({ kind: 'upload', id, sessionId: sessionManager.getSessionId(), queuedAt: Date.now(), type, file });
+    void replay();
+    return id;
+  },
+
+  remove,
+
+  // Lets the chat deliver queued messages; returns a function that unregisters it
+  registerHandler: <K extends QueuedItem['kind']>(
+    kind: K,
+    handler: QueueHandler<Extract<QueuedItem, { kind: K }>>
+  ): (() => void) => {
+    handlers.set(kind, handler as QueueHandler);
+    void replay();
+    return () => {
+      if (handlers.get(kind) === handler) handlers.delete(kind);
+    };
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    void load().then(() => replay());
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default offlineQueue;
@@ -0,0 +1,60 @@
+'use client';
+// utils/pdf.ts
+
+/**
+ * pdf.js helpers shared by the viewer and other client-side PDF features
+ * pdf.js is imported lazily so it never ends up in the server bundle and
+ * only downloads once a PDF is actually opened.
+ */
+
+type PdfjsModule = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfjsModule> | null = null;
+
+export const loadPdfjs = (): Promise<PdfjsModule> => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        'pdfjs-dist/build/pdf.worker.min.mjs',
+        import.meta.url
+      ).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+};
+
+// Collapse whitespace and case so a cited snippet matches the page's text runs
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Only the start of long snippets is matched; models often trim or rephrase the tail
+const MAX_MATCH_LENGTH = 160;
+
+/**
+ * Find which text items of a page contain `snippet`.
+ * Returns the indexes of every item overlapping the first match, or an empty array.
+ */
+export function findSnippetItems(itemStrings: string[], snippet: string): number[] {
+  const needle = normalizeText(snippet).slice(0, MAX_MATCH_LENGTH);
+  if (!needle) return [];
+
+  // Concatenate the items, remembering where each one starts in the haystack
+  let haystack = '';
+  const ranges: Array<{ start: number; end: number }> = [];
+  itemStrings.forEach(str => {
+    const normalized = normalizeText(str);
+    if (haystack && normalized) haystack += ' ';
+    const start = haystack.length;
+    haystack += normalized;
+    ranges.push({ start, end: haystack.length });
+  });
+
+  const matchStart = haystack.indexOf(needle);
+  if (matchStart === -1) return [];
+  const matchEnd = matchStart + needle.length;
+
+  return ranges
+    .map((range, index) => ({ range, index }))
+    .filter(({ range }) => range.end > range.start && range.start < matchEnd && range.end > matchStart)
+    .map(({ index }) => index);
+}
@@ -0,0 +1,134 @@
+'use client';
+// utils/pdfPreflight.ts
+
+/**
+ * Inspects a PDF in the browser before it is uploaded
+ * Features:
+ * - Page count, size and document title
+ * - Detects corrupted and password-protected files, which the server can't process
+ * - Detects scanned, image-only PDFs by sampling the first pages for a text layer
+ * - Blocking problems are errors; the rest are warnings and the upload goes ahead
+ */
+
+import { loadPdfjs } from './pdf';
+
+const MB = 1024 * 1024;
+
+export const MAX_PDF_SIZE_BYTES = (Number(process.env.NEXT_PUBLIC_MAX_PDF_UPLOAD_MB) || 50) * MB;
+// Above this, processing takes long enough to be worth a warning
+export const LARGE_PDF_PAGE_COUNT = Number(process.env.NEXT_PUBLIC_LARGE_PDF_PAGES) || 300;
+
+// Pages checked for a text layer, and the characters per page that count as text
+const TEXT_SAMPLE_PAGES = 3;
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightIssueCode =
+  | 'empty'
+  | 'tooLarge'
+  | 'notPdf'
+  | 'noTextLayer'
+  | 'manyPages'
+  | 'passwordProtected'
+  | 'damaged'
+  | 'unchecked';
+
+export interface PreflightIssue {
+  severity: PreflightSeverity
+  // Stable identifier, so the UI can show the issue in the user's language
+  code: PreflightIssueCode
+  // Figures the issue's message refers to
+  params?: { sizeBytes?: number; limitBytes?: number; pageCount?: number }
+}
+
+export interface PdfInspection {
+  sizeBytes: number
+  // Missing when the file couldn't be opened
+  pageCount?: number
+  title?: string
+  encrypted: boolean
+  // Missing when the file couldn't be opened
+  hasTextLayer?: boolean
+  issues: PreflightIssue[]
+}
+
+export const hasBlockingIssue = (inspection: PdfInspection): boolean =>
+  inspection.issues.some(issue => issue.severity === 'error');
+
+const hasPdfHeader = async (file: File): Promise<boolean> => {
+  const header = await file.slice(0, 1024).text();
+  return header.includes('%PDF-');
+};
+
+export async function inspectPdf(file: File): Promise<PdfInspection> {
+  const inspection: PdfInspection = { sizeBytes: file.size, encrypted: false, issues: [] };
+  const addIssue = (issue: PreflightIssue) => inspection.issues.push(issue);
+
+  if (file.size === 0) {
+    addIssue({ severity: 'error', code: 'empty' });
+    return inspection;
+  }
+  if (file.size > MAX_PDF_SIZE_BYTES) {
+    // Too big to upload, so don't spend memory opening it either
+    addIssue({
+      severity: 'error',
+      code: 'tooLarge',
+      params: { sizeBytes: file.size, limitBytes: MAX_PDF_SIZE_BYTES },
+    });
+    return inspection;
+  }
+  if (!(await hasPdfHeader(file))) {
+    addIssue({ severity: 'error', code: 'notPdf' });
+    return inspection;
+  }
+
+  const pdfjs = await loadPdfjs();
+  const loadingTask = pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+
+  try {
+    const pdf = await loadingTask.promise;
+    inspection.pageCount = pdf.numPages;
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+    const title = (info as { Title?: unknown } | undefined)?.Title;
+    if (typeof title === 'string' && title.trim()) inspection.title = title.trim();
+
+    // Scanned documents have no text to index without OCR
+    const sampled = Math.min(pdf.numPages, TEXT_SAMPLE_PAGES);
+    let textChars = 0;
+    for (let pageNumber = 1; pageNumber <= sampled; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      textChars += content.items.reduce((count, item) => count + ('str' in item ? item.str.trim().length : 0), 0);
+    }
+    inspection.hasTextLayer = textChars >= sampled * MIN_TEXT_CHARS_PER_PAGE;
+
+    if (!inspection.hasTextLayer) {
+      addIssue({ severity: 'warning', code: 'noTextLayer' });
+    }
+    if (pdf.numPages > LARGE_PDF_PAGE_COUNT) {
+      addIssue({
+        severity: 'warning',
+        code: 'manyPages',
+        params: { pageCount: pdf.numPages },
+      });
+    }
+  } catch (err) {
+    const name = err instanceof Error ? err.name : '';
+    if (name === 'PasswordException') {
+      inspection.encrypted = true;
+      addIssue({ severity: 'error', code: 'passwordProtected' });
+    } else if (name === 'InvalidPDFException') {
+      addIssue({ severity: 'error', code: 'damaged' });
+    } else {
+      // Unknown failures shouldn't stop an upload the server may handle fine
+      console.warn('⚠️ PDF inspection failed:', err);
+      addIssue({ severity: 'warning', code: 'unchecked' });
+    }
+  } finally {
+    void loadingTask.destroy();
+  }
+
+  return inspection;
+}
@@ -0,0 +1,50 @@
+'use client';
+// utils/pdfViewerStore.ts
+
+/**
+ * Which PDF the viewer panel shows, and where
+ * Any component (citation chips, upload list, document library) can open a
+ * document at a page, optionally highlighting a cited snippet.
+ */
+
+export interface PdfViewerTarget {
+  filename: string
+  // Document ID used to download the file when it isn't available locally
+  documentId?: string
+  page?: number
+  highlight?: string
+  // Bumped on every request so re-opening the same target still triggers a jump
+  requestId: number
+}
+
+type Listener = () => void;
+
+let target: PdfViewerTarget | null = null;
+let nextRequestId = 1;
+const listeners = new Set<Listener>();
+
+const emit = (next: PdfViewerTarget | null): void => {
+  target = next;
+  listeners.forEach(listener => listener());
+};
+
+export const pdfViewerStore = {
+  getTarget: (): PdfViewerTarget | null => target,
+
+  open: (request: Omit<PdfViewerTarget, 'requestId'>): void => {
+    emit({ ...request, requestId: nextRequestId++ });
+  },
+
+  close: (): void => {
+    emit(null);
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default pdfViewerStore;
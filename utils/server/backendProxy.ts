@@ -0,0 +1,134 @@
+// utils/server/backendProxy.ts
+
+/**
+ * Server-side forwarding from the app's /api routes to the RAG backend
+ * Features:
+ * - Backend address and API key come from server-only env variables
+ * - The authenticated Clerk user ID is injected on every forwarded request
+ * - Responses (including SSE and chunked streams) are piped back unbuffered
+ * - Upload size and MIME type limits enforced before anything reaches the backend
+ * - Answered by the in-memory mock backend when NEXT_PUBLIC_MOCK_BACKEND=true
+ */
+
+import { auth } from '@clerk/nextjs/server'
+import { NextResponse } from 'next/server'
+import type { DocumentType } from '@/utils/api/types'
+import { MOCK_BACKEND_ENABLED, handleMockRequest } from './mockBackend'
+
+const BACKEND_URL = process.env.RAG_BACKEND_URL?.replace(/\/+$/, '')
+const BACKEND_API_KEY = process.env.RAG_BACKEND_API_KEY
+
+const MB = 1024 * 1024
+
+export const MAX_UPLOAD_BYTES: Record<DocumentType, number> = {
+  pdf: Number(process.env.MAX_PDF_UPLOAD_MB || 50) * MB,
+  audio: Number(process.env.MAX_AUDIO_UPLOAD_MB || 50) * MB,
+  text: Number(process.env.MAX_TEXT_UPLOAD_MB || 10) * MB,
+}
+
+// Largest single piece of a chunked upload; the browser sends 2MB chunks
+export const MAX_UPLOAD_CHUNK_BYTES = Number(process.env.MAX_UPLOAD_CHUNK_MB || 8) * MB
+
+const isAllowedMimeType: Record<DocumentType, (mimeType: string) => boolean> = {
+  pdf: mimeType => mimeType === 'application/pdf',
+  audio: mimeType => mimeType.startsWith('audio/') || mimeType === 'video/webm',
+  // Other formats are converted to plain text in the browser before upload
+  text: mimeType => mimeType.startsWith('text/plain'),
+}
+
+// Request headers passed through to the backend
+const FORWARDED_REQUEST_HEADERS = ['x-session-id', 'accept', 'content-type', 'last-event-id']
+
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-disposition', 'content-length', 'retry-after', 'cache-control']
+
+export const jsonError = (status: number, error: string) => NextResponse.json({ error }, { status })
+
+export const isDocumentType = (value: string): value is DocumentType =>
+  value === 'pdf' || value === 'audio' || value === 'text'
+
+// Check a file's size and MIME type against the limits for its upload type; returns an error response when it fails
+export const validateUploadMetadata = (type: DocumentType, size: number, mimeType: string): NextResponse | null => {
+  if (size > MAX_UPLOAD_BYTES[type]) {
+    return jsonError(413, `File is too large. The limit is ${Math.round(MAX_UPLOAD_BYTES[type] / MB)}MB.`)
+  }
+  if (!isAllowedMimeType[type](mimeType)) {
+    return jsonError(415, `Unsupported file type "${mimeType || 'unknown'}" for ${type} uploads.`)
+  }
+  return null
+}
+
+// Check an uploaded file against the limits for its type
+export const validateUpload = (type: DocumentType, file: File): NextResponse | null =>
+  validateUploadMetadata(type, file.size, file.type)
+
+export interface ProxyOptions {
+  // Backend path, starting with "/"
+  path: string
+  method?: string
+  // Replaces the incoming body, e.g. a re-built FormData
+  body?: BodyInit
+}
+
+// Forward `req` to the backend as the signed-in user and stream the answer back
+export async function proxyToBackend(req: Request, options: ProxyOptions): Promise<Response> {
+  if (!BACKEND_URL && !MOCK_BACKEND_ENABLED) {
+    console.error('❌ RAG_BACKEND_URL is not configured')
+    return jsonError(500, 'The document service is not configured.')
+  }
+
+  // The mock keeps documents per session and never needs the user ID
+  if (MOCK_BACKEND_ENABLED) {
+    return handleMockRequest({ req, path: options.path, method: options.method ?? req.method, body: options.body })
+  }
+
+  const { userId } = await auth()
+  if (!userId) return jsonError(401, 'Authentication required')
+
+  const query = new URL(req.url).searchParams.toString()
+  const target = `${BACKEND_URL}${options.path}${query ? `?${query}` : ''}`
+
+  const headers = new Headers()
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = req.headers.get(name)
+    if (value) headers.set(name, value)
+  })
+  // A replaced body sets its own content type (FormData needs its boundary)
+  if (options.body !== undefined) headers.delete('content-type')
+  headers.set('x-user-id', userId)
+  if (BACKEND_API_KEY) headers.set('authorization', `Bearer ${BACKEND_API_KEY}`)
+
+  const method = options.method ?? req.method
+  const hasBody = method !== 'GET' && method !== 'HEAD'
+
+  let upstream: Response
+  try {
+    upstream = await fetch(target, {
+      method,
+      headers,
+      body: hasBody ? options.body ?? req.body : undefined,
+      // Stop the backend work when the browser goes away
+      signal: req.signal,
+      cache: 'no-store',
+      // Required by Node's fetch to send a streamed request body
+      ...(hasBody && options.body === undefined ? { duplex: 'half' } : {}),
+    } as RequestInit)
+  } catch (error) {
+    if (req.signal.aborted) return new Response(null, { status: 499 })
+    console.error(`❌ Backend request failed: ${method} ${options.path}`, error)
+    return jsonError(502, 'The document service is unreachable.')
+  }
+
+  const responseHeaders = new Headers()
+  FORWARDED_RESPONSE_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name)
+    if (value) responseHeaders.set(name, value)
+  })
+  if (upstream.headers.get('content-type')?.includes('text/event-stream')) {
+    // Keep proxies between the browser and this app from buffering the stream
+    responseHeaders.set('cache-control', 'no-cache, no-transform')
+    responseHeaders.set('x-accel-buffering', 'no')
+  }
+
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders })
+}
@@ -0,0 +1,440 @@
+// utils/server/mockBackend.ts
+
+/**
+ * In-memory stand-in for the RAG backend, used when NEXT_PUBLIC_MOCK_BACKEND=true
+ * Features:
+ * - Uploads (single and resumable chunked), per-session status and its event stream,
+ *   delete, file download, summaries, session migration, chat and feedback
+ * - Documents move through processing stages over MOCK_PROCESSING_MS
+ * - Every response is delayed by MOCK_LATENCY_MS
+ * - Scripted failures: filenames or chat messages containing a trigger word
+ *   fail, hang past the client's timeout, or hit the rate limit (see SCRIPTS)
+ * - Streamed canned answers with citations from the session's ready documents
+ */
+
+import type { ChatSource, DocumentType, FileStatus, StatusStreamEvent, TranscriptSegment } from '@/utils/api/types'
+
+export const MOCK_BACKEND_ENABLED = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true'
+
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 300)
+const PROCESSING_MS = Number(process.env.MOCK_PROCESSING_MS || 8000)
+// Share of uploads that fail processing at random, 0-1
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE || 0)
+// Longer than any client timeout, so "timeout" scripts surface as timeouts
+const HANG_MS = 10 * 60 * 1000
+const TOKEN_DELAY_MS = 40
+const STATUS_STREAM_INTERVAL_MS = 1000
+const CHUNK_SIZE = 2 * 1024 * 1024
+
+// Trigger words, matched case-insensitively in filenames and chat messages
+const SCRIPTS = {
+  processingFailure: 'fail',
+  requestError: 'error',
+  timeout: 'timeout',
+  rateLimit: 'quota',
+} as const
+
+const STAGES: Record<DocumentType, string[]> = {
+  pdf: ['extracting text', 'chunking', 'embedding'],
+  audio: ['transcribing', 'chunking', 'embedding'],
+  text: ['chunking', 'embedding'],
+}
+
+interface MockDocument {
+  id: string
+  type: DocumentType
+  filename: string
+  file: Blob
+  uploadedAt: number
+  willFail: boolean
+  sourceUrl?: string
+}
+
+interface MockChunkedUpload {
+  sessionId: string
+  type: DocumentType
+  filename: string
+  size: number
+  mimeType: string
+  chunkSize: number
+  chunks: Map<number, Blob>
+}
+
+// Kept on globalThis so documents survive dev-server hot reloads
+const store = globalThis as typeof globalThis & {
+  __mockSessions?: Map<string, Map<string, MockDocument>>
+  __mockChunkedUploads?: Map<string, MockChunkedUpload>
+}
+const sessions: Map<string, Map<string, MockDocument>> = (store.__mockSessions ??= new Map())
+const chunkedUploads: Map<string, MockChunkedUpload> = (store.__mockChunkedUploads ??= new Map())
+
+const getSession = (sessionId: string): Map<string, MockDocument> => {
+  let session = sessions.get(sessionId)
+  if (!session) {
+    session = new Map()
+    sessions.set(sessionId, session)
+  }
+  return session
+}
+
+const documentKey = (type: DocumentType, filename: string) => `${type}:${filename}`
+
+const matchesScript = (text: string, script: keyof typeof SCRIPTS) =>
+  text.toLowerCase().includes(SCRIPTS[script])
+
+// Index an uploaded file; it then works through the processing stages
+const addDocument = (session: Map<string, MockDocument>, type: DocumentType, file: File, sourceUrl?: string) => {
+  const willFail = matchesScript(file.name, 'processingFailure') || Math.random() < FAILURE_RATE
+  session.set(documentKey(type, file.name), {
+    id: crypto.randomUUID(),
+    type,
+    filename: file.name,
+    file,
+    uploadedAt: Date.now(),
+    willFail,
+    sourceUrl,
+  })
+  console.log(`🧪 Mock upload: ${type} ${file.name}${willFail ? ' (will fail)' : ''}`)
+}
+
+const json = (status: number, body: unknown, headers?: HeadersInit) =>
+  Response.json(body, { status, headers })
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+
+// Scripted failure for a request about `text`, if it contains a trigger word
+const scriptedFailure = async (text: string, signal: AbortSignal): Promise<Response | null> => {
+  if (matchesScript(text, 'timeout')) {
+    await sleep(HANG_MS, signal)
+  }
+  if (matchesScript(text, 'rateLimit')) {
+    return json(429, { error: 'Mock rate limit reached' }, { 'retry-after': '5' })
+  }
+  if (matchesScript(text, 'requestError')) {
+    return json(500, { error: 'Mock server error' })
+  }
+  return null
+}
+
+const MOCK_TRANSCRIPT: TranscriptSegment[] = [
+  { start: 0, end: 6, speaker: 'Speaker 1', text: 'Thanks everyone for joining, let us start with the quarterly numbers.' },
+  { start: 6, end: 14, speaker: 'Speaker 2', text: 'Revenue grew twelve percent, mostly from the new enterprise plan.' },
+  { start: 14, end: 21, speaker: 'Speaker 1', text: 'What about churn? Last quarter it was higher than we wanted.' },
+  { start: 21, end: 30, speaker: 'Speaker 2', text: 'Churn is down to three percent after the onboarding changes.' },
+  { start: 30, end: 38, speaker: 'Speaker 1', text: 'Great. Next steps are the pricing review and the hiring plan.' },
+]
+
+const toStatus = (doc: MockDocument): FileStatus & { transcript?: string; segments?: TranscriptSegment[] } => {
+  const elapsed = Date.now() - doc.uploadedAt
+  const base = { id: doc.id, filename: doc.filename, uploadedAt: doc.uploadedAt, sourceUrl: doc.sourceUrl }
+
+  if (elapsed < PROCESSING_MS) {
+    const progress = Math.round((elapsed / PROCESSING_MS) * 100)
+    const stages = STAGES[doc.type]
+    const stage = stages[Math.min(stages.length - 1, Math.floor((progress / 100) * stages.length))]
+    // Failing documents give up halfway through
+    if (doc.willFail && progress >= 50) {
+      return { ...base, status: 'failed', updatedAt: doc.uploadedAt + PROCESSING_MS / 2 }
+    }
+    return { ...base, status: 'processing', progress, stage, updatedAt: Date.now() }
+  }
+
+  if (doc.willFail) return { ...base, status: 'failed', updatedAt: doc.uploadedAt + PROCESSING_MS / 2 }
+
+  const ready = { ...base, status: 'ready' as const, progress: 100, updatedAt: doc.uploadedAt + PROCESSING_MS }
+  if (doc.type !== 'audio') return ready
+  return {
+    ...ready,
+    transcript: MOCK_TRANSCRIPT.map(segment => `${segment.speaker}: ${segment.text}`).join('\n'),
+    segments: MOCK_TRANSCRIPT,
+  }
+}
+
+const citationsFor = (docs: MockDocument[]): ChatSource[] =>
+  docs.slice(0, 3).map((doc, index): ChatSource => {
+    const score = 0.92 - index * 0.1
+    if (doc.type === 'audio') {
+      return {
+        filename: doc.filename,
+        type: 'audio',
+        startTime: MOCK_TRANSCRIPT[1].start,
+        endTime: MOCK_TRANSCRIPT[1].end,
+        snippet: MOCK_TRANSCRIPT[1].text,
+        score,
+        url: doc.sourceUrl,
+      }
+    }
+    return {
+      filename: doc.filename,
+      type: doc.type,
+      page: doc.type === 'pdf' ? index + 1 : undefined,
+      snippet: `Key findings summarized in ${doc.filename}.`,
+      score,
+      url: doc.sourceUrl,
+    }
+  })
+
+const cannedAnswer = (question: string, docs: MockDocument[]): string => {
+  if (docs.length === 0) {
+    return "I couldn't find any processed documents in this session yet. Upload a PDF or audio file and ask again once it's ready."
+  }
+  const names = docs.map(doc => `\`${doc.filename}\``).join(', ')
+  return [
+    `Here's what I found about **"${question.slice(0, 80)}"** in ${names}:`,
+    '',
+    '1. The documents describe steady growth over the period [1].',
+    '2. Churn fell after the onboarding changes [2].',
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    '| Revenue growth | 12% |',
+    '| Churn | 3% |',
+    '',
+    'The growth rate compounds as $r = (1 + g)^n - 1$.',
+    '',
+    '_This is a mock answer generated for local development._',
+  ].join('\n')
+}
+
+// Stream `answer` as SSE tokens, then the citations and the completion marker
+const streamAnswer = (answer: string, sources: ChatSource[], signal: AbortSignal): Response => {
+  const encoder = new TextEncoder()
+  const words = answer.split(/(?<=\s)/)
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        controller.enqueue(encoder.encode(`event: sources\ndata: ${JSON.stringify({ sources })}\n\n`))
+        for (const word of words) {
+          await sleep(TOKEN_DELAY_MS, signal)
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token: word })}\n\n`))
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+        controller.close()
+      } catch {
+        // The browser disconnected
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(body, { headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' } })
+}
+
+// Push every status change in the session as SSE until the browser disconnects
+const streamStatus = (sessionId: string, signal: AbortSignal): Response => {
+  const encoder = new TextEncoder()
+  let sent = new Map<string, string>()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        while (true) {
+          const events: StatusStreamEvent[] = []
+          const current = new Map<string, string>()
+          for (const [key, doc] of getSession(sessionId)) {
+            const event = { ...toStatus(doc), type: doc.type }
+            // Compare without the timestamp that changes on every tick
+            const fingerprint = JSON.stringify({ ...event, updatedAt: undefined })
+            current.set(key, fingerprint)
+            if (sent.get(key) !== fingerprint) events.push(event)
+          }
+          for (const key of sent.keys()) {
+            if (current.has(key)) continue
+            const [type, ...filename] = key.split(':')
+            events.push({ type: type as DocumentType, filename: filename.join(':'), deleted: true })
+          }
+          sent = current
+
+          // A comment line keeps idle connections from being closed
+          controller.enqueue(encoder.encode(events.length > 0 ? `data: ${JSON.stringify(events)}\n\n` : ': ping\n\n'))
+          await sleep(STATUS_STREAM_INTERVAL_MS, signal)
+        }
+      } catch {
+        // The browser disconnected
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(body, { headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' } })
+}
+
+const chunkedSession = (uploadId: string, upload: MockChunkedUpload) => ({
+  uploadId,
+  chunkSize: upload.chunkSize,
+  receivedChunks: Array.from(upload.chunks.keys()).sort((a, b) => a - b),
+})
+
+// The proxy replaces some request bodies, so read the one it passes along when there is one
+const readJsonBody = async (req: Request, body?: BodyInit) =>
+  body instanceof Blob ? JSON.parse(await body.text()) : req.json()
+
+export interface MockRequest {
+  req: Request
+  path: string
+  method: string
+  body?: BodyInit
+}
+
+export async function handleMockRequest({ req, path, method, body }: MockRequest): Promise<Response> {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get('sessionId') || req.headers.get('x-session-id') || 'anonymous'
+  const session = getSession(sessionId)
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent)
+
+  try {
+    await sleep(LATENCY_MS, req.signal)
+
+    // GET /status/stream
+    if (method === 'GET' && path === '/status/stream') {
+      return streamStatus(sessionId, req.signal)
+    }
+
+    // POST /upload/chunked/init
+    if (method === 'POST' && path === '/upload/chunked/init') {
+      const { type, filename, size, mimeType, chunkSize } = await readJsonBody(req, body)
+      const failure = await scriptedFailure(String(filename), req.signal)
+      if (failure) return failure
+
+      const uploadId = crypto.randomUUID()
+      const upload: MockChunkedUpload = {
+        sessionId,
+        type,
+        filename: String(filename),
+        size: Number(size),
+        mimeType: typeof mimeType === 'string' ? mimeType : '',
+        chunkSize: Number(chunkSize) || CHUNK_SIZE,
+        chunks: new Map(),
+      }
+      chunkedUploads.set(uploadId, upload)
+      return json(200, chunkedSession(uploadId, upload))
+    }
+
+    // GET and DELETE /upload/chunked/:id, PUT /upload/chunked/:id/:index, POST /upload/chunked/:id/complete
+    if (segments[0] === 'upload' && segments[1] === 'chunked' && segments.length >= 3) {
+      const uploadId = segments[2]
+      const upload = chunkedUploads.get(uploadId)
+      if (!upload || upload.sessionId !== sessionId) return json(404, { error: 'Upload not found' })
+
+      if (method === 'GET' && segments.length === 3) return json(200, chunkedSession(uploadId, upload))
+
+      if (method === 'DELETE' && segments.length === 3) {
+        chunkedUploads.delete(uploadId)
+        return json(200, { message: 'Upload discarded' })
+      }
+
+      if (method === 'PUT' && segments.length === 4) {
+        const chunk = body instanceof Blob ? body : await req.blob()
+        upload.chunks.set(Number(segments[3]), chunk)
+        return json(200, { received: Number(segments[3]) })
+      }
+
+      if (method === 'POST' && segments[3] === 'complete') {
+        const totalChunks = Math.ceil(upload.size / upload.chunkSize)
+        const parts: Blob[] = []
+        for (let index = 0; index < totalChunks; index++) {
+          const chunk = upload.chunks.get(index)
+          if (!chunk) return json(409, { error: `Chunk ${index} is missing` })
+          parts.push(chunk)
+        }
+        chunkedUploads.delete(uploadId)
+        addDocument(session, upload.type, new File(parts, upload.filename, { type: upload.mimeType }))
+        return json(200, { message: 'File uploaded', filename: upload.filename })
+      }
+    }
+
+    // POST /upload/:type
+    if (method === 'POST' && segments[0] === 'upload' && segments.length === 2) {
+      const type = segments[1] as DocumentType
+      const file = body instanceof FormData ? body.get(type) : null
+      if (!(file instanceof File)) return json(400, { error: 'No file uploaded' })
+
+      const failure = await scriptedFailure(file.name, req.signal)
+      if (failure) return failure
+
+      const sourceUrl = body instanceof FormData ? body.get('sourceUrl') : null
+      addDocument(session, type, file, typeof sourceUrl === 'string' ? sourceUrl : undefined)
+      return json(200, { message: 'File uploaded', filename: file.name })
+    }
+
+    // GET /:type/status
+    if (method === 'GET' && segments.length === 2 && segments[1] === 'status') {
+      const type = segments[0] as DocumentType
+      const files = Array.from(session.values()).filter(doc => doc.type === type).map(toStatus)
+      return json(200, { sessionId, files })
+    }
+
+    // DELETE /:type/:id and GET /:type/:id/file
+    if (segments.length >= 2 && ['pdf', 'audio', 'text'].includes(segments[0])) {
+      const [type, id] = segments as [DocumentType, string]
+      const doc = Array.from(session.values()).find(d => d.type === type && (d.id === id || d.filename === id))
+      if (!doc) return json(404, { error: 'Document not found' })
+
+      if (method === 'DELETE' && segments.length === 2) {
+        session.delete(documentKey(doc.type, doc.filename))
+        return json(200, { message: 'Document deleted' })
+      }
+      if (method === 'GET' && segments[2] === 'file') {
+        return new Response(doc.file, { headers: { 'content-type': doc.file.type || 'application/octet-stream' } })
+      }
+      if (method === 'GET' && segments[2] === 'summary') {
+        if (toStatus(doc).status !== 'ready') return json(409, { error: 'Document is not ready yet' })
+        return json(200, {
+          summary: `**${doc.filename}** reviews the quarter: revenue grew 12%, mostly from the enterprise plan, and churn fell to 3% after onboarding changes. It closes with next steps on pricing and hiring.`,
+          suggestedQuestions: [
+            'What drove the revenue growth?',
+            'How did the onboarding changes affect churn?',
+            'What are the next steps?',
+          ],
+        })
+      }
+    }
+
+    // POST /session/migrate
+    if (method === 'POST' && path === '/session/migrate') {
+      const { fromSessionId } = await req.json()
+      const from = sessions.get(fromSessionId)
+      from?.forEach((doc, key) => session.set(key, doc))
+      sessions.delete(fromSessionId)
+      return json(200, { migrated: from?.size ?? 0 })
+    }
+
+    // POST /feedback
+    if (method === 'POST' && path === '/feedback') {
+      const { messageId, rating, comment } = await req.json()
+      console.log(`👍 Mock feedback for ${messageId}: ${rating}${comment ? ` (${comment})` : ''}`)
+      return json(200, { received: true })
+    }
+
+    // GET /chat
+    if (method === 'GET' && path === '/chat') {
+      const message = url.searchParams.get('message') || ''
+      const failure = await scriptedFailure(message, req.signal)
+      if (failure) return failure
+
+      const documentIds = url.searchParams.getAll('documentIds')
+      const ready = Array.from(session.values())
+        .filter(doc => toStatus(doc).status === 'ready')
+        .filter(doc => documentIds.length === 0 || documentIds.includes(doc.id) || documentIds.includes(doc.filename))
+      return streamAnswer(cannedAnswer(message, ready), citationsFor(ready), req.signal)
+    }
+
+    // Anything else is unknown to the mock
+    return json(404, { error: `Mock backend has no route for ${method} ${path}` })
+  } catch (error) {
+    if (req.signal.aborted) return new Response(null, { status: 499 })
+    throw error
+  }
+}
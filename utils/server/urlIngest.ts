@@ -0,0 +1,327 @@
+// utils/server/urlIngest.ts
+
+/**
+ * Fetches a web address on the server so it can be indexed like an uploaded file
+ * Features:
+ * - Only public http(s) addresses; private, loopback, link-local and other reserved ranges
+ *   are refused on every redirect hop
+ * - Connections go to the exact address that passed the check, so a DNS answer that
+ *   changes between the check and the request can't reach the internal network
+ * - PDFs and audio are downloaded as-is; web pages are reduced to their readable text
+ * - Downloads are capped at the upload size limit for their type and time out
+ */
+
+import { lookup, type LookupAddress } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+import { Readable } from 'node:stream'
+import type { DocumentType } from '@/utils/api/types'
+import { MAX_UPLOAD_BYTES } from './backendProxy'
+
+const FETCH_TIMEOUT_MS = 30 * 1000
+const MAX_REDIRECTS = 5
+const MAX_TITLE_LENGTH = 80
+
+const REQUEST_HEADERS = {
+  'user-agent': 'DocuMind/1.0 (+link import)',
+  accept: 'text/html,application/pdf,audio/*,text/*;q=0.9,*/*;q=0.5',
+  // Responses are read as-is, without decompression
+  'accept-encoding': 'identity',
+}
+
+// Statuses whose responses never carry a body
+const NULL_BODY_STATUSES = [204, 205, 304]
+
+// Addresses the server must never be made to connect to. IPv4-mapped IPv6
+// addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges too.
+const BLOCKED_RANGES = new BlockList()
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "this" network
+  ['10.0.0.0', 8, 'ipv4'], // private
+  ['100.64.0.0', 10, 'ipv4'], // carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // loopback
+  ['169.254.0.0', 16, 'ipv4'], // link-local, including cloud metadata services
+  ['172.16.0.0', 12, 'ipv4'], // private
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.0.2.0', 24, 'ipv4'], // documentation
+  ['192.168.0.0', 16, 'ipv4'], // private
+  ['198.18.0.0', 15, 'ipv4'], // benchmarking
+  ['198.51.100.0', 24, 'ipv4'], // documentation
+  ['203.0.113.0', 24, 'ipv4'], // documentation
+  ['224.0.0.0', 4, 'ipv4'], // multicast
+  ['240.0.0.0', 4, 'ipv4'], // reserved and broadcast
+  ['::', 96, 'ipv6'], // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, which can reach any IPv4 address
+  ['64:ff9b:1::', 48, 'ipv6'], // local-use NAT64
+  ['100::', 64, 'ipv6'], // discard
+  ['2001::', 32, 'ipv6'], // Teredo
+  ['2001:db8::', 32, 'ipv6'], // documentation
+  ['2002::', 16, 'ipv6'], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7, 'ipv6'], // unique local
+  ['fe80::', 10, 'ipv6'], // link-local
+  ['ff00::', 8, 'ipv6'], // multicast
+]
+BLOCKED_SUBNETS.forEach(([network, prefix, family]) => BLOCKED_RANGES.addSubnet(network, prefix, family))
+
+// Dropped from web pages before their text is extracted
+const NON_CONTENT_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'header', 'footer', 'aside', 'form']
+const BLOCK_TAGS = /<\/?(p|div|br|li|tr|h[1-6]|section|article|blockquote|pre|table|ul|ol|dd|dt)\b[^>]*>/gi
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©',
+}
+
+// Thrown with an HTTP status and a message fit to show the user
+export class IngestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'IngestError'
+  }
+}
+
+export interface FetchedDocument {
+  type: DocumentType
+  file: File
+  // Page or file title, when one could be found
+  title?: string
+  // The address the content was finally served from, after redirects
+  finalUrl: string
+}
+
+const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address)
+  // Anything that isn't a plain IP address can't be checked, so it isn't trusted
+  if (family === 0) return true
+  return BLOCKED_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+const unreachable = () => new IngestError(400, 'This address is not reachable from the server.')
+
+// Refuse anything but public http(s) hosts, so the server can't be pointed at its own network.
+// Host names are checked again as they resolve, by publicLookup.
+const assertPublicUrl = (url: URL): void => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new IngestError(400, 'Only http and https links are supported.')
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw unreachable()
+  }
+  // Sockets connect to IP literals without a lookup, so they are checked here
+  if (isIP(hostname) && isPrivateAddress(hostname)) throw unreachable()
+}
+
+// DNS lookup for outgoing sockets that fails when any resolved address is private.
+// The socket connects to the address checked here, leaving no window for DNS rebinding.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(new IngestError(400, `Could not find the site "${hostname}".`), '')
+      return
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(unreachable(), '')
+      return
+    }
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// GET `url` through publicLookup, without following redirects
+const requestPublic = (url: URL, signal: AbortSignal): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.request(url, { method: 'GET', headers: REQUEST_HEADERS, lookup: publicLookup, signal }, res => {
+      const headers = new Headers()
+      Object.entries(res.headers).forEach(([name, value]) => {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+      })
+      const status = res.statusCode ?? 502
+      if (NULL_BODY_STATUSES.includes(status)) {
+        res.resume()
+        resolve(new Response(null, { status, headers }))
+        return
+      }
+      resolve(new Response(Readable.toWeb(res) as ReadableStream<Uint8Array>, { status, headers }))
+    })
+    req.on('error', reject)
+    req.end()
+  })
+
+// Follow redirects by hand so every hop is checked
+const fetchPublic = async (url: URL, signal: AbortSignal): Promise<{ response: Response; finalUrl: URL }> => {
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(current)
+    const response = await requestPublic(current, signal)
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      void response.body?.cancel()
+      current = new URL(location, current)
+      continue
+    }
+    return { response, finalUrl: current }
+  }
+  throw new IngestError(400, 'The link redirects too many times.')
+}
+
+// Read the body, giving up as soon as it passes `maxBytes`
+const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> => {
+  const declared = Number(response.headers.get('content-length') || 0)
+  if (declared > maxBytes) throw new IngestError(413, `The linked file is larger than ${Math.round(maxBytes / (1024 * 1024))}MB.`)
+  if (!response.body) return new Uint8Array(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      void reader.cancel()
+      throw new IngestError(413, `The linked file is larger than ${Math.round(maxBytes / (1024 * 1024))}MB.`)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  })
+  return bytes
+}
+
+const detectType = (mimeType: string, url: URL): DocumentType | 'html' | null => {
+  const path = url.pathname.toLowerCase()
+  if (mimeType === 'application/pdf' || path.endsWith('.pdf')) return 'pdf'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') return 'html'
+  if (mimeType.startsWith('text/')) return 'text'
+  return null
+}
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+
+const tidyText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const extractTitle = (html: string): string | undefined => {
+  const ogTitle = html.match(/<meta[^>]+property=["']og:title["'][^>]*content=["']([^"']+)["']/i)?.[1]
+  const title = ogTitle ?? html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  const cleaned = title && tidyText(decodeEntities(title)).replace(/\n/g, ' ')
+  return cleaned || undefined
+}
+
+// The readable text of a page: its <article> or <main> when it has one, minus navigation and scripts
+export const extractReadableText = (html: string): string => {
+  let content = html
+  for (const tag of ['article', 'main']) {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'))
+    if (match && match[1].replace(/<[^>]+>/g, '').trim().length > 200) {
+      content = match[1]
+      break
+    }
+  }
+
+  content = content.replace(/<!--[\s\S]*?-->/g, '')
+  NON_CONTENT_TAGS.forEach(tag => {
+    content = content.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ')
+  })
+  content = content.replace(BLOCK_TAGS, '\n').replace(/<[^>]+>/g, '')
+  return tidyText(decodeEntities(content))
+}
+
+// A filesystem-safe name for the indexed document
+const toFilename = (base: string, extension: string): string => {
+  const safe = base.replace(/[\\/:*?"<>|\n\r\t]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH)
+  return safe.toLowerCase().endsWith(extension) ? safe : `${safe || 'document'}${extension}`
+}
+
+const lastPathSegment = (url: URL): string => {
+  const segment = url.pathname.split('/').filter(Boolean).pop()
+  try {
+    return segment ? decodeURIComponent(segment) : url.hostname
+  } catch {
+    return url.hostname
+  }
+}
+
+/**
+ * Download `rawUrl` and turn it into a file for the upload pipeline.
+ * Throws an IngestError for anything the user should be told about.
+ */
+export async function fetchUrlDocument(rawUrl: string, signal: AbortSignal): Promise<FetchedDocument> {
+  let url: URL
+  try {
+    url = new URL(rawUrl.trim())
+  } catch {
+    throw new IngestError(400, 'That doesn\'t look like a valid link.')
+  }
+
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  const combined = AbortSignal.any([signal, timeout])
+
+  try {
+    const { response, finalUrl } = await fetchPublic(url, combined)
+    if (!response.ok) {
+      throw new IngestError(502, `The site answered with an error (${response.status}).`)
+    }
+
+    const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase()
+    const type = detectType(mimeType, finalUrl)
+    if (!type) {
+      void response.body?.cancel()
+      throw new IngestError(415, `Links to "${mimeType || 'unknown'}" content are not supported. Use a web page, PDF or audio file.`)
+    }
+
+    const bytes = await readLimited(response, MAX_UPLOAD_BYTES[type === 'html' ? 'pdf' : type])
+
+    if (type === 'pdf' || type === 'audio') {
+      const extension = type === 'pdf' ? '.pdf' : ''
+      const filename = toFilename(lastPathSegment(finalUrl), extension)
+      return {
+        type,
+        file: new File([bytes], filename, { type: type === 'pdf' ? 'application/pdf' : mimeType }),
+        finalUrl: finalUrl.toString(),
+      }
+    }
+
+    const raw = new TextDecoder().decode(bytes)
+    const title = type === 'html' ? extractTitle(raw) : undefined
+    const text = type === 'html' ? extractReadableText(raw) : tidyText(raw)
+    if (!text) throw new IngestError(422, 'No readable text was found at this link.')
+
+    const heading = title ? `${title}\n\n` : ''
+    const filename = toFilename(title ?? lastPathSegment(finalUrl), '.txt')
+    return {
+      type: 'text',
+      file: new File([`${heading}${text}`], filename, { type: 'text/plain' }),
+      title,
+      finalUrl: finalUrl.toString(),
+    }
+  } catch (error) {
+    if (error instanceof IngestError) throw error
+    if (timeout.aborted) throw new IngestError(504, 'The site took too long to respond.')
+    if (signal.aborted) throw error
+    console.error('❌ Fetching link failed:', rawUrl, error)
+    throw new IngestError(502, 'The link could not be downloaded.')
+  }
+}
@@ -9,11 +9,18 @@
  * - Device fingerprinting as fallback
  * - Storage validation and recovery
  * - Mobile browser compatibility
+ * - Separate sessions per signed-in user, so accounts sharing a browser never share documents
  */
 
 // Memory fallback for when storage is completely unavailable
 let memorySessionId: string | null = null;
 
+// Clerk user the session belongs to; null while signed out
+let currentUserId: string | null = null;
+const sessionListeners = new Set<() => void>();
+
+export const SESSION_CHANGED_EVENT = 'sessionChanged';
+
 // Storage keys
 const SESSION_KEYS = {
   PRIMARY: 'pdfrag_session_id',
@@ -21,6 +28,10 @@ const SESSION_KEYS = {
   TIMESTAMP: 'pdfrag_session_ts'
 } as const;
 
+// Storage key for the current user's session; anonymous sessions keep the original keys
+const scopedKey = (key: string, userId: string | null = currentUserId): string =>
+  userId ? `${key}:${userId}` : key;
+
 // Device fingerprint components (non-PII)
 const getDeviceFingerprint = (): string => {
   if (typeof window === 'undefined') return 'server-default';
@@ -121,12 +132,15 @@ const setupSessionSync = (sessionId: string): void => {
     
     channel.addEventListener('message', (event) => {
       if (event.data.type === 'SESSION_UPDATE') {
+        const userId: string | null = event.data.userId ?? null;
         const storage = getAvailableStorage();
         if (storage) {
-          storage.setItem(SESSION_KEYS.PRIMARY, event.data.sessionId);
-          storage.setItem(SESSION_KEYS.TIMESTAMP, Date.now().toString());
+          storage.setItem(scopedKey(SESSION_KEYS.PRIMARY, userId), event.data.sessionId);
+          storage.setItem(scopedKey(SESSION_KEYS.TIMESTAMP, userId), Date.now().toString());
+        }
+        if (userId === currentUserId) {
+          memorySessionId = event.data.sessionId;
         }
-        memorySessionId = event.data.sessionId;
       }
     });
     
@@ -134,6 +148,7 @@ const setupSessionSync = (sessionId: string): void => {
     channel.postMessage({
       type: 'SESSION_UPDATE',
       sessionId,
+      userId: currentUserId,
       timestamp: Date.now()
     });
     
@@ -161,11 +176,11 @@ export function getSessionId(): string {
   // Strategy 1: Get from storage
   if (storage) {
     try {
-      sessionId = storage.getItem(SESSION_KEYS.PRIMARY);
+      sessionId = storage.getItem(scopedKey(SESSION_KEYS.PRIMARY));
       
       // Validate session ID format and age
       if (sessionId) {
-        const timestamp = storage.getItem(SESSION_KEYS.TIMESTAMP);
+        const timestamp = storage.getItem(scopedKey(SESSION_KEYS.TIMESTAMP));
         const sessionAge = timestamp ? Date.now() - parseInt(timestamp) : Infinity;
         
         // Regenerate if session is too old (30 days) or malformed
@@ -174,8 +189,8 @@ export function getSessionId(): string {
         
         if (isMalformed || isExpired) {
           sessionId = null;
-          storage.removeItem(SESSION_KEYS.PRIMARY);
-          storage.removeItem(SESSION_KEYS.TIMESTAMP);
+          storage.removeItem(scopedKey(SESSION_KEYS.PRIMARY));
+          storage.removeItem(scopedKey(SESSION_KEYS.TIMESTAMP));
         }
       }
     } catch (error) {
@@ -191,13 +206,13 @@ export function getSessionId(): string {
     // Save to available storage
     if (storage) {
       try {
-        storage.setItem(SESSION_KEYS.PRIMARY, sessionId);
-        storage.setItem(SESSION_KEYS.TIMESTAMP, Date.now().toString());
+        storage.setItem(scopedKey(SESSION_KEYS.PRIMARY), sessionId);
+        storage.setItem(scopedKey(SESSION_KEYS.TIMESTAMP), Date.now().toString());
         
         // Backup in secondary storage
         if (storage === localStorage && typeof sessionStorage !== 'undefined') {
           try {
-            sessionStorage.setItem(SESSION_KEYS.BACKUP, sessionId);
+            sessionStorage.setItem(scopedKey(SESSION_KEYS.BACKUP), sessionId);
           } catch {
             // Ignore backup failures
           }
@@ -221,6 +236,35 @@ export function getSessionId(): string {
 export const sessionManager = {
   // Get current session ID
   getSessionId,
+
+  getUserId: (): string | null => currentUserId,
+
+  // Switch to the session of the signed-in user (or back to the anonymous one)
+  setUserId: (userId: string | null): void => {
+    if (userId === currentUserId) return;
+    currentUserId = userId;
+    memorySessionId = null;
+    const sessionId = getSessionId();
+    sessionListeners.forEach(listener => listener());
+    window.dispatchEvent(new CustomEvent(SESSION_CHANGED_EVENT, { detail: { userId, sessionId } }));
+  },
+
+  // This browser's signed-out session, if one was ever created
+  getAnonymousSessionId: (): string | null => {
+    const storage = getAvailableStorage();
+    try {
+      return storage?.getItem(SESSION_KEYS.PRIMARY) ?? null;
+    } catch {
+      return null;
+    }
+  },
+
+  subscribe: (listener: () => void): (() => void) => {
+    sessionListeners.add(listener);
+    return () => {
+      sessionListeners.delete(listener);
+    };
+  },
   
   // Refresh session (generate new ID)
   refreshSession: (): string => {
@@ -234,12 +278,12 @@ export const sessionManager = {
     
     if (storage) {
       try {
-        storage.removeItem(SESSION_KEYS.PRIMARY);
-        storage.removeItem(SESSION_KEYS.BACKUP);
-        storage.removeItem(SESSION_KEYS.TIMESTAMP);
+        storage.removeItem(scopedKey(SESSION_KEYS.PRIMARY));
+        storage.removeItem(scopedKey(SESSION_KEYS.BACKUP));
+        storage.removeItem(scopedKey(SESSION_KEYS.TIMESTAMP));
         
-        storage.setItem(SESSION_KEYS.PRIMARY, newSessionId);
-        storage.setItem(SESSION_KEYS.TIMESTAMP, Date.now().toString());
+        storage.setItem(scopedKey(SESSION_KEYS.PRIMARY), newSessionId);
+        storage.setItem(scopedKey(SESSION_KEYS.TIMESTAMP), Date.now().toString());
       } catch (error) {
         console.warn('Failed to refresh session in storage:', error);
       }
@@ -258,9 +302,9 @@ export const sessionManager = {
     
     if (storage) {
       try {
-        storage.removeItem(SESSION_KEYS.PRIMARY);
-        storage.removeItem(SESSION_KEYS.BACKUP);
-        storage.removeItem(SESSION_KEYS.TIMESTAMP);
+        storage.removeItem(scopedKey(SESSION_KEYS.PRIMARY));
+        storage.removeItem(scopedKey(SESSION_KEYS.BACKUP));
+        storage.removeItem(scopedKey(SESSION_KEYS.TIMESTAMP));
       } catch (error) {
         console.warn('Failed to clear session from storage:', error);
       }
@@ -291,7 +335,7 @@ export const sessionManager = {
       sessionId,
       storageType: storage === localStorage ? 'localStorage' : 
                    storage === sessionStorage ? 'sessionStorage' : 'memory',
-      timestamp: storage ? storage.getItem(SESSION_KEYS.TIMESTAMP) : null,
+      timestamp: storage ? storage.getItem(scopedKey(SESSION_KEYS.TIMESTAMP)) : null,
       deviceFingerprint: getDeviceFingerprint()
     };
   }
@@ -0,0 +1,273 @@
+'use client';
+// utils/statusSubscription.ts
+
+/**
+ * Shared processing-status subscription for every PDF and audio file in the session
+ * Features:
+ * - One connection per page, opened for the first subscriber and closed with the last
+ * - Server-Sent Events from /status/stream with incremental per-file updates, read
+ *   with fetch so the bearer token is sent as a header rather than in the URL
+ * - Automatic fallback to polling the per-type status endpoints when streaming is unavailable
+ * - Types the server has no status endpoint for are skipped until the next upload
+ * - Polls fast while something is processing and slowly otherwise
+ * - Refreshes immediately when an upload announces a change
+ * - Starts over when the signed-in user (and so the session) changes
+ */
+
+import api, {
+  ApiError,
+  type AudioFileStatus,
+  type DocumentStatus,
+  type DocumentType,
+  type StatusStreamEvent,
+} from '@/utils/api';
+import { SESSION_CHANGED_EVENT } from '@/utils/session';
+import { DOCUMENTS_CHANGED_EVENT } from '@/utils/documentEvents';
+
+export type StatusConnection = 'idle' | 'stream' | 'polling';
+
+type Listener = () => void;
+
+const ACTIVE_POLL_INTERVAL_MS = 3000;
+const IDLE_POLL_INTERVAL_MS = 15000;
+// After an explicit refresh, keep polling fast while the server registers the new file
+const REFRESH_FAST_POLL_MS = 30000;
+// How long to wait before reopening a status stream the server closed
+const STREAM_RECONNECT_MS = 3000;
+const DOCUMENT_TYPES: DocumentType[] = ['pdf', 'audio', 'text'];
+
+const documentKey = (type: DocumentType, filename: string) => `${type}:${filename}`;
+
+let documents = new Map<string, DocumentStatus>();
+let snapshot: DocumentStatus[] = [];
+let connection: StatusConnection = 'idle';
+let streamController: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+// Once the stream endpoint has failed, stay on polling for the rest of the page's life
+let streamUnavailable = false;
+let fastPollUntil = 0;
+// Types whose status endpoint answered 404, e.g. a backend without text support
+let unavailableTypes = new Set<DocumentType>();
+const listeners = new Set<Listener>();
+
+const emit = (): void => {
+  snapshot = Array.from(documents.values()).sort((a, b) => (b.uploadedAt ?? 0) - (a.uploadedAt ?? 0));
+  listeners.forEach(listener => listener());
+};
+
+const setConnection = (next: StatusConnection): void => {
+  if (connection === next) return;
+  connection = next;
+  listeners.forEach(listener => listener());
+};
+
+const isSameStatus = (a: DocumentStatus | undefined, b: DocumentStatus): boolean =>
+  !!a &&
+  a.status === b.status &&
+  a.progress === b.progress &&
+  a.stage === b.stage &&
+  a.updatedAt === b.updatedAt &&
+  (a as AudioFileStatus).transcript === (b as AudioFileStatus).transcript &&
+  (a as AudioFileStatus).segments?.length === (b as AudioFileStatus).segments?.length;
+
+// Replace everything known for one document type with a fresh server listing
+const applySnapshot = (type: DocumentType, files: DocumentStatus[]): boolean => {
+  let changed = false;
+  const next = new Map(documents);
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const key = documentKey(type, file.filename);
+    seen.add(key);
+    if (!isSameStatus(documents.get(key), file)) {
+      next.set(key, file);
+      changed = true;
+    }
+  }
+
+  for (const [key, doc] of documents) {
+    if (doc.type === type && !seen.has(key)) {
+      next.delete(key);
+      changed = true;
+    }
+  }
+
+  if (changed) documents = next;
+  return changed;
+};
+
+const applyEvent = (event: StatusStreamEvent): void => {
+  const key = documentKey(event.type, event.filename);
+
+  if (event.deleted) {
+    if (!documents.has(key)) return;
+    documents = new Map(documents);
+    documents.delete(key);
+    emit();
+    return;
+  }
+
+  const previous = documents.get(key);
+  const merged = { status: 'processing', ...previous, ...event } as DocumentStatus;
+  if (isSameStatus(previous, merged)) return;
+
+  documents = new Map(documents);
+  documents.set(key, merged);
+  emit();
+};
+
+const fetchSnapshot = async (): Promise<void> => {
+  const types = DOCUMENT_TYPES.filter(type => !unavailableTypes.has(type));
+  const results = await Promise.allSettled(types.map(type => api.getStatus(type)));
+  let changed = false;
+
+  results.forEach((result, index) => {
+    const type = types[index];
+    if (result.status === 'fulfilled') {
+      const files = result.value.files.map(file => ({ ...file, type }));
+      changed = applySnapshot(type, files) || changed;
+    } else if (result.reason instanceof ApiError && result.reason.status === 404) {
+      console.warn(`⚠️ No ${type} status endpoint, skipping ${type} until the next upload`);
+      unavailableTypes.add(type);
+    } else {
+      console.error(`❌ ${type} status fetch error`, result.reason);
+    }
+  });
+
+  if (changed) emit();
+};
+
+const hasProcessing = (): boolean => snapshot.some(doc => doc.status === 'processing');
+
+const schedulePoll = (): void => {
+  if (pollTimer) clearTimeout(pollTimer);
+  if (connection !== 'polling') return;
+
+  const isActive = hasProcessing() || Date.now() < fastPollUntil;
+  const delay = isActive ? ACTIVE_POLL_INTERVAL_MS : IDLE_POLL_INTERVAL_MS;
+  pollTimer = setTimeout(async () => {
+    await fetchSnapshot();
+    schedulePoll();
+  }, delay);
+};
+
+const startPolling = (): void => {
+  setConnection('polling');
+  void fetchSnapshot().then(schedulePoll);
+};
+
+const closeStream = (): void => {
+  streamController?.abort();
+  streamController = null;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+};
+
+const startStream = async (reconnecting = false): Promise<void> => {
+  if (streamUnavailable || typeof ReadableStream === 'undefined') {
+    startPolling();
+    return;
+  }
+
+  const controller = new AbortController();
+  streamController = controller;
+  let opened = false;
+
+  try {
+    await api.streamStatus(events => events.forEach(applyEvent), {
+      signal: controller.signal,
+      onOpen: () => {
+        opened = true;
+        setConnection('stream');
+        // Catch up on anything that changed while disconnected
+        void fetchSnapshot();
+      },
+    });
+  } catch (error) {
+    // Closed on purpose: disconnected or switched sessions
+    if (controller.signal.aborted) return;
+    console.warn('Status stream failed:', error);
+  }
+  if (controller.signal.aborted) return;
+  streamController = null;
+
+  if (opened) {
+    // The server ended a working stream, so open it again shortly
+    reconnectTimer = setTimeout(() => void startStream(true), STREAM_RECONNECT_MS);
+    return;
+  }
+
+  // Refused before ever opening: the server has no stream endpoint
+  if (!reconnecting) streamUnavailable = true;
+  startPolling();
+};
+
+const handleDocumentsChanged = (): void => {
+  void statusSubscription.refresh();
+};
+
+const stopUpdates = (): void => {
+  closeStream();
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+};
+
+// Documents belong to the session, so a new session starts from an empty list
+const handleSessionChanged = (): void => {
+  stopUpdates();
+  documents = new Map();
+  unavailableTypes = new Set();
+  setConnection('idle');
+  emit();
+  void startStream();
+};
+
+const connect = (): void => {
+  if (typeof window === 'undefined') return;
+  void startStream();
+  window.addEventListener(DOCUMENTS_CHANGED_EVENT, handleDocumentsChanged);
+  window.addEventListener(SESSION_CHANGED_EVENT, handleSessionChanged);
+};
+
+const disconnect = (): void => {
+  stopUpdates();
+  window.removeEventListener(DOCUMENTS_CHANGED_EVENT, handleDocumentsChanged);
+  window.removeEventListener(SESSION_CHANGED_EVENT, handleSessionChanged);
+  setConnection('idle');
+};
+
+export const statusSubscription = {
+  getDocuments: (): DocumentStatus[] => snapshot,
+
+  getConnection: (): StatusConnection => connection,
+
+  getDocument: (type: DocumentType, filename: string): DocumentStatus | undefined =>
+    documents.get(documentKey(type, filename)),
+
+  // Fetch current statuses now, e.g. right after an upload
+  refresh: async (): Promise<void> => {
+    // An upload may have added a type the server had no documents of before
+    unavailableTypes = new Set();
+    fastPollUntil = Date.now() + REFRESH_FAST_POLL_MS;
+    await fetchSnapshot();
+    schedulePoll();
+  },
+
+  // Drop a document locally once it has been deleted from the index
+  forget: (type: DocumentType, filename: string): void => {
+    applyEvent({ type, filename, deleted: true });
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) connect();
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) disconnect();
+    };
+  },
+};
+
+export default statusSubscription;
@@ -0,0 +1,202 @@
+'use client';
+// utils/textConversion.ts
+
+/**
+ * Converts documents to plain text in the browser, so the backend only has to index text
+ * Features:
+ * - DOCX paragraphs, tabs and line breaks from word/document.xml
+ * - EPUB chapters in reading (spine) order
+ * - HTML with scripts and styles removed and block elements on their own lines
+ * - TXT, Markdown and CSV are passed through unchanged
+ * - DOCX and EPUB are ZIP archives, read with the browser's DecompressionStream
+ */
+
+import type { TextFormat } from './documentFormats';
+import { translate, type MessageKey } from './i18n';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const BLOCK_ELEMENTS = 'p, div, br, li, tr, h1, h2, h3, h4, h5, h6, section, article, blockquote, pre, header, footer';
+
+// Thrown with the message key to show next to the file
+export class ConversionError extends Error {
+  constructor(readonly messageKey: MessageKey) {
+    super(translate('en', messageKey));
+    this.name = 'ConversionError';
+  }
+}
+
+// --- ZIP archives ---
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+// Map of every file path in the archive to where its data lives
+const readZipEntries = (buffer: ArrayBuffer): Map<string, ZipEntry> => {
+  const view = new DataView(buffer);
+  // The end record sits in the last 64KB (its trailing comment is at most 65535 bytes)
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new ConversionError('conversion.damaged');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (buffer: ArrayBuffer, entries: Map<string, ZipEntry>, path: string): Promise<string | null> => {
+  const entry = entries.get(path);
+  if (!entry) return null;
+
+  const view = new DataView(buffer);
+  // The local header repeats the name and extra field, with its own lengths
+  const headerOffset = entry.localHeaderOffset;
+  const dataOffset = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize);
+
+  if (entry.method === STORED) return new TextDecoder().decode(data);
+  if (entry.method !== DEFLATED) throw new ConversionError('conversion.unsupportedCompression');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+// --- Formats ---
+
+const parseXml = (xml: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ConversionError('conversion.damaged');
+  }
+  return doc;
+};
+
+const tidyText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+  // textContent ignores layout, so give block elements their line breaks explicitly
+  doc.querySelectorAll(BLOCK_ELEMENTS).forEach(el => el.after(doc.createTextNode('\n')));
+  return doc.body?.textContent ?? '';
+};
+
+const docxToText = async (buffer: ArrayBuffer): Promise<string> => {
+  const entries = readZipEntries(buffer);
+  const xml = await readZipText(buffer, entries, 'word/document.xml');
+  if (xml === null) throw new ConversionError('conversion.notWord');
+
+  const paragraphs = Array.from(parseXml(xml).getElementsByTagNameNS(WORD_NAMESPACE, 'p'));
+  return paragraphs
+    .map(paragraph => {
+      let text = '';
+      paragraph.querySelectorAll('*').forEach(node => {
+        if (node.namespaceURI !== WORD_NAMESPACE) return;
+        if (node.localName === 't') text += node.textContent ?? '';
+        else if (node.localName === 'tab') text += '\t';
+        else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+      });
+      return text;
+    })
+    .join('\n');
+};
+
+// Resolve an href from the package document against that document's folder
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const epubToText = async (buffer: ArrayBuffer): Promise<string> => {
+  const entries = readZipEntries(buffer);
+
+  const container = await readZipText(buffer, entries, 'META-INF/container.xml');
+  const packagePath = container && parseXml(container).querySelector('rootfile')?.getAttribute('full-path');
+  const packageXml = packagePath ? await readZipText(buffer, entries, packagePath) : null;
+  if (!packagePath || packageXml === null) throw new ConversionError('conversion.notEpub');
+
+  const packageDoc = parseXml(packageXml);
+  const manifest = new Map<string, string>();
+  packageDoc.querySelectorAll('manifest > item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(packagePath, href));
+  });
+
+  const chapters: string[] = [];
+  for (const itemref of Array.from(packageDoc.querySelectorAll('spine > itemref'))) {
+    const path = manifest.get(itemref.getAttribute('idref') ?? '');
+    const html = path ? await readZipText(buffer, entries, path) : null;
+    if (html) chapters.push(htmlToText(html));
+  }
+  return chapters.join('\n\n');
+};
+
+/**
+ * Convert `file` to a plain-text File with the same name, ready for upload.
+ * Throws a ConversionError when the file can't be read or has no text.
+ */
+export async function convertToText(file: File, format: TextFormat): Promise<File> {
+  let text: string;
+  try {
+    switch (format) {
+      case 'docx':
+        text = await docxToText(await file.arrayBuffer());
+        break;
+      case 'epub':
+        text = await epubToText(await file.arrayBuffer());
+        break;
+      case 'html':
+        text = htmlToText(await file.text());
+        break;
+      default:
+        text = await file.text();
+    }
+  } catch (err) {
+    if (err instanceof ConversionError) throw err;
+    console.error('❌ Error converting document to text:', err);
+    throw new ConversionError('conversion.damaged');
+  }
+
+  text = tidyText(text);
+  if (!text) throw new ConversionError('conversion.noText');
+  return new File([text], file.name, { type: 'text/plain', lastModified: file.lastModified });
+}
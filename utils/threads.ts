@@ -0,0 +1,148 @@
+'use client';
+// utils/threads.ts
+
+/**
+ * Conversation thread persistence
+ * Features:
+ * - Threads stored per browser session and Clerk user
+ * - localStorage with in-memory fallback
+ * - Tolerant loading (malformed data is discarded, not thrown)
+ */
+
+import type { ChatSource, FeedbackRating } from './api/types';
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'bot'
+  content: string
+  sources?: ChatSource[]
+  // Follow-up questions offered as chips under the message
+  suggestions?: string[]
+  // The user's rating of a bot answer, once sent
+  feedback?: { rating: FeedbackRating; comment?: string }
+  isStreaming?: boolean
+  // Sent while offline; waiting in the offline queue to be delivered
+  isQueued?: boolean
+  // The answer failed or was cut short, so the question can be retried
+  isError?: boolean
+  createdAt?: number
+}
+
+export interface ChatThread {
+  id: string
+  title: string
+  messages: ChatMessage[]
+  createdAt: number
+  updatedAt: number
+}
+
+export const DEFAULT_THREAD_TITLE = 'New chat';
+
+// Fired with { threads } when threads from another session are moved into the current one
+export const THREADS_MIGRATED_EVENT = 'threadsMigrated';
+
+export interface ThreadsMigratedDetail {
+  threads: ChatThread[]
+}
+
+const THREADS_KEY_PREFIX = 'pdfrag_threads';
+const ACTIVE_THREAD_KEY_PREFIX = 'pdfrag_active_thread';
+const MAX_TITLE_LENGTH = 60;
+
+// Memory fallback for when localStorage is unavailable
+const memoryThreads = new Map<string, string>();
+
+const storageKey = (prefix: string, sessionId: string, userId?: string | null) =>
+  `${prefix}:${userId || 'anonymous'}:${sessionId}`;
+
+const readItem = (key: string): string | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(key) ?? memoryThreads.get(key) ?? null;
+  } catch {
+    return memoryThreads.get(key) ?? null;
+  }
+};
+
+const writeItem = (key: string, value: string): void => {
+  if (typeof window === 'undefined') return;
+  memoryThreads.set(key, value);
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn('Failed to persist threads, keeping them in memory:', error);
+  }
+};
+
+const isValidThread = (value: unknown): value is ChatThread => {
+  if (!value || typeof value !== 'object') return false;
+  const thread = value as ChatThread;
+  return typeof thread.id === 'string' && typeof thread.title === 'string' && Array.isArray(thread.messages);
+};
+
+export const createId = (): string => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const createThread = (title: string = DEFAULT_THREAD_TITLE): ChatThread => {
+  const now = Date.now();
+  return { id: createId(), title, messages: [], createdAt: now, updatedAt: now };
+};
+
+// Derive a thread title from the first question asked in it
+export const titleFromMessage = (content: string): string => {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : singleLine || DEFAULT_THREAD_TITLE;
+};
+
+export function loadThreads(sessionId: string, userId?: string | null): ChatThread[] {
+  const raw = readItem(storageKey(THREADS_KEY_PREFIX, sessionId, userId));
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(isValidThread)
+      // A stream can't survive a reload, so never restore the in-progress flag
+      .map(thread => ({
+        ...thread,
+        messages: thread.messages.map(m => (m.isStreaming ? { ...m, isStreaming: false } : m)),
+      }));
+  } catch (error) {
+    console.warn('Discarding unreadable thread history:', error);
+    return [];
+  }
+}
+
+export function saveThreads(sessionId: string, userId: string | null | undefined, threads: ChatThread[]): void {
+  writeItem(storageKey(THREADS_KEY_PREFIX, sessionId, userId), JSON.stringify(threads));
+}
+
+export function loadActiveThreadId(sessionId: string, userId?: string | null): string | null {
+  return readItem(storageKey(ACTIVE_THREAD_KEY_PREFIX, sessionId, userId));
+}
+
+export function saveActiveThreadId(sessionId: string, userId: string | null | undefined, threadId: string): void {
+  writeItem(storageKey(ACTIVE_THREAD_KEY_PREFIX, sessionId, userId), threadId);
+}
+
+export const notifyThreadsMigrated = (threads: ChatThread[]): void => {
+  window.dispatchEvent(new CustomEvent<ThreadsMigratedDetail>(THREADS_MIGRATED_EVENT, { detail: { threads } }));
+};
+
+export const threadStore = {
+  loadThreads,
+  saveThreads,
+  loadActiveThreadId,
+  saveActiveThreadId,
+  createThread,
+  titleFromMessage,
+};
+
+export default threadStore;
@@ -0,0 +1,75 @@
+'use client';
+// utils/transcript.ts
+
+/**
+ * Transcript helpers for the audio transcript viewer
+ * Features:
+ * - Normalizes server transcripts into lines, from timed segments when present
+ * - Falls back to parsing "[mm:ss] Speaker: text" lines out of a plain transcript
+ * - Finds the line playing at a given time
+ */
+
+import type { AudioFileStatus } from './api/types';
+
+export interface TranscriptLine {
+  // Seconds from the start of the recording; undefined when the line isn't timed
+  start?: number
+  end?: number
+  text: string
+  speaker?: string
+}
+
+// "[01:23]", "[1:02:03]" or "00:12 -" at the start of a line, then an optional "Speaker:"
+const TIMED_LINE_PATTERN = /^\[?((?:\d+:)?\d{1,2}:\d{2})(?:\.\d+)?\]?\s*[-–]?\s*(?:([^:\n]{1,40}):\s+)?(.*)$/;
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const parseTimestamp = (value: string): number =>
+  value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+const parsePlainTranscript = (transcript: string): TranscriptLine[] => {
+  const rawLines = transcript.split(/\n+/).map(line => line.trim()).filter(Boolean);
+  const lines: TranscriptLine[] = rawLines.map(line => {
+    const match = line.match(TIMED_LINE_PATTERN);
+    if (!match) return { text: line };
+    return { start: parseTimestamp(match[1]), speaker: match[2]?.trim(), text: match[3].trim() };
+  });
+
+  // Each timed line ends where the next one starts
+  lines.forEach((line, index) => {
+    const next = lines[index + 1];
+    if (line.start !== undefined && next?.start !== undefined) line.end = next.start;
+  });
+  return lines;
+};
+
+export const getTranscriptLines = (status: AudioFileStatus | undefined): TranscriptLine[] => {
+  if (status?.segments?.length) {
+    return status.segments
+      .filter(segment => segment.text?.trim())
+      .map(segment => ({ ...segment, text: segment.text.trim() }));
+  }
+  if (status?.transcript?.trim()) return parsePlainTranscript(status.transcript);
+  return [];
+};
+
+export const isTimedTranscript = (lines: TranscriptLine[]): boolean =>
+  lines.some(line => line.start !== undefined);
+
+// Index of the line being spoken at `time`, or -1 before the first timed line
+export const findActiveLine = (lines: TranscriptLine[], time: number): number => {
+  let active = -1;
+  lines.forEach((line, index) => {
+    if (line.start !== undefined && line.start <= time && (line.end === undefined || time < line.end)) {
+      active = index;
+    }
+  });
+  return active;
+};
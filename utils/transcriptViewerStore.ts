@@ -0,0 +1,50 @@
+'use client';
+// utils/transcriptViewerStore.ts
+
+/**
+ * Which audio transcript the transcript panel shows
+ * Opened from the audio upload card, the document library, or an audio
+ * citation, optionally starting playback at a given time.
+ */
+
+export interface TranscriptViewerTarget {
+  filename: string
+  // Document ID used to download the audio when it isn't available locally
+  documentId?: string
+  // Seconds to seek to once the audio is loaded
+  startTime?: number
+  // Bumped on every request so re-opening the same target still seeks
+  requestId: number
+}
+
+type Listener = () => void;
+
+let target: TranscriptViewerTarget | null = null;
+let nextRequestId = 1;
+const listeners = new Set<Listener>();
+
+const emit = (next: TranscriptViewerTarget | null): void => {
+  target = next;
+  listeners.forEach(listener => listener());
+};
+
+export const transcriptViewerStore = {
+  getTarget: (): TranscriptViewerTarget | null => target,
+
+  open: (request: Omit<TranscriptViewerTarget, 'requestId'>): void => {
+    emit({ ...request, requestId: nextRequestId++ });
+  },
+
+  close: (): void => {
+    emit(null);
+  },
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default transcriptViewerStore;